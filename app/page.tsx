@@ -1,57 +1,55 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { RingConnector, DataDashboard } from '../components';
 import { ColmiRingService } from '../lib/colmi-ring-service';
+import { RingManager } from '../lib/ring-manager';
+import { ManagedRing } from '../lib/types';
 
 /**
  * Main application page for the Colmi Ring Dashboard
- * 
- * Manages the application state and transitions between connection
- * and dashboard views based on ring connection status.
+ *
+ * Holds every connected ring in a RingManager and shows the dashboard for
+ * the active one, or the connector when no rings are connected.
  */
 export default function Home() {
-  const [ringService, setRingService] = useState<ColmiRingService | null>(null);
-  const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [ringManager] = useState<RingManager>(() => new RingManager());
+  const [activeRing, setActiveRing] = useState<ManagedRing | null>(null);
+
+  React.useEffect(() => {
+    return ringManager.on('activeRingChanged', setActiveRing);
+  }, [ringManager]);
 
   /**
    * Handles successful ring connection
    * @param service - The connected ColmiRingService instance
    */
-  const handleConnect = (service: ColmiRingService) => {
-    setRingService(service);
-    setIsConnected(true);
-  };
-
-  /**
-   * Handles ring disconnection
-   */
-  const handleDisconnect = () => {
-    setRingService(null);
-    setIsConnected(false);
-  };
+  const handleConnect = useCallback((service: ColmiRingService) => {
+    ringManager.add(service);
+  }, [ringManager]);
 
-  // Monitor service connection status
+  // Drop rings whose link is gone for good; removing the last one returns to the connector
   React.useEffect(() => {
-    if (ringService) {
-      const checkConnection = () => {
-        const connected = ringService.isConnected();
-        if (!connected && isConnected) {
-          handleDisconnect();
+    const checkConnections = () => {
+      for (const ring of ringManager.getRings()) {
+        // Stay on the dashboard while the service reconnects silently
+        if (!ring.service.isConnected() && !ring.service.isReconnecting()) {
+          ringManager.remove(ring.id);
         }
-      };
+      }
+    };
 
-      // Check connection status every 2 seconds
-      const connectionCheck = setInterval(checkConnection, 2000);
+    // Check connection status every 2 seconds
+    const connectionCheck = setInterval(checkConnections, 2000);
 
-      return () => clearInterval(connectionCheck);
-    }
-  }, [ringService, isConnected]);
+    return () => clearInterval(connectionCheck);
+  }, [ringManager]);
 
   return (
     <div className="min-h-screen">
-      {isConnected && ringService ? (
-        <DataDashboard ringService={ringService} />
+      {activeRing ? (
+        // Remount per ring so each ring's dashboard state starts from its own service
+        <DataDashboard key={activeRing.id} ringService={activeRing.service} ringManager={ringManager} />
       ) : (
         <RingConnector onConnect={handleConnect} />
       )}
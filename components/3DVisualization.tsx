@@ -7,9 +7,10 @@
 
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { Play, Square, RotateCcw, Info } from 'lucide-react';
 import { GlassCard, AnimatedButton, StatusIndicator } from './glass';
+import { useMotionProcessor } from '../hooks/useMotionProcessor';
 
 interface ThreeDVisualizationProps {
   isConnected: boolean;
@@ -33,32 +34,28 @@ export function ThreeDVisualization({
   const [sensitivity, setSensitivity] = useState(1);
   const [smoothing, setSmoothing] = useState(0.8); // Data stabilization factor (0-1)
   const animationFrameRef = useRef<number | null>(null);
-  const previousRotationRef = useRef({ x: 0, y: 0, z: 0 });
 
-  // Update rotation based on accelerometer data with smoothing/stabilization
+  // Exponential smoothing for data stabilization runs in the motion pipeline worker
+  // Higher smoothing value = more stable but less responsive
+  const pipelineConfig = useMemo(() => ({ orientationSmoothing: smoothing }), [smoothing]);
+  const motionProcessor = useMotionProcessor(pipelineConfig);
+
+  // Update rotation from the smoothed orientation, applying calibration and sensitivity
+  useEffect(() => {
+    return motionProcessor.on('features', ({ orientation }) => {
+      setRotation({
+        x: (orientation.x - calibration.x) * sensitivity,
+        y: (orientation.y - calibration.y) * sensitivity,
+        z: (orientation.z - calibration.z) * sensitivity,
+      });
+    });
+  }, [motionProcessor, calibration, sensitivity]);
+
   useEffect(() => {
     if (accelerometerData) {
-      const { rotateX, rotateY, rotateZ } = accelerometerData;
-      
-      // Apply calibration and sensitivity
-      const targetRotation = {
-        x: (rotateX - calibration.x) * sensitivity,
-        y: (rotateY - calibration.y) * sensitivity,
-        z: (rotateZ - calibration.z) * sensitivity,
-      };
-      
-      // Apply exponential smoothing for data stabilization
-      // Higher smoothing value = more stable but less responsive
-      const smoothedRotation = {
-        x: previousRotationRef.current.x * smoothing + targetRotation.x * (1 - smoothing),
-        y: previousRotationRef.current.y * smoothing + targetRotation.y * (1 - smoothing),
-        z: previousRotationRef.current.z * smoothing + targetRotation.z * (1 - smoothing),
-      };
-      
-      previousRotationRef.current = smoothedRotation;
-      setRotation(smoothedRotation);
+      motionProcessor.process([accelerometerData]);
     }
-  }, [accelerometerData, calibration, sensitivity, smoothing]);
+  }, [motionProcessor, accelerometerData]);
 
   // Calibrate to current position
   const handleCalibrate = () => {
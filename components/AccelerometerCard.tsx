@@ -1,15 +1,20 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Compass, RotateCcw, Play, Square, Zap, Target } from 'lucide-react';
-import { AccelerometerData } from '../lib/types';
+import React, { useState } from 'react';
+import { Compass, RotateCcw, Play, Square, Zap, Target, Timer } from 'lucide-react';
+import { AccelerometerData, SampleRateStats } from '../lib/types';
+import { AccelerometerBuffer } from '../lib/accelerometer-buffer';
+import { SAMPLE_RATE_REPORT_INTERVAL } from '../lib/constants';
+import { useAccelerometerFrames } from '../hooks/useAccelerometerFrames';
 
 
 
 interface AccelerometerCardProps {
   isConnected: boolean;
   isRawDataMode?: boolean;
-  accelerometerData?: AccelerometerData | null;
+  accelerometerBuffer?: AccelerometerBuffer | null;
+  sampleRateStats?: SampleRateStats | null;
+  onResampleRateChange?: (rateHz: number | null) => void;
   onStartRawData?: () => void;
   onStopRawData?: () => void;
 }
@@ -23,30 +28,35 @@ interface AccelerometerCardProps {
 export function AccelerometerCard({
   isConnected,
   isRawDataMode = false,
-  accelerometerData: realAccelerometerData,
+  accelerometerBuffer,
+  sampleRateStats,
+  onResampleRateChange,
   onStartRawData,
   onStopRawData
 }: AccelerometerCardProps) {
   const [dataHistory, setDataHistory] = useState<AccelerometerData[]>([]);
   const [isCalibrating, setIsCalibrating] = useState<boolean>(false);
   const [calibrationOffset, setCalibrationOffset] = useState({ x: 0, y: 0, z: 0 });
+  const [latestData, setLatestData] = useState<AccelerometerData | null>(null);
 
 
 
-  // Update data history when real accelerometer data is received
-  useEffect(() => {
-    if (realAccelerometerData && isRawDataMode) {
-      // Apply calibration offset
-      const calibratedData = {
-        ...realAccelerometerData,
-        rotateX: realAccelerometerData.rotateX - calibrationOffset.x,
-        rotateY: realAccelerometerData.rotateY - calibrationOffset.y,
-        rotateZ: realAccelerometerData.rotateZ - calibrationOffset.z,
-      };
+  // Read new samples once per frame rather than re-rendering per packet
+  useAccelerometerFrames(accelerometerBuffer, isRawDataMode, (samples) => {
+    // Apply calibration offset
+    const calibratedSamples = samples.map(sample => ({
+      ...sample,
+      rotateX: sample.rotateX - calibrationOffset.x,
+      rotateY: sample.rotateY - calibrationOffset.y,
+      rotateZ: sample.rotateZ - calibrationOffset.z,
+    }));
 
-      setDataHistory(prev => [...prev.slice(-19), calibratedData]); // Keep last 20 readings
-    }
-  }, [realAccelerometerData, isRawDataMode, calibrationOffset]);
+    setLatestData(samples[samples.length - 1]);
+    setDataHistory(prev => [...prev, ...calibratedSamples].slice(-20)); // Keep last 20 readings
+  });
+
+  // Nothing to show once raw data mode stops
+  const realAccelerometerData = isRawDataMode ? latestData : null;
 
   const handleStartRawData = async () => {
     await onStartRawData?.();
@@ -222,6 +232,72 @@ export function AccelerometerCard({
         )}
       </div>
 
+      {/* Link Timing - tells a bad link apart from a bad gesture */}
+      {isRawDataMode && sampleRateStats && (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+              <Timer className="h-4 w-4" />
+              Link Timing
+            </h4>
+            {onResampleRateChange && (
+              <label className="text-xs text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                Resample:
+                <select
+                  value={sampleRateStats.resampleRateHz ?? ''}
+                  onChange={(e) => onResampleRateChange(e.target.value ? Number(e.target.value) : null)}
+                  className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">Off</option>
+                  <option value="20">20 Hz</option>
+                  <option value="25">25 Hz</option>
+                  <option value="50">50 Hz</option>
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+            <div>
+              <div className="text-lg font-bold text-gray-900 dark:text-white">
+                {sampleRateStats.rateHz !== null ? `${sampleRateStats.rateHz.toFixed(1)} Hz` : '--'}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">Sample rate</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-gray-900 dark:text-white">
+                {sampleRateStats.jitterMs !== null ? `±${sampleRateStats.jitterMs.toFixed(1)} ms` : '--'}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Jitter{sampleRateStats.meanIntervalMs !== null && ` (${sampleRateStats.meanIntervalMs.toFixed(1)} ms avg)`}
+              </div>
+            </div>
+            <div>
+              <div className={`text-lg font-bold ${sampleRateStats.gaps > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-gray-900 dark:text-white'}`}>
+                {sampleRateStats.gaps}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Gaps{sampleRateStats.gaps > 0 && ` (longest ${Math.round(sampleRateStats.longestGapMs)} ms)`}
+              </div>
+            </div>
+            <div>
+              <div className={`text-lg font-bold ${sampleRateStats.droppedSamples > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-gray-900 dark:text-white'}`}>
+                ~{sampleRateStats.droppedSamples}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Dropped of {sampleRateStats.samples}
+              </div>
+            </div>
+          </div>
+
+          {sampleRateStats.openGapMs !== null && sampleRateStats.openGapMs >= SAMPLE_RATE_REPORT_INTERVAL && (
+            <p className="mt-3 text-xs text-orange-600 dark:text-orange-400">
+              No samples for {(sampleRateStats.openGapMs / 1000).toFixed(1)} s - the stream has stalled
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Hand Position Visual Guide */}
       {realAccelerometerData && (
         <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -1,18 +1,12 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Activity, TrendingUp, Zap, MapPin, RefreshCw, Clock, CheckCircle } from 'lucide-react';
-
-interface ActivityData {
-  steps: number;
-  calories: number;
-  distance: number; // in meters
-  timestamp: Date;
-  timeIndex: number; // 15-minute intervals (0-95 for 24 hours)
-}
+import { Activity, TrendingUp, Zap, MapPin, RefreshCw, CheckCircle } from 'lucide-react';
+import { DailyStepSummary } from '../lib/types';
 
 interface ActivityCardProps {
   steps?: number | null;
+  history?: DailyStepSummary[];
   isConnected: boolean;
   onRefreshActivity?: () => void;
   onRequestDetailedSteps?: () => void;
@@ -26,11 +20,11 @@ interface ActivityCardProps {
  */
 export function ActivityCard({
   steps,
+  history = [],
   isConnected,
   onRefreshActivity,
   onRequestDetailedSteps
 }: ActivityCardProps) {
-  const [activityHistory, setActivityHistory] = useState<ActivityData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [lastStepCount, setLastStepCount] = useState<number | null>(null);
   const [stepDelta, setStepDelta] = useState<number>(0);
@@ -62,10 +56,19 @@ export function ActivityCard({
     }
   }, [stepDelta]);
 
-  // Estimate calories and distance from steps (rough calculations)
-  // Note: Ring provides actual calories and distance in detailed data
-  const estimatedCalories = steps ? Math.round(steps * 0.04) : 0; // ~0.04 cal per step
-  const estimatedDistance = steps ? Math.round(steps * 0.762) : 0; // ~0.762m per step
+  // Use the ring's own calories and distance for today once synced,
+  // otherwise estimate them from steps (rough calculations)
+  const today = history.find(summary => summary.date === new Date().toISOString().slice(0, 10));
+  const calories = today ? today.totalCalories : steps ? Math.round(steps * 0.04) : 0; // ~0.04 cal per step
+  const distance = today ? today.totalDistance : steps ? Math.round(steps * 0.762) : 0; // ~0.762m per step
+
+  // Last 7 days, oldest first, for the weekly bars
+  const week = history.slice(0, 7).reverse();
+  const weekMaxSteps = Math.max(...week.map(summary => summary.totalSteps), 1);
+  const mostActiveInterval = today?.intervals.reduce<DailyStepSummary['intervals'][number] | null>(
+    (best, interval) => (!best || interval.steps > best.steps ? interval : best),
+    null
+  ) ?? null;
 
   const handleRefresh = async () => {
     if (!isConnected || isLoading) return;
@@ -177,10 +180,10 @@ export function ActivityCard({
             </span>
           </div>
           <div className="text-lg font-bold text-orange-900 dark:text-orange-100">
-            {estimatedCalories}
+            {calories}
           </div>
           <div className="text-xs text-orange-600 dark:text-orange-300">
-            estimated
+            {today ? 'from ring' : 'estimated'}
           </div>
         </div>
 
@@ -193,14 +196,40 @@ export function ActivityCard({
             </span>
           </div>
           <div className="text-lg font-bold text-green-900 dark:text-green-100">
-            {(estimatedDistance / 1000).toFixed(2)} km
+            {(distance / 1000).toFixed(2)} km
           </div>
           <div className="text-xs text-green-600 dark:text-green-300">
-            estimated
+            {today ? 'from ring' : 'estimated'}
           </div>
         </div>
       </div>
 
+      {/* Last 7 Days */}
+      {week.length > 0 && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Last {week.length} {week.length === 1 ? 'day' : 'days'}
+          </div>
+          <div className="flex items-end gap-1 h-16">
+            {week.map(summary => (
+              <div
+                key={summary.date}
+                className="flex-1 bg-blue-500 rounded-t"
+                style={{ height: `${Math.max((summary.totalSteps / weekMaxSteps) * 100, 2)}%` }}
+                title={`${summary.date}: ${summary.totalSteps.toLocaleString()} steps`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {week.map(summary => (
+              <div key={summary.date} className="flex-1 text-center text-xs text-gray-500 dark:text-gray-400">
+                {summary.day}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Real-time Activity Indicator */}
       {stepDelta > 0 && (
         <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
@@ -253,7 +282,7 @@ export function ActivityCard({
             : 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
         }`}
       >
-        Get Detailed Activity Data (15-min intervals)
+        Sync Last 7 Days (15-min intervals)
       </button>
 
       {/* Connection Status */}
@@ -266,13 +295,15 @@ export function ActivityCard({
       )}
 
       {/* Activity Analysis */}
-      <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-        <p className="text-xs text-blue-700 dark:text-blue-300">
-          📊 <strong>Your Activity Today:</strong> The ring detected multiple activity periods
-          with detailed 15-minute interval tracking. Your most active period had 548 steps
-          covering 367 meters - great job! The accelerometer is working perfectly.
-        </p>
-      </div>
+      {mostActiveInterval && (
+        <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+          <p className="text-xs text-blue-700 dark:text-blue-300">
+            📊 <strong>Your Activity Today:</strong> The ring recorded {today?.intervals.length} active
+            15-minute periods. Your most active period had {mostActiveInterval.steps} steps
+            covering {mostActiveInterval.distance} meters.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
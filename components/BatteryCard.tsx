@@ -1,15 +1,27 @@
 'use client';
 
-import { Battery, RefreshCw } from 'lucide-react';
+import { Battery, BatteryCharging, RefreshCw } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
 import { GlassCard, MetricDisplay, AnimatedButton } from './glass';
+import { BatteryAnalytics, BatterySample, UsageMode } from '../lib/types';
 
 interface BatteryCardProps {
   battery: number | null;
   isConnected: boolean;
   onRefreshBattery: () => void;
+  analytics?: BatteryAnalytics | null;
+  history?: BatterySample[];
 }
 
-export function BatteryCard({ battery, isConnected, onRefreshBattery }: BatteryCardProps) {
+const USAGE_MODE_LABELS: Record<UsageMode, string> = {
+  idle: 'Idle',
+  liveHeartRate: 'Live HR',
+  rawAccelerometer: 'Raw accel',
+};
+
+export function BatteryCard({ battery, isConnected, onRefreshBattery, analytics = null, history = [] }: BatteryCardProps) {
+  const isCharging = analytics?.charging ?? false;
+
   const getBatteryStatus = (battery: number | null): 'success' | 'warning' | 'error' | 'neutral' => {
     if (battery === null) return 'neutral';
     if (battery < 20) return 'error';
@@ -37,18 +49,46 @@ export function BatteryCard({ battery, isConnected, onRefreshBattery }: BatteryC
     return 'from-emerald-500 to-emerald-600';
   };
 
+  const formatDuration = (ms: number): string => {
+    const totalMinutes = Math.round(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const chartData = history.map(sample => ({
+    time: sample.timestamp,
+    level: sample.level,
+    charging: sample.charging ? sample.level : null,
+  }));
+
+  const lastChargeSession = analytics?.chargeSessions[analytics.chargeSessions.length - 1];
+
   return (
     <GlassCard glow="amber" className="relative overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-3">
           <div className="w-10 h-10 bg-gradient-to-r from-amber-500 to-amber-600 rounded-full flex items-center justify-center">
-            <Battery className="h-5 w-5 text-white" />
+            {isCharging ? (
+              <BatteryCharging className="h-5 w-5 text-white" />
+            ) : (
+              <Battery className="h-5 w-5 text-white" />
+            )}
           </div>
           <h2 className="text-lg font-semibold text-gray-900">
             Battery
           </h2>
         </div>
+        {isCharging && (
+          <span className="text-xs font-medium px-3 py-1 rounded-full bg-emerald-100 text-emerald-700">
+            Charging
+          </span>
+        )}
       </div>
 
       {/* Metric Display */}
@@ -95,6 +135,77 @@ export function BatteryCard({ battery, isConnected, onRefreshBattery }: BatteryC
         </div>
       )}
 
+      {/* Predictions */}
+      {analytics && analytics.level !== null && (
+        <div className="grid grid-cols-2 gap-2 mb-4 text-center">
+          <div>
+            <div className="text-xs text-gray-600">
+              {isCharging ? 'Time to full' : 'Time to empty'}
+            </div>
+            <div className="text-sm font-semibold text-gray-900">
+              {isCharging
+                ? analytics.timeToFullMs !== null ? formatDuration(analytics.timeToFullMs) : 'Estimating...'
+                : analytics.timeToEmptyMs !== null ? formatDuration(analytics.timeToEmptyMs) : 'Estimating...'}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-600">Current mode</div>
+            <div className="text-sm font-semibold text-gray-900">
+              {USAGE_MODE_LABELS[analytics.currentMode]}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Drain Rate per Usage Mode */}
+      {analytics && (
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+          {(Object.keys(USAGE_MODE_LABELS) as UsageMode[]).map(mode => (
+            <div key={mode} className={`rounded-lg p-2 ${mode === analytics.currentMode ? 'bg-amber-100/70' : 'bg-white/30'}`}>
+              <div className="text-xs text-gray-600">{USAGE_MODE_LABELS[mode]}</div>
+              <div className="text-sm font-semibold text-gray-900">
+                {analytics.drainRates[mode] !== null ? `${analytics.drainRates[mode]!.toFixed(1)}%/h` : '--'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* History Chart */}
+      {chartData.length > 1 && (
+        <div className="h-40 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTime}
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} unit="%" width={40} />
+              <Tooltip
+                labelFormatter={(label) => formatTime(Number(label))}
+                formatter={(value, name) => [`${value}%`, name === 'charging' ? 'Charging' : 'Level']}
+              />
+              <Line type="stepAfter" dataKey="level" stroke="#f59e0b" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="charging" stroke="#10b981" strokeWidth={3} dot={false} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Last Charge Session */}
+      {lastChargeSession && (
+        <p className="text-xs text-gray-600 text-center mb-4">
+          {lastChargeSession.end === null
+            ? `Charging since ${formatTime(lastChargeSession.start)} (${lastChargeSession.startLevel}% → ${lastChargeSession.endLevel}%)`
+            : `Last charged ${formatTime(lastChargeSession.start)}-${formatTime(lastChargeSession.end)} (${lastChargeSession.startLevel}% → ${lastChargeSession.endLevel}%)`}
+        </p>
+      )}
+
       {/* Refresh Button */}
       <div className="mb-4">
         <AnimatedButton
@@ -114,7 +225,7 @@ export function BatteryCard({ battery, isConnected, onRefreshBattery }: BatteryC
       {/* Instructions */}
       <GlassCard size="sm" className="bg-emerald-50/50 border-emerald-200/30">
         <p className="text-xs text-emerald-700 text-center">
-          🔋 Click "Refresh Battery" to get current battery level
+          🔋 Battery is read every minute while connected; predictions improve as history builds up
         </p>
       </GlassCard>
     </GlassCard>
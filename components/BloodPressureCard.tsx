@@ -0,0 +1,130 @@
+'use client';
+
+import React from 'react';
+import { Gauge, Play, Square, RefreshCw } from 'lucide-react';
+import { GlassCard, MetricDisplay, StatusIndicator, AnimatedButton } from './glass';
+import { BloodPressureReading } from '../lib/types';
+
+interface BloodPressureCardProps {
+  bloodPressure?: BloodPressureReading | null;
+  isConnected: boolean;
+  isBloodPressureMonitoring: boolean;
+  onStartBloodPressure: () => void;
+  onStopBloodPressure: () => void;
+}
+
+/**
+ * BloodPressureCard Component
+ *
+ * Real-time blood pressure estimate from the ring's optical sensor
+ * (REAL_TIME_READINGS.BLOOD_PRESSURE). The ring infers pressure from its
+ * PPG signal, so values are indicative only.
+ */
+export function BloodPressureCard({
+  bloodPressure,
+  isConnected,
+  isBloodPressureMonitoring,
+  onStartBloodPressure,
+  onStopBloodPressure
+}: BloodPressureCardProps) {
+  const getBloodPressureStatusForMetric = (value: BloodPressureReading | null): 'success' | 'warning' | 'error' | 'neutral' => {
+    if (value === null) return 'neutral';
+    if (value.systolic >= 140 || value.diastolic >= 90) return 'error';
+    if (value.systolic >= 120 || value.diastolic >= 80) return 'warning';
+    return 'success';
+  };
+
+  return (
+    <GlassCard glow="emerald" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-emerald-500 to-emerald-600 rounded-full flex items-center justify-center">
+            <Gauge className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Blood Pressure
+            </h2>
+            <p className="text-sm text-gray-600">
+              Optical estimate from the ring
+            </p>
+          </div>
+        </div>
+
+        <StatusIndicator
+          status={isBloodPressureMonitoring ? 'active' : 'neutral'}
+          pulse={isBloodPressureMonitoring}
+        />
+      </div>
+
+      {/* Metric Display */}
+      <MetricDisplay
+        value={bloodPressure ? `${bloodPressure.systolic}/${bloodPressure.diastolic}` : null}
+        unit="mmHg"
+        label="Systolic / Diastolic"
+        status={getBloodPressureStatusForMetric(bloodPressure ?? null)}
+        className="mb-6"
+      />
+
+      {/* Control Buttons */}
+      <div className="flex gap-2 mb-4">
+        {!isBloodPressureMonitoring ? (
+          <AnimatedButton
+            variant="primary"
+            size="sm"
+            onClick={onStartBloodPressure}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="emerald"
+            className="flex-1"
+          >
+            <Play className="h-4 w-4" />
+            Start Blood Pressure
+          </AnimatedButton>
+        ) : (
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={onStopBloodPressure}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="red"
+            className="flex-1 bg-red-500 hover:bg-red-600 text-white border-red-500/20"
+          >
+            <Square className="h-4 w-4" />
+            Stop Blood Pressure
+          </AnimatedButton>
+        )}
+      </div>
+
+      {/* Monitoring Status */}
+      {isBloodPressureMonitoring && (
+        <GlassCard size="sm" className="mb-4 bg-emerald-50/50 border-emerald-200/30">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4 text-emerald-600 animate-spin" />
+            <span className="text-sm font-medium text-emerald-800">
+              Measuring blood pressure...
+            </span>
+          </div>
+          <p className="text-xs text-emerald-600 mt-1">
+            Rest your hand at heart level and keep still
+          </p>
+        </GlassCard>
+      )}
+
+      {/* Connection Status */}
+      {!isConnected && (
+        <GlassCard size="sm" className="mb-4 bg-red-50/50 border-red-200/30">
+          <p className="text-sm text-red-700 text-center">
+            Ring disconnected - blood pressure monitoring unavailable
+          </p>
+        </GlassCard>
+      )}
+
+      <p className="text-xs text-gray-600">
+        <strong>Note:</strong> Not a medical measurement - use a cuff for clinical readings.
+      </p>
+    </GlassCard>
+  );
+}
@@ -1,13 +1,63 @@
 'use client';
 
-import { BluetoothOff } from 'lucide-react';
+import { BluetoothOff, RefreshCw, X } from 'lucide-react';
+import { REAL_TIME_READING_NAMES } from '../lib/constants';
+import { RestoredModes } from '../lib/types';
 
 interface ConnectionAlertProps {
   isConnected: boolean;
+  restoredModes?: RestoredModes | null;
+  onDismissRestored?: () => void;
 }
 
-export function ConnectionAlert({ isConnected }: ConnectionAlertProps) {
-  if (isConnected) return null;
+/**
+ * Lists mode names as "a, b and c"
+ */
+function formatModes(realTimeReadings: RestoredModes['realTimeReadings'], rawAccelerometer: boolean): string {
+  const names = realTimeReadings.map(type => REAL_TIME_READING_NAMES[type]);
+  if (rawAccelerometer) {
+    names.push('raw accelerometer');
+  }
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+export function ConnectionAlert({ isConnected, restoredModes, onDismissRestored }: ConnectionAlertProps) {
+  if (isConnected) {
+    if (!restoredModes) return null;
+
+    const resumed = formatModes(restoredModes.realTimeReadings, restoredModes.rawAccelerometer);
+    const failed = formatModes(restoredModes.failedRealTimeReadings, restoredModes.rawAccelerometerFailed);
+
+    return (
+      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700 rounded-lg p-4 mb-6">
+        <div className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5 text-blue-600" />
+          <p className="text-blue-800 dark:text-blue-200 font-medium flex-1">
+            Reconnected to your Colmi ring
+          </p>
+          {onDismissRestored && (
+            <button
+              onClick={onDismissRestored}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-300"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {resumed && (
+          <p className="text-blue-600 dark:text-blue-300 text-sm mt-1">
+            Resumed {resumed} streaming.
+          </p>
+        )}
+        {failed && (
+          <p className="text-orange-600 dark:text-orange-300 text-sm mt-1">
+            Could not resume {failed} - start it again by hand.
+          </p>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div className="bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded-lg p-4 mb-6">
@@ -18,7 +68,7 @@ export function ConnectionAlert({ isConnected }: ConnectionAlertProps) {
         </p>
       </div>
       <p className="text-red-600 dark:text-red-300 text-sm mt-1">
-        Please check that your ring is charged and within range, then refresh the page to reconnect.
+        Reconnecting automatically. If it does not come back, check that your ring is charged and within range.
       </p>
     </div>
   );
@@ -1,15 +1,18 @@
 'use client';
 
 import React from 'react';
-import { Wifi, WifiOff, Battery, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { Wifi, WifiOff, Battery, AlertTriangle, CheckCircle, Loader2, HelpCircle } from 'lucide-react';
+import { DeviceInfo, ReconnectAttempt, SignalStrength } from '../lib/types';
 
 type ConnectionState = 'connected' | 'disconnected' | 'reconnecting' | 'low-power' | 'out-of-range';
 
 interface ConnectionStatusCardProps {
   isConnected: boolean;
   connectionState: ConnectionState;
-  signalStrength?: number; // 0-100
+  signalStrength?: SignalStrength;
   lastSeen?: Date;
+  deviceInfo?: DeviceInfo | null;
+  reconnectAttempt?: ReconnectAttempt | null;
   onReconnect?: () => void;
 }
 
@@ -22,8 +25,10 @@ interface ConnectionStatusCardProps {
 export function ConnectionStatusCard({ 
   isConnected, 
   connectionState, 
-  signalStrength = 0,
+  signalStrength,
   lastSeen,
+  deviceInfo,
+  reconnectAttempt,
   onReconnect 
 }: ConnectionStatusCardProps) {
   
@@ -47,7 +52,9 @@ export function ConnectionStatusCard({
       case 'connected':
         return 'Connected - Keep ring within 3 feet';
       case 'reconnecting':
-        return 'Reconnecting... (this is normal)';
+        return reconnectAttempt
+          ? `Reconnecting... attempt ${reconnectAttempt.attempt} of ${reconnectAttempt.maxAttempts} (this is normal)`
+          : 'Reconnecting... (this is normal)';
       case 'low-power':
         return 'Ring in low-power mode (move to wake up)';
       case 'out-of-range':
@@ -72,10 +79,22 @@ export function ConnectionStatusCard({
     }
   };
 
+  const signalPercent = signalStrength?.percent ?? null;
+
+  const getSignalText = () => {
+    if (!signalStrength?.supported) {
+      return 'Unknown (browser does not report RSSI)';
+    }
+    if (signalStrength.rssi === null || signalPercent === null) {
+      return 'Unknown (waiting for advertisements)';
+    }
+    return `${signalPercent}% (${signalStrength.rssi} dBm)`;
+  };
+
   const getSignalBars = () => {
     const bars = [];
     for (let i = 0; i < 4; i++) {
-      const isActive = signalStrength > (i * 25);
+      const isActive = signalPercent !== null && signalPercent > (i * 25);
       bars.push(
         <div
           key={i}
@@ -107,10 +126,14 @@ export function ConnectionStatusCard({
         {/* Signal Strength Indicator */}
         {isConnected && (
           <div className="flex items-center gap-2">
-            <div className="flex items-end gap-0.5 h-6">
+            <div className="flex items-end gap-0.5 h-6" title={getSignalText()}>
               {getSignalBars()}
             </div>
-            <Wifi className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+            {signalPercent === null ? (
+              <HelpCircle className="h-4 w-4 text-gray-400" aria-label="Signal strength unknown" />
+            ) : (
+              <Wifi className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+            )}
           </div>
         )}
       </div>
@@ -126,17 +149,17 @@ export function ConnectionStatusCard({
           </div>
         )}
         
-        {isConnected && signalStrength > 0 && (
+        {isConnected && (
           <div className="flex justify-between">
             <span className="text-gray-600 dark:text-gray-300">Signal strength:</span>
             <span className="font-medium text-gray-900 dark:text-white">
-              {signalStrength}%
+              {getSignalText()}
             </span>
           </div>
         )}
 
         {/* Range Warning */}
-        {connectionState === 'connected' && signalStrength < 30 && (
+        {connectionState === 'connected' && signalPercent !== null && signalPercent < 30 && (
           <div className="mt-3 p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg">
             <p className="text-xs text-yellow-800 dark:text-yellow-200">
               ⚠️ Weak signal - move ring closer to maintain connection
@@ -157,6 +180,28 @@ export function ConnectionStatusCard({
 
       {/* Device Info */}
       <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+        {deviceInfo && (
+          <div className="space-y-1 mb-3 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Model:</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {deviceInfo.model ?? 'Unknown'}{deviceInfo.name ? ` (${deviceInfo.name})` : ''}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Hardware:</span>
+              <span className="font-mono text-gray-900 dark:text-white">
+                {deviceInfo.hardwareRevision ?? 'Unknown'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Firmware:</span>
+              <span className="font-mono text-gray-900 dark:text-white">
+                {deviceInfo.firmwareRevision ?? 'Unknown'}
+              </span>
+            </div>
+          </div>
+        )}
         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
           <span>Compatible: R02, R03, R06</span>
           <span>Range: ~3 feet</span>
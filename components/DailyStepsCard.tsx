@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Calendar, Clock, TrendingUp, BarChart3, Activity } from 'lucide-react';
+import React, { useState } from 'react';
+import { Calendar, Activity } from 'lucide-react';
+import { DailyStepSummary } from '../lib/types';
 
 interface StepInterval {
   timeIndex: number;
@@ -10,13 +11,13 @@ interface StepInterval {
   steps: number;
   calories: number;
   distance: number;
-  timestamp: string;
 }
 
 interface DailyStepsCardProps {
   isConnected: boolean;
   currentSteps?: number | null;
-  ringService?: any; // Will be properly typed later
+  history: DailyStepSummary[];
+  isSyncing?: boolean;
   onRequestDailyData?: () => void;
 }
 
@@ -25,18 +26,18 @@ interface DailyStepsCardProps {
  * 
  * Shows a complete daily breakdown of steps in 15-minute intervals.
  * Based on the Colmi ring's detailed step tracking system.
+ * Days come from ColmiRingService.syncSteps(); interval times follow the
+ * ring clock, which runs on UTC.
  */
 export function DailyStepsCard({ 
   isConnected, 
   currentSteps,
-  ringService,
+  history,
+  isSyncing = false,
   onRequestDailyData 
 }: DailyStepsCardProps) {
-  const [dailyData, setDailyData] = useState<StepInterval[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [selectedHour, setSelectedHour] = useState<number | null>(null);
-  const [totalSteps, setTotalSteps] = useState<number>(0);
-  const [totalCalories, setTotalCalories] = useState<number>(0);
-  const [totalDistance, setTotalDistance] = useState<number>(0);
 
   // Convert time index to hour and minute (based on Python client logic)
   const timeIndexToTime = (timeIndex: number) => {
@@ -50,55 +51,30 @@ export function DailyStepsCard({
     return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
   };
 
-  // Real data based on your actual ring readings
-  useEffect(() => {
-    // Your actual ring data from the logs
-    const actualData: StepInterval[] = [
-      {
-        timeIndex: 64,
-        ...timeIndexToTime(64), // 16:00
-        steps: 32,
-        calories: 92,
-        distance: 19,
-        timestamp: '16:00'
-      },
-      {
-        timeIndex: 68,
-        ...timeIndexToTime(68), // 17:00
-        steps: 548,
-        calories: 1758,
-        distance: 367,
-        timestamp: '17:00'
-      },
-      {
-        timeIndex: 76,
-        ...timeIndexToTime(76), // 19:00
-        steps: 128,
-        calories: 491,
-        distance: 103,
-        timestamp: '19:00'
-      },
-      {
-        timeIndex: 80,
-        ...timeIndexToTime(80), // 20:00
-        steps: 31,
-        calories: 103,
-        distance: 22,
-        timestamp: '20:00'
-      }
-    ];
+  // Format a ring date key as a short day label
+  const formatDay = (summary: DailyStepSummary) => {
+    return new Date(Date.UTC(summary.year, summary.month - 1, summary.day))
+      .toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
 
-    setDailyData(actualData);
-    
-    // Calculate totals from actual ring data
-    const steps = actualData.reduce((sum, interval) => sum + interval.steps, 0);
-    const calories = actualData.reduce((sum, interval) => sum + interval.calories, 0);
-    const distance = actualData.reduce((sum, interval) => sum + interval.distance, 0);
-    
-    setTotalSteps(steps);
-    setTotalCalories(calories);
-    setTotalDistance(distance);
-  }, []);
+  // Default to the newest day when nothing (or a stale day) is selected
+  const selectedDay = history.find(summary => summary.date === selectedDate) ?? history[0] ?? null;
+
+  const dailyData: StepInterval[] = (selectedDay?.intervals ?? []).map(interval => ({
+    timeIndex: interval.timeIndex,
+    ...timeIndexToTime(interval.timeIndex),
+    steps: interval.steps,
+    calories: interval.calories,
+    distance: interval.distance,
+  }));
+
+  // Prefer the live total for today if the ring has reported one since syncing
+  const isToday = selectedDay?.date === new Date().toISOString().slice(0, 10);
+  const totalSteps = isToday && currentSteps != null
+    ? Math.max(currentSteps, selectedDay?.totalSteps ?? 0)
+    : selectedDay?.totalSteps ?? 0;
+  const totalCalories = selectedDay?.totalCalories ?? 0;
+  const totalDistance = selectedDay?.totalDistance ?? 0;
 
   // Generate 24-hour timeline (96 intervals of 15 minutes each)
   const generateDayTimeline = () => {
@@ -154,24 +130,56 @@ export function DailyStepsCard({
               Daily Steps Timeline
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-300">
-              15-minute interval breakdown for {new Date().toLocaleDateString()}
+              {selectedDay
+                ? `15-minute interval breakdown for ${formatDay(selectedDay)} (UTC)`
+                : '15-minute interval breakdown'}
             </p>
           </div>
         </div>
         
         <button
           onClick={onRequestDailyData}
-          disabled={!isConnected}
+          disabled={!isConnected || isSyncing}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            isConnected
+            isConnected && !isSyncing
               ? 'bg-blue-600 hover:bg-blue-700 text-white'
               : 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
           }`}
         >
-          Refresh Data
+          {isSyncing ? 'Syncing...' : 'Sync 7 Days'}
         </button>
       </div>
 
+      {/* Day Selection */}
+      {history.length > 0 ? (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {history.map(summary => (
+            <button
+              key={summary.date}
+              onClick={() => {
+                setSelectedDate(summary.date);
+                setSelectedHour(null);
+              }}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                selectedDay?.date === summary.date
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200'
+              }`}
+            >
+              {formatDay(summary)} · {summary.totalSteps.toLocaleString()}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-center">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {isConnected
+              ? 'No step history yet. Click "Sync 7 Days" to download the last week from the ring.'
+              : 'Connect your ring to download its step history.'}
+          </p>
+        </div>
+      )}
+
       {/* 10,000 Step Goal Progress */}
       <div className="mb-6 p-6 bg-gradient-to-r from-blue-50 to-green-50 dark:from-blue-900/20 dark:to-green-900/20 rounded-xl border border-blue-200 dark:border-blue-700">
         <div className="flex items-center justify-between mb-4">
@@ -210,7 +218,7 @@ export function DailyStepsCard({
         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
           <span>0</span>
           <span className="font-medium">
-            {(10000 - totalSteps).toLocaleString()} steps remaining
+            {Math.max(10000 - totalSteps, 0).toLocaleString()} steps remaining
           </span>
           <span>10,000</span>
         </div>
@@ -321,11 +329,11 @@ export function DailyStepsCard({
       {/* Active Periods Summary */}
       <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
         <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-          Most Active Periods Today
+          Most Active Periods
         </h4>
         
         <div className="space-y-2">
-          {dailyData
+          {[...dailyData]
             .sort((a, b) => b.steps - a.steps)
             .slice(0, 3)
             .map((interval, index) => (
@@ -359,7 +367,7 @@ export function DailyStepsCard({
         <p className="text-xs text-blue-700 dark:text-blue-300">
           📊 <strong>Ring Data:</strong> This timeline shows actual data from your Colmi ring's 
           accelerometer, recorded in 15-minute intervals. Each bar represents activity detected 
-          during that time period with precise step, calorie, and distance measurements.
+          during that time period. Times follow the ring clock, which is kept in UTC.
         </p>
       </div>
     </div>
@@ -1,11 +1,28 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Activity, Heart, TrendingUp, Zap, Settings, Target, Paintbrush, MousePointer } from 'lucide-react';
-import { DataDashboardProps, RingData } from '../lib/types';
+import { Activity, Heart, TrendingUp, Zap, Settings, Target, Paintbrush, MousePointer, FlaskConical, Columns2 } from 'lucide-react';
+import {
+  BatteryAnalytics,
+  BatterySample,
+  BloodPressureReading,
+  DailyStepSummary,
+  DataDashboardProps,
+  DeviceInfo,
+  ReconnectAttempt,
+  RestoredModes,
+  RingData,
+  SampleRateStats,
+  SignalStrength,
+  StressReading,
+  TimeSyncResult
+} from '../lib/types';
+import { REAL_TIME_READINGS, RealTimeReadingType } from '../lib/constants';
 import { DashboardHeader } from './DashboardHeader';
 import { ConnectionAlert } from './ConnectionAlert';
 import { HeartRateCard } from './HeartRateCard';
+import { HeartRateHistoryCard } from './HeartRateHistoryCard';
+import { SleepCard } from './SleepCard';
 import { StepsCard } from './StepsCard';
 import { BatteryCard } from './BatteryCard';
 import { ConnectionStatusCard } from './ConnectionStatusCard';
@@ -18,12 +35,22 @@ import { GestureTrainer } from './GestureTrainer';
 import { DrawingCanvas } from './DrawingCanvas';
 import { PointerControl } from './PointerControl';
 import { SpO2Card } from './SpO2Card';
+import { HrvCard } from './HrvCard';
+import { BloodPressureCard } from './BloodPressureCard';
+import { StressCard } from './StressCard';
 import { StatusFooter } from './StatusFooter';
 import { DebugInfo } from './DebugInfo';
+import { RingSettingsCard } from './RingSettingsCard';
+import { PacketCaptureCard } from './PacketCaptureCard';
+import { RawSensorInspector } from './RawSensorInspector';
+import { PpgHeartRateCard } from './PpgHeartRateCard';
+import { ProtocolLab } from './ProtocolLab';
+import { RingSwitcher } from './RingSwitcher';
+import { RingComparison } from './RingComparison';
 import { Tabs } from './Tabs';
 
 type ConnectionState = 'connected' | 'disconnected' | 'reconnecting' | 'low-power' | 'out-of-range';
-type TabId = 'overview' | 'health' | 'activity' | 'sensors' | 'gestures' | 'drawing' | 'pointer' | 'settings';
+type TabId = 'overview' | 'health' | 'activity' | 'sensors' | 'compare' | 'gestures' | 'drawing' | 'pointer' | 'lab' | 'settings';
 
 /**
  * DataDashboard Component
@@ -31,7 +58,7 @@ type TabId = 'overview' | 'health' | 'activity' | 'sensors' | 'gestures' | 'draw
  * Displays real-time health metrics from the connected Colmi ring
  * in a responsive grid layout with automatic data polling.
  */
-export function DataDashboard({ ringService }: DataDashboardProps) {
+export function DataDashboard({ ringService, ringManager }: DataDashboardProps) {
   const [ringData, setRingData] = useState<RingData>({
     heartRate: null,
     steps: null,
@@ -42,41 +69,68 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
   });
   const [isConnected, setIsConnected] = useState<boolean>(true);
   const [connectionState, setConnectionState] = useState<ConnectionState>('connected');
-  const [signalStrength, setSignalStrength] = useState<number>(100);
+  const [signalStrength, setSignalStrength] = useState<SignalStrength>(() => ringService.getSignalStrength());
+  const [sampleRateStats, setSampleRateStats] = useState<SampleRateStats>(() => ringService.getSampleRateStats());
   const [lastSeen, setLastSeen] = useState<Date>(new Date());
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [isPolling, setIsPolling] = useState<boolean>(false);
   const [isHeartRateMonitoring, setIsHeartRateMonitoring] = useState<boolean>(false);
   const [isSpO2Monitoring, setIsSpO2Monitoring] = useState<boolean>(false);
-  const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
-  const [accelerometerData, setAccelerometerData] = useState<any>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState<ReconnectAttempt | null>(null);
+  const [restoredModes, setRestoredModes] = useState<RestoredModes | null>(null);
   const [isRawDataMode, setIsRawDataMode] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<TabId>('overview');
+  const [timeSync, setTimeSync] = useState<TimeSyncResult | null>(() => ringService.getLastTimeSync());
+  const [stepHistory, setStepHistory] = useState<DailyStepSummary[]>(() => ringService.getStepHistory());
+  const [isSyncingSteps, setIsSyncingSteps] = useState<boolean>(false);
+  const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(() => ringService.getDeviceInfo());
+  const [activeReadings, setActiveReadings] = useState<RealTimeReadingType[]>([]);
+  const [hrv, setHrv] = useState<number | null>(null);
+  const [bloodPressure, setBloodPressure] = useState<BloodPressureReading | null>(null);
+  const [stress, setStress] = useState<StressReading | null>(null);
+  const [batteryAnalytics, setBatteryAnalytics] = useState<BatteryAnalytics | null>(() => ringService.getBatteryAnalytics());
+  const [batteryHistory, setBatteryHistory] = useState<BatterySample[]>(() => ringService.getBatteryHistory());
+  // Accelerometer views read this once per frame, so raw packets never re-render the dashboard
+  const accelerometerBuffer = ringService.getAccelerometerBuffer();
 
   /**
-   * Handles incoming data from the ring service
+   * Stores a single metric received from the ring service
    */
-  const handleDataUpdate = useCallback((data: RingData) => {
-    console.log('Dashboard received data update:', data);
-    setRingData(prevData => {
-      const newData = {
-        ...prevData,
-        ...data, // Merge new data with existing data
-        timestamp: data.timestamp
-      };
-      console.log('Updated ring data:', newData);
-      return newData;
-    });
-    setLastUpdate(new Date(data.timestamp));
+  const updateMetric = useCallback(<K extends 'heartRate' | 'spO2' | 'battery' | 'steps'>(
+    key: K,
+    value: RingData[K]
+  ) => {
+    const timestamp = Date.now();
+    setRingData(prevData => ({ ...prevData, [key]: value, timestamp }));
+    setLastUpdate(new Date(timestamp));
   }, []);
 
   /**
-   * Handles incoming accelerometer data from the ring service
+   * Subscribes to the ring events the dashboard renders
+   * Subscriptions live on the service, so they survive reconnects.
    */
-  const handleAccelerometerUpdate = useCallback((data: any) => {
-    console.log('Dashboard received accelerometer update:', data);
-    setAccelerometerData(data);
-  }, []);
+  useEffect(() => {
+    const unsubscribers = [
+      ringService.on('heartRate', (heartRate) => updateMetric('heartRate', heartRate)),
+      ringService.on('spO2', (spO2) => updateMetric('spO2', spO2)),
+      ringService.on('battery', (battery) => {
+        updateMetric('battery', battery.level);
+        setBatteryAnalytics(ringService.getBatteryAnalytics());
+        setBatteryHistory(ringService.getBatteryHistory());
+      }),
+      ringService.on('steps', (steps) => updateMetric('steps', steps)),
+      ringService.on('timeSync', setTimeSync),
+      ringService.on('stepHistory', setStepHistory),
+      ringService.on('deviceInfo', setDeviceInfo),
+      ringService.on('hrv', setHrv),
+      ringService.on('bloodPressure', setBloodPressure),
+      ringService.on('stress', setStress),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [ringService, updateMetric]);
 
   /**
    * Requests data from the ring (battery, heart rate, steps)
@@ -99,14 +153,11 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
   }, [ringService]);
 
   /**
-   * Sets up data notifications and polling
+   * Requests initial data once the dashboard is mounted
    */
   useEffect(() => {
     const initializeDataStream = async () => {
       try {
-        // Start notifications for real-time data
-        await ringService.startNotifications(handleDataUpdate, handleAccelerometerUpdate);
-
         // Note: Automatic polling removed - now using manual buttons
         setIsPolling(false);
 
@@ -125,10 +176,10 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
     return () => {
       setIsPolling(false);
     };
-  }, [ringService, handleDataUpdate, requestData]);
+  }, [ringService, requestData]);
 
   /**
-   * Enhanced connection monitoring with automatic reconnection
+   * Polls connection and monitoring status
    */
   useEffect(() => {
     const checkStatus = () => {
@@ -136,19 +187,11 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
       setIsConnected(connected);
       setIsHeartRateMonitoring(ringService.isHeartRateMonitoring());
       setIsSpO2Monitoring(ringService.isSpO2Monitoring());
+      setIsRawDataMode(ringService.getRawDataMode());
+      setActiveReadings(ringService.getActiveRealTimeReadings());
 
       if (connected) {
-        setConnectionState('connected');
         setLastSeen(new Date());
-        setReconnectAttempts(0);
-        // Simulate signal strength (in real implementation, this would come from RSSI)
-        setSignalStrength(Math.max(50, 100 - Math.random() * 30));
-      } else {
-        // Handle disconnection gracefully - this is expected behavior
-        if (connectionState === 'connected') {
-          setConnectionState('reconnecting');
-          attemptReconnection();
-        }
       }
     };
 
@@ -156,48 +199,62 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
     const statusCheck = setInterval(checkStatus, 1000);
 
     return () => clearInterval(statusCheck);
-  }, [ringService, connectionState]);
+  }, [ringService]);
 
   /**
-   * Automatic reconnection logic (Gadgetbridge insight: disconnections are normal)
+   * Follows the service's silent reconnection (Gadgetbridge insight: disconnections are normal)
    */
-  const attemptReconnection = useCallback(async () => {
-    if (reconnectAttempts >= 5) {
-      setConnectionState('disconnected');
-      return;
-    }
-
-    setConnectionState('reconnecting');
-    setReconnectAttempts(prev => prev + 1);
-
-    try {
-      // Wait 2 seconds before attempting reconnection
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      const connected = await ringService.connect();
-      if (connected) {
+  useEffect(() => {
+    const unsubscribers = [
+      ringService.on('disconnected', () => {
+        setIsConnected(false);
+        setRestoredModes(null);
+        setConnectionState(ringService.isReconnecting() ? 'reconnecting' : 'disconnected');
+      }),
+      ringService.on('reconnecting', (attempt) => {
+        setConnectionState('reconnecting');
+        setReconnectAttempt(attempt);
+      }),
+      ringService.on('reconnected', () => {
+        setIsConnected(true);
         setConnectionState('connected');
-        setReconnectAttempts(0);
-        // Restart notifications
-        await ringService.startNotifications(handleDataUpdate, handleAccelerometerUpdate);
-        console.log('Automatically reconnected to ring');
-      } else {
-        // Try again after a delay
-        setTimeout(attemptReconnection, 3000);
-      }
-    } catch (error) {
-      console.log('Reconnection attempt failed, will retry:', error);
-      setTimeout(attemptReconnection, 3000);
-    }
-  }, [ringService, reconnectAttempts, handleDataUpdate]);
+        setReconnectAttempt(null);
+      }),
+      ringService.on('signalStrength', (signal) => {
+        setSignalStrength(signal);
+        // A weak but live link is out of range; other states come from the link itself
+        setConnectionState(state => {
+          if (state !== 'connected' && state !== 'out-of-range') {
+            return state;
+          }
+          return signal.outOfRange ? 'out-of-range' : 'connected';
+        });
+      }),
+      ringService.on('sampleRate', setSampleRateStats),
+      ringService.on('reconnectFailed', () => {
+        setConnectionState('disconnected');
+        setReconnectAttempt(null);
+      }),
+      ringService.on('modesRestored', (modes) => {
+        setRestoredModes(modes);
+        setIsHeartRateMonitoring(ringService.isHeartRateMonitoring());
+        setIsSpO2Monitoring(ringService.isSpO2Monitoring());
+        setIsRawDataMode(ringService.getRawDataMode());
+        setActiveReadings(ringService.getActiveRealTimeReadings());
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [ringService]);
 
   /**
    * Manual reconnection handler
    */
   const handleManualReconnect = useCallback(async () => {
-    setReconnectAttempts(0);
-    await attemptReconnection();
-  }, [attemptReconnection]);
+    await ringService.reconnect();
+  }, [ringService]);
 
   /**
    * Starts heart rate monitoring manually
@@ -270,7 +327,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
   };
 
   /**
-   * Requests detailed step data with 15-minute intervals
+   * Downloads the last week of 15-minute step intervals
    */
   const handleRequestDetailedSteps = async () => {
     if (!ringService.isConnected()) {
@@ -278,11 +335,14 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
       return;
     }
 
+    setIsSyncingSteps(true);
     try {
-      await ringService.requestDetailedSteps(0); // 0 = today
-      console.log('Detailed steps data requested - watch for multiple packets');
+      await ringService.syncSteps(7);
+      console.log('Step history synced');
     } catch (error) {
-      console.error('Failed to request detailed steps:', error);
+      console.error('Failed to sync step history:', error);
+    } finally {
+      setIsSyncingSteps(false);
     }
   };
 
@@ -352,13 +412,46 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
     try {
       await ringService.stopRawDataMode();
       setIsRawDataMode(false);
-      setAccelerometerData(null); // Clear accelerometer data
       console.log('Raw data mode stopped');
     } catch (error) {
       console.error('Failed to stop raw data mode:', error);
     }
   };
 
+  /**
+   * Starts real-time monitoring for one of the other reading types (HRV, blood pressure, stress)
+   */
+  const handleStartReading = async (type: RealTimeReadingType) => {
+    if (!ringService.isConnected()) {
+      console.error('Ring is not connected');
+      return;
+    }
+
+    try {
+      await ringService.startRealTimeReading(type);
+      setActiveReadings(ringService.getActiveRealTimeReadings());
+    } catch (error) {
+      console.error('Failed to start real-time reading:', error);
+    }
+  };
+
+  /**
+   * Stops real-time monitoring for one of the other reading types
+   */
+  const handleStopReading = async (type: RealTimeReadingType) => {
+    if (!ringService.isConnected()) {
+      console.error('Ring is not connected');
+      return;
+    }
+
+    try {
+      await ringService.stopRealTimeReading(type);
+      setActiveReadings(ringService.getActiveRealTimeReadings());
+    } catch (error) {
+      console.error('Failed to stop real-time reading:', error);
+    }
+  };
+
   /**
    * Emergency stop all monitoring modes (stops ring flashing)
    */
@@ -371,16 +464,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
     try {
       console.log('🛑 Emergency Stop All - Stopping all monitoring modes...');
 
-      // Stop all monitoring modes simultaneously
-      const stopPromises = [];
-
-      if (isHeartRateMonitoring) {
-        stopPromises.push(ringService.stopRealTimeHeartRate());
-      }
-
-      if (isSpO2Monitoring) {
-        stopPromises.push(ringService.stopRealTimeSpO2());
-      }
+      // Stop all monitoring modes simultaneously; heart rate and SpO2 are real-time readings too
+      const stopPromises = ringService.getActiveRealTimeReadings().map(type => ringService.stopRealTimeReading(type));
 
       if (isRawDataMode) {
         stopPromises.push(ringService.stopRawDataMode());
@@ -393,7 +478,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
       setIsHeartRateMonitoring(false);
       setIsSpO2Monitoring(false);
       setIsRawDataMode(false);
-      setAccelerometerData(null);
+      setActiveReadings([]);
 
       console.log('✅ All monitoring stopped - Ring should stop flashing');
 
@@ -403,7 +488,6 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
       setIsHeartRateMonitoring(false);
       setIsSpO2Monitoring(false);
       setIsRawDataMode(false);
-      setAccelerometerData(null);
     }
   };
 
@@ -439,13 +523,9 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
       // Wait a moment for stop commands to process
       await new Promise(resolve => setTimeout(resolve, 1000));
 
-      // Send reboot command
+      // Send reboot command; the connection events track the restart from here
       await ringService.rebootRing();
 
-      // Update connection state
-      setIsConnected(false);
-      setConnectionState('disconnected');
-
       console.log('✅ Ring reboot command sent - device is restarting');
 
     } catch (error) {
@@ -492,10 +572,16 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
           onDisconnect={handleDisconnect}
           onStopAll={handleStopAll}
           onRebootRing={handleRebootRing}
-          isAnyMonitoringActive={isHeartRateMonitoring || isSpO2Monitoring || isRawDataMode}
+          isAnyMonitoringActive={isHeartRateMonitoring || isSpO2Monitoring || isRawDataMode || activeReadings.length > 0}
         />
 
-        <ConnectionAlert isConnected={isConnected} />
+        {ringManager && <RingSwitcher ringManager={ringManager} />}
+
+        <ConnectionAlert
+          isConnected={isConnected}
+          restoredModes={restoredModes}
+          onDismissRestored={() => setRestoredModes(null)}
+        />
 
         {/* Connection Status - Only show when disconnected or issues */}
         {(!isConnected || connectionState !== 'connected') && (
@@ -505,6 +591,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
               connectionState={connectionState}
               signalStrength={signalStrength}
               lastSeen={!isConnected ? lastSeen : undefined}
+              deviceInfo={deviceInfo}
+              reconnectAttempt={reconnectAttempt}
               onReconnect={handleManualReconnect}
             />
           </div>
@@ -517,9 +605,11 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             { id: 'health', label: 'Health Metrics', icon: <Heart /> },
             { id: 'activity', label: 'Activity', icon: <TrendingUp /> },
             { id: 'sensors', label: 'Sensors', icon: <Zap /> },
+            ...(ringManager ? [{ id: 'compare', label: 'Compare Rings', icon: <Columns2 /> }] : []),
             { id: 'gestures', label: 'Gestures', icon: <Target /> },
             { id: 'drawing', label: 'Drawing', icon: <Paintbrush /> },
             { id: 'pointer', label: '3D Pointer', icon: <MousePointer /> },
+            { id: 'lab', label: 'Protocol Lab', icon: <FlaskConical /> },
             { id: 'settings', label: 'Advanced', icon: <Settings /> },
           ]}
           activeTab={activeTab}
@@ -554,6 +644,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
                 battery={ringData.battery}
                 isConnected={isConnected}
                 onRefreshBattery={handleRefreshBattery}
+                analytics={batteryAnalytics}
+                history={batteryHistory}
               />
             </div>
 
@@ -566,6 +658,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
               />
               <ActivityCard
                 steps={ringData.steps}
+                history={stepHistory}
                 isConnected={isConnected}
                 onRefreshActivity={handleRefreshSteps}
                 onRequestDetailedSteps={handleRequestDetailedSteps}
@@ -598,6 +691,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
                 battery={ringData.battery}
                 isConnected={isConnected}
                 onRefreshBattery={handleRefreshBattery}
+                analytics={batteryAnalytics}
+                history={batteryHistory}
               />
               <DataQualityCard
                 heartRate={ringData.heartRate}
@@ -607,6 +702,33 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
                 spO2={ringData.spO2}
               />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <HrvCard
+                hrv={hrv}
+                isConnected={isConnected}
+                isHrvMonitoring={activeReadings.includes(REAL_TIME_READINGS.HRV)}
+                onStartHrv={() => handleStartReading(REAL_TIME_READINGS.HRV)}
+                onStopHrv={() => handleStopReading(REAL_TIME_READINGS.HRV)}
+              />
+              <BloodPressureCard
+                bloodPressure={bloodPressure}
+                isConnected={isConnected}
+                isBloodPressureMonitoring={activeReadings.includes(REAL_TIME_READINGS.BLOOD_PRESSURE)}
+                onStartBloodPressure={() => handleStartReading(REAL_TIME_READINGS.BLOOD_PRESSURE)}
+                onStopBloodPressure={() => handleStopReading(REAL_TIME_READINGS.BLOOD_PRESSURE)}
+              />
+              <StressCard
+                stress={stress}
+                isConnected={isConnected}
+                isStressMonitoring={activeReadings.includes(REAL_TIME_READINGS.PRESSURE)}
+                onStartStress={() => handleStartReading(REAL_TIME_READINGS.PRESSURE)}
+                onStopStress={() => handleStopReading(REAL_TIME_READINGS.PRESSURE)}
+              />
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <HeartRateHistoryCard ringService={ringService} isConnected={isConnected} />
+              <SleepCard ringService={ringService} isConnected={isConnected} />
+            </div>
           </div>
         )}
 
@@ -627,6 +749,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             </div>
             <ActivityCard
               steps={ringData.steps}
+              history={stepHistory}
               isConnected={isConnected}
               onRefreshActivity={handleRefreshSteps}
               onRequestDetailedSteps={handleRequestDetailedSteps}
@@ -634,7 +757,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             <DailyStepsCard
               isConnected={isConnected}
               currentSteps={ringData.steps}
-              ringService={ringService}
+              history={stepHistory}
+              isSyncing={isSyncingSteps}
               onRequestDailyData={handleRequestDetailedSteps}
             />
           </div>
@@ -646,7 +770,25 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             <AccelerometerCard
               isConnected={isConnected}
               isRawDataMode={isRawDataMode}
-              accelerometerData={accelerometerData}
+              accelerometerBuffer={accelerometerBuffer}
+              sampleRateStats={sampleRateStats}
+              onResampleRateChange={(rateHz) => ringService.setAccelerometerResampleRate(rateHz)}
+              onStartRawData={handleStartRawData}
+              onStopRawData={handleStopRawData}
+            />
+            <RawSensorInspector
+              ringService={ringService}
+              isConnected={isConnected}
+              isRawDataMode={isRawDataMode}
+              accelerometerBuffer={accelerometerBuffer}
+              onStartRawData={handleStartRawData}
+              onStopRawData={handleStopRawData}
+            />
+            <PpgHeartRateCard
+              ringService={ringService}
+              isConnected={isConnected}
+              isRawDataMode={isRawDataMode}
+              ringHeartRate={ringData.heartRate}
               onStartRawData={handleStartRawData}
               onStopRawData={handleStopRawData}
             />
@@ -666,7 +808,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             <GestureTrainer
               isConnected={isConnected}
               isRawDataMode={isRawDataMode}
-              accelerometerData={accelerometerData}
+              accelerometerBuffer={accelerometerBuffer}
               onStartRawData={handleStartRawData}
               onStopRawData={handleStopRawData}
             />
@@ -679,7 +821,7 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             <DrawingCanvas
               isConnected={isConnected}
               isRawDataMode={isRawDataMode}
-              accelerometerData={accelerometerData}
+              accelerometerBuffer={accelerometerBuffer}
               onStartRawData={handleStartRawData}
               onStopRawData={handleStopRawData}
             />
@@ -692,16 +834,35 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
             <PointerControl
               isConnected={isConnected}
               isRawDataMode={isRawDataMode}
-              accelerometerData={accelerometerData}
+              accelerometerBuffer={accelerometerBuffer}
               onStartRawData={handleStartRawData}
               onStopRawData={handleStopRawData}
             />
           </div>
         )}
 
+        {/* Ring Comparison Tab */}
+        {activeTab === 'compare' && ringManager && (
+          <div className="space-y-6 tab-content">
+            <RingComparison ringManager={ringManager} />
+          </div>
+        )}
+
+        {/* Protocol Lab Tab */}
+        {activeTab === 'lab' && (
+          <div className="space-y-6 tab-content">
+            <ProtocolLab ringService={ringService} isConnected={isConnected} />
+          </div>
+        )}
+
         {/* Advanced/Settings Tab */}
         {activeTab === 'settings' && (
           <div className="space-y-6 tab-content">
+            <RingSettingsCard
+              ringService={ringService}
+              isConnected={isConnected}
+              onRebootRing={handleRebootRing}
+            />
             <DataQualityCard
               heartRate={ringData.heartRate}
               steps={ringData.steps}
@@ -709,7 +870,8 @@ export function DataDashboard({ ringService }: DataDashboardProps) {
               onCalibrate={handleCalibration}
               spO2={ringData.spO2}
             />
-            <DebugInfo isConnected={isConnected} isPolling={isPolling} />
+            <PacketCaptureCard ringService={ringService} />
+            <DebugInfo isConnected={isConnected} isPolling={isPolling} timeSync={timeSync} />
           </div>
         )}
 
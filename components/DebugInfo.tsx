@@ -1,11 +1,21 @@
 'use client';
 
+import { TimeSyncResult } from '../lib/types';
+
 interface DebugInfoProps {
   isConnected: boolean;
   isPolling: boolean;
+  timeSync?: TimeSyncResult | null;
 }
 
-export function DebugInfo({ isConnected, isPolling }: DebugInfoProps) {
+export function DebugInfo({ isConnected, isPolling, timeSync }: DebugInfoProps) {
+  const formatDrift = (driftMs: number | null): string => {
+    if (driftMs === null) return 'drift could not be measured';
+    const minutes = Math.round(Math.abs(driftMs) / 60000);
+    if (minutes === 0) return 'no drift';
+    return driftMs > 0 ? `ring was ${minutes} min ahead` : `ring was up to ${minutes} min behind`;
+  };
+
   return (
     <div className="mt-4 bg-gray-100 dark:bg-gray-700 rounded-lg p-3">
       <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">
@@ -16,11 +26,16 @@ export function DebugInfo({ isConnected, isPolling }: DebugInfoProps) {
         <div>Protocol: Colmi R02 (16-byte packets with checksum validation)</div>
         <div>Real-time heart rate monitoring: {isPolling ? 'Active' : 'Inactive'}</div>
         <div>Connection status: {isConnected ? 'Connected' : 'Disconnected'}</div>
+        <div className={timeSync?.driftDetected ? 'text-orange-600 dark:text-orange-400' : undefined}>
+          Ring clock (UTC): {timeSync
+            ? `synced at ${timeSync.syncedAt.toLocaleTimeString()} (${formatDrift(timeSync.driftMs)})`
+            : 'not synced'}
+        </div>
         <div className="text-blue-600 dark:text-blue-400">
-          📊 Commands: Battery(3), Heart Rate(105), Steps(67)
+          📊 Commands: Set Time(1), Battery(3), HR Log(21), HR Log Settings(22), Heart Rate(105), Steps(67)
         </div>
         <div className="text-yellow-600 dark:text-yellow-400">
-          💡 Open browser console (F12) for detailed protocol logs
+          💡 Use Packet Capture above to inspect, export and replay protocol frames
         </div>
         <div className="text-green-600 dark:text-green-400">
           ✅ Packet validation: Checksum verification enabled
@@ -1,13 +1,16 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Paintbrush, Trash2, Download, Play, Square, Palette, Eraser } from 'lucide-react';
-import { AccelerometerData } from '../lib/types';
+import { AccelerometerData, GestureEvent } from '../lib/types';
+import { AccelerometerBuffer } from '../lib/accelerometer-buffer';
+import { useAccelerometerFrames } from '../hooks/useAccelerometerFrames';
+import { useMotionProcessor } from '../hooks/useMotionProcessor';
 
 interface DrawingCanvasProps {
   isConnected: boolean;
   isRawDataMode: boolean;
-  accelerometerData: AccelerometerData | null;
+  accelerometerBuffer: AccelerometerBuffer | null;
   onStartRawData: () => void;
   onStopRawData: () => void;
 }
@@ -51,7 +54,7 @@ interface SavedGesture {
 export function DrawingCanvas({
   isConnected,
   isRawDataMode,
-  accelerometerData,
+  accelerometerBuffer,
   onStartRawData,
   onStopRawData
 }: DrawingCanvasProps) {
@@ -73,8 +76,11 @@ export function DrawingCanvas({
   // For gesture detection
   const [savedGestures, setSavedGestures] = useState<SavedGesture[]>([]);
   const [selectedGestureName, setSelectedGestureName] = useState<string>('');
-  const [lastTriggeredTime, setLastTriggeredTime] = useState(0);
   const [gestureConfidenceThreshold, setGestureConfidenceThreshold] = useState(80);
+  const [latestData, setLatestData] = useState<AccelerometerData | null>(null);
+
+  // Nothing to show once raw data mode stops
+  const accelerometerData = isRawDataMode ? latestData : null;
 
   // Load gestures from localStorage
   useEffect(() => {
@@ -174,37 +180,25 @@ export function DrawingCanvas({
     redrawCanvas();
   }, [strokes, currentStroke, cursorPosition, isDrawing, penColor, penWidth]);
 
-  // Detect gesture and update cursor position
-  useEffect(() => {
-    if (!accelerometerData || !isRawDataMode) return;
-
-    // Gesture recognition - check if selected gesture is matched
-    if (selectedGestureName && savedGestures.length > 0) {
-      const selectedGesture = savedGestures.find(g => g.name === selectedGestureName);
-      
-      if (selectedGesture) {
-        // Calculate distance from current position to gesture average
-        const xDiff = Math.abs(accelerometerData.rotateX - selectedGesture.averages.rotateX);
-        const yDiff = Math.abs(accelerometerData.rotateY - selectedGesture.averages.rotateY);
-        const zDiff = Math.abs(accelerometerData.rotateZ - selectedGesture.averages.rotateZ);
-
-        const distance = Math.sqrt(xDiff * xDiff + yDiff * yDiff + zDiff * zDiff);
-        const maxDistance = Math.PI / 2; // 90 degrees in radians
-        const confidence = Math.max(0, (1 - (distance / maxDistance)) * 100);
-
-        // Trigger toggle if confidence is high enough
-        const now = Date.now();
-        if (confidence >= gestureConfidenceThreshold && now - lastTriggeredTime > 1000) {
-          console.log(`✅ Gesture "${selectedGestureName}" detected with ${confidence.toFixed(1)}% confidence`);
-          toggleDrawing();
-          setLastTriggeredTime(now);
-        }
-      }
-    }
-
+  // The motion pipeline worker watches for the selected gesture
+  const pipelineConfig = useMemo(() => {
+    const selectedGesture = savedGestures.find(g => g.name === selectedGestureName);
+    return {
+      movingAverageWindow: 1,
+      gestures: selectedGesture ? [{ name: selectedGesture.name, averages: selectedGesture.averages }] : [],
+      triggerThreshold: gestureConfidenceThreshold,
+      triggerCooldown: 1000,
+    };
+  }, [savedGestures, selectedGestureName, gestureConfidenceThreshold]);
+  const motionProcessor = useMotionProcessor(pipelineConfig);
+
+  /**
+   * Updates the cursor position for one sample
+   */
+  const processSample = (sample: AccelerometerData) => {
     const toDegrees = (rad: number) => (rad * 180) / Math.PI;
-    const pitchDeg = toDegrees(accelerometerData.rotateX);  // Forward/Back tilt
-    const rollDeg = toDegrees(accelerometerData.rotateY);   // Left/Right tilt
+    const pitchDeg = toDegrees(sample.rotateX);  // Forward/Back tilt
+    const rollDeg = toDegrees(sample.rotateY);   // Left/Right tilt
     const currentPos = cursorPositionRef.current;
 
     let clampedX: number;
@@ -213,8 +207,8 @@ export function DrawingCanvas({
     if (drawingMode === 'blackboard') {
       // BLACKBOARD MODE: Hand movement in space = drawing on board
       // Use G-forces to detect hand movement direction
-      const gX = accelerometerData.gX; // Left/Right movement
-      const gY = accelerometerData.gY; // Forward/Back movement
+      const gX = sample.gX; // Left/Right movement
+      const gY = sample.gY; // Forward/Back movement
       
       // Map hand movement to cursor movement on canvas
       // Positive gX = moving right, Negative gX = moving left
@@ -270,7 +264,14 @@ export function DrawingCanvas({
     if (isDrawing) {
       setCurrentStroke(prev => [...prev, { x: clampedX, y: clampedY }]);
     }
-  }, [accelerometerData, isRawDataMode, selectedGestureName, savedGestures, gestureConfidenceThreshold, lastTriggeredTime, isDrawing, sensitivity, smoothingFactor, canvasSize]);
+  };
+
+  // Process samples in batches once per frame
+  useAccelerometerFrames(accelerometerBuffer, isRawDataMode, (samples) => {
+    setLatestData(samples[samples.length - 1]);
+    samples.forEach(processSample);
+    motionProcessor.process(samples);
+  });
 
   const toggleDrawing = () => {
     if (isDrawing) {
@@ -291,6 +292,22 @@ export function DrawingCanvas({
     }
   };
 
+  // Toggle drawing whenever the pipeline recognises the selected gesture
+  const onGesture = (gesture: GestureEvent) => {
+    console.log(`✅ Gesture "${gesture.name}" detected with ${gesture.confidence.toFixed(1)}% confidence`);
+    toggleDrawing();
+  };
+  const onGestureRef = useRef(onGesture);
+
+  // Always call the latest handler without resubscribing
+  useEffect(() => {
+    onGestureRef.current = onGesture;
+  });
+
+  useEffect(() => {
+    return motionProcessor.on('gesture', (gesture) => onGestureRef.current(gesture));
+  }, [motionProcessor]);
+
   const clearCanvas = () => {
     if (confirm('Clear entire canvas? This cannot be undone.')) {
       setStrokes([]);
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Radar, Search, Square, Volume2, VolumeX } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { RingFinder, beepInterval } from '../lib/ring-finder';
+import { FINDER_BEEP_INTERVAL } from '../lib/constants';
+import { ProximityLevel, RingProximity } from '../lib/types';
+
+const LEVEL_LABELS: Record<ProximityLevel, string> = {
+  cold: 'Cold',
+  cool: 'Cool',
+  warm: 'Warm',
+  hot: 'Hot',
+};
+
+const LEVEL_CLASSES: Record<ProximityLevel, string> = {
+  cold: 'text-blue-600',
+  cool: 'text-cyan-600',
+  warm: 'text-amber-600',
+  hot: 'text-red-600',
+};
+
+/**
+ * Plays one short beep, higher pitched the closer the ring is
+ */
+function playBeep(audio: AudioContext, percent: number): void {
+  const oscillator = audio.createOscillator();
+  const gain = audio.createGain();
+  const now = audio.currentTime;
+
+  oscillator.frequency.value = 500 + percent * 6;
+  gain.gain.setValueAtTime(0.2, now);
+  gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+
+  oscillator.connect(gain).connect(audio.destination);
+  oscillator.start(now);
+  oscillator.stop(now + 0.08);
+}
+
+/**
+ * FindRingCard Component
+ *
+ * Hot/cold search for a lost ring: listens to its advertisements, shows how
+ * close it is and beeps faster as the ring gets closer.
+ */
+export function FindRingCard() {
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [isMuted, setIsMuted] = useState<boolean>(false);
+  const [proximity, setProximity] = useState<RingProximity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const finderRef = useRef<RingFinder | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+  const proximityRef = useRef<RingProximity | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  const stopFinder = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    finderRef.current?.stop();
+    finderRef.current = null;
+    audioRef.current?.close();
+    audioRef.current = null;
+    proximityRef.current = null;
+  }, []);
+
+  // Stop scanning when the card goes away
+  useEffect(() => stopFinder, [stopFinder]);
+
+  // Beep at a rate that follows the latest proximity
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!isScanning || isMuted || !audio) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const percent = proximityRef.current?.percent ?? null;
+      if (percent !== null) {
+        playBeep(audio, percent);
+      }
+      timer = setTimeout(tick, percent === null ? FINDER_BEEP_INTERVAL.max : beepInterval(percent));
+    };
+    tick();
+
+    return () => clearTimeout(timer);
+  }, [isScanning, isMuted]);
+
+  const handleStart = async () => {
+    setError(null);
+    // A second click while starting replaces the first scan instead of leaking it
+    stopFinder();
+
+    const finder = new RingFinder();
+    finderRef.current = finder;
+    unsubscribeRef.current = finder.on('proximity', (update) => {
+      proximityRef.current = update;
+      setProximity(update);
+    });
+    // Created here so the browser allows audio started from this click
+    audioRef.current = typeof AudioContext !== 'undefined' ? new AudioContext() : null;
+
+    try {
+      await finder.start();
+    } catch (err) {
+      if (finderRef.current === finder) {
+        stopFinder();
+        setError(err instanceof Error ? err.message : 'Could not start scanning');
+      }
+      return;
+    }
+
+    // Stopped, unmounted or restarted while the scan was starting
+    if (finderRef.current !== finder) {
+      finder.stop();
+      return;
+    }
+
+    setProximity(finder.getProximity());
+    setIsScanning(true);
+  };
+
+  const handleStop = () => {
+    stopFinder();
+    setIsScanning(false);
+    setProximity(null);
+  };
+
+  const percent = proximity?.percent ?? null;
+  const level = proximity?.level ?? null;
+
+  return (
+    <GlassCard glow="blue" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full flex items-center justify-center">
+            <Radar className={`h-5 w-5 text-white ${isScanning ? 'animate-pulse' : ''}`} />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Find Ring
+            </h2>
+            <p className="text-sm text-gray-600">
+              {isScanning
+                ? `Listening for ${proximity?.name ?? 'your ring'}`
+                : 'Walk around and follow the signal'}
+            </p>
+          </div>
+        </div>
+        {isScanning && (
+          <button
+            onClick={() => setIsMuted(muted => !muted)}
+            className="text-gray-500 hover:text-gray-800"
+            title={isMuted ? 'Unmute beeps' : 'Mute beeps'}
+          >
+            {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+          </button>
+        )}
+      </div>
+
+      {isScanning && (
+        <div className="mb-6">
+          {/* Proximity Meter */}
+          <div className="text-center mb-3">
+            <div className={`text-3xl font-bold ${level ? LEVEL_CLASSES[level] : 'text-gray-400'}`}>
+              {level ? LEVEL_LABELS[level] : 'No signal'}
+            </div>
+            <div className="text-sm text-gray-600">
+              {proximity?.rssi !== null && proximity?.rssi !== undefined
+                ? `${percent}% (${proximity.rssi} dBm)`
+                : 'Waiting for advertisements...'}
+            </div>
+          </div>
+          <div className="h-3 rounded-full bg-gray-200 overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-blue-500 via-amber-400 to-red-500 transition-all duration-300"
+              style={{ width: `${percent ?? 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {isScanning ? (
+        <AnimatedButton variant="secondary" size="sm" onClick={handleStop} hoverEffect="lift">
+          <Square className="h-4 w-4" />
+          Stop searching
+        </AnimatedButton>
+      ) : (
+        <AnimatedButton variant="primary" size="sm" onClick={handleStart} hoverEffect="lift" shadowColor="blue">
+          <Search className="h-4 w-4" />
+          Start searching
+        </AnimatedButton>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Rings stop advertising while connected, so disconnect it from other apps first.
+        Needs Chrome with &quot;Experimental Web Platform features&quot; enabled.
+      </p>
+    </GlassCard>
+  );
+}
@@ -1,13 +1,16 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Target, Save, Play, Square, Download, Upload, Trash2, CheckCircle, AlertCircle, Filter } from 'lucide-react';
-import { AccelerometerData } from '../lib/types';
+import { AccelerometerData, GestureMatch } from '../lib/types';
+import { AccelerometerBuffer } from '../lib/accelerometer-buffer';
+import { useAccelerometerFrames } from '../hooks/useAccelerometerFrames';
+import { useMotionProcessor } from '../hooks/useMotionProcessor';
 
 interface GestureTrainerProps {
   isConnected: boolean;
   isRawDataMode: boolean;
-  accelerometerData: AccelerometerData | null;
+  accelerometerBuffer: AccelerometerBuffer | null;
   onStartRawData: () => void;
   onStopRawData: () => void;
 }
@@ -52,24 +55,26 @@ interface SavedGesture {
 export function GestureTrainer({
   isConnected,
   isRawDataMode,
-  accelerometerData,
+  accelerometerBuffer,
   onStartRawData,
   onStopRawData
 }: GestureTrainerProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [recordedSamples, setRecordedSamples] = useState<RecordedSample[]>([]);
+  // Samples are collected here while recording and committed to state when it stops
+  const recordingRef = useRef<RecordedSample[] | null>(null);
+  const [recordingCount, setRecordingCount] = useState(0);
   const [gestureName, setGestureName] = useState('');
   const [savedGestures, setSavedGestures] = useState<SavedGesture[]>([]);
   const [selectedGesture, setSelectedGesture] = useState<SavedGesture | null>(null);
   const [smoothingLevel, setSmoothingLevel] = useState(3); // Number of samples to average
   const [smoothedData, setSmoothedData] = useState<AccelerometerData | null>(null);
-  const dataBuffer = useRef<AccelerometerData[]>([]);
+  const [match, setMatch] = useState<GestureMatch | null>(null);
 
   // Action trigger states
   const [showActionModal, setShowActionModal] = useState(false);
   const [triggeredAction, setTriggeredAction] = useState<GestureAction | null>(null);
   const [triggeredGestureName, setTriggeredGestureName] = useState('');
-  const [lastTriggeredTime, setLastTriggeredTime] = useState(0);
   const [actionsEnabled, setActionsEnabled] = useState(true); // Toggle for showing/hiding action triggers
   const [editingActionForGesture, setEditingActionForGesture] = useState<SavedGesture | null>(null);
   const [actionType, setActionType] = useState<'image' | 'message' | 'sound' | 'url' | 'youtube'>('message');
@@ -113,54 +118,49 @@ export function GestureTrainer({
     }
   }, [savedGestures]);
 
-  // Apply smoothing filter to accelerometer data
-  useEffect(() => {
-    if (accelerometerData) {
-      // Add to buffer
-      dataBuffer.current.push(accelerometerData);
+  // Smoothing and gesture matching run in the motion pipeline worker
+  const pipelineConfig = useMemo(() => ({
+    movingAverageWindow: smoothingLevel,
+    // Only gestures with an action fire, so the others never start the cooldown
+    gestures: savedGestures.map(({ name, averages, action }) => ({ name, averages, triggers: actionsEnabled && Boolean(action) })),
+    matchThreshold: 30,
+    triggerThreshold: 80, // Trigger actions at 80%+ confidence
+    triggerCooldown: 2000, // Prevent triggering too frequently
+  }), [smoothingLevel, savedGestures, actionsEnabled]);
+  const motionProcessor = useMotionProcessor(pipelineConfig);
 
-      // Keep only last N samples based on smoothing level
-      if (dataBuffer.current.length > smoothingLevel) {
-        dataBuffer.current.shift();
-      }
+  useAccelerometerFrames(accelerometerBuffer, isRawDataMode, (samples) => motionProcessor.process(samples));
 
-      // Calculate moving average
-      if (dataBuffer.current.length >= smoothingLevel) {
-        const avgData: AccelerometerData = {
-          rawX: Math.round(dataBuffer.current.reduce((sum, d) => sum + d.rawX, 0) / dataBuffer.current.length),
-          rawY: Math.round(dataBuffer.current.reduce((sum, d) => sum + d.rawY, 0) / dataBuffer.current.length),
-          rawZ: Math.round(dataBuffer.current.reduce((sum, d) => sum + d.rawZ, 0) / dataBuffer.current.length),
-          gX: dataBuffer.current.reduce((sum, d) => sum + d.gX, 0) / dataBuffer.current.length,
-          gY: dataBuffer.current.reduce((sum, d) => sum + d.gY, 0) / dataBuffer.current.length,
-          gZ: dataBuffer.current.reduce((sum, d) => sum + d.gZ, 0) / dataBuffer.current.length,
-          rotateX: dataBuffer.current.reduce((sum, d) => sum + d.rotateX, 0) / dataBuffer.current.length,
-          rotateY: dataBuffer.current.reduce((sum, d) => sum + d.rotateY, 0) / dataBuffer.current.length,
-          rotateZ: dataBuffer.current.reduce((sum, d) => sum + d.rotateZ, 0) / dataBuffer.current.length,
-          timestamp: accelerometerData.timestamp
-        };
-        setSmoothedData(avgData);
-      } else {
-        setSmoothedData(accelerometerData);
+  // Show and record the smoothed stream, one state update per batch
+  useEffect(() => {
+    return motionProcessor.on('smoothed', (smoothedSamples) => {
+      setSmoothedData(smoothedSamples[smoothedSamples.length - 1]);
+
+      // Record samples when recording is active
+      const recording = recordingRef.current;
+      if (recording) {
+        for (const data of smoothedSamples) {
+          recording.push({ timestamp: data.timestamp, data });
+        }
+        setRecordingCount(recording.length);
       }
-    }
-  }, [accelerometerData, smoothingLevel]);
+    });
+  }, [motionProcessor]);
 
-  // Record samples when recording is active
   useEffect(() => {
-    if (isRecording && smoothedData) {
-      setRecordedSamples(prev => [...prev, {
-        timestamp: Date.now(),
-        data: smoothedData
-      }]);
-    }
-  }, [isRecording, smoothedData]);
+    return motionProcessor.on('features', (features) => setMatch(features.match));
+  }, [motionProcessor]);
 
   const startRecording = () => {
+    recordingRef.current = [];
+    setRecordingCount(0);
     setRecordedSamples([]);
     setIsRecording(true);
   };
 
   const stopRecording = () => {
+    setRecordedSamples(recordingRef.current ?? []);
+    recordingRef.current = null;
     setIsRecording(false);
   };
 
@@ -286,62 +286,32 @@ export function GestureTrainer({
     }
   };
 
-  const getCurrentMatch = (): { gesture: SavedGesture; confidence: number } | null => {
-    if (!smoothedData || savedGestures.length === 0) return null;
-
-    let bestMatchGesture: SavedGesture | null = null;
-    let bestConfidence = 0;
-    let bestScore = Infinity;
-
-    savedGestures.forEach((gesture: SavedGesture) => {
-      // Calculate distance from current position to gesture average
-      const xDiff = Math.abs(smoothedData.rotateX - gesture.averages.rotateX);
-      const yDiff = Math.abs(smoothedData.rotateY - gesture.averages.rotateY);
-      const zDiff = Math.abs(smoothedData.rotateZ - gesture.averages.rotateZ);
+  const matchedGesture = match ? savedGestures.find(gesture => gesture.name === match.name) : undefined;
+  const currentMatch = match && matchedGesture ? { gesture: matchedGesture, confidence: match.confidence } : null;
 
-      const distance = Math.sqrt(xDiff * xDiff + yDiff * yDiff + zDiff * zDiff);
-
-      if (distance < bestScore) {
-        bestScore = distance;
-        const maxDistance = Math.PI / 2; // 90 degrees in radians
-        const confidence = Math.max(0, (1 - (distance / maxDistance)) * 100);
-        bestMatchGesture = gesture;
-        bestConfidence = confidence;
+  // Trigger the gesture's action when the pipeline recognises it
+  useEffect(() => {
+    return motionProcessor.on('gesture', (event) => {
+      const action = savedGestures.find(gesture => gesture.name === event.name)?.action;
+      if (!actionsEnabled || !action) {
+        return;
       }
-    });
 
-    // Return match only if confidence is above threshold
-    if (bestMatchGesture && bestConfidence > 30) {
-      return { gesture: bestMatchGesture, confidence: bestConfidence };
-    }
-    return null;
-  };
+      setTriggeredAction(action);
+      setTriggeredGestureName(event.name);
+      setShowActionModal(true);
 
-  const currentMatch = getCurrentMatch();
-
-  // Trigger action when gesture is matched with high confidence (80%+)
-  useEffect(() => {
-    if (actionsEnabled && currentMatch && currentMatch.confidence >= 80 && currentMatch.gesture.action) {
-      const now = Date.now();
-      // Prevent triggering too frequently (cooldown of 2 seconds)
-      if (now - lastTriggeredTime > 2000) {
-        setTriggeredAction(currentMatch.gesture.action);
-        setTriggeredGestureName(currentMatch.gesture.name);
-        setShowActionModal(true);
-        setLastTriggeredTime(now);
-
-        // Auto-close after 3 seconds for messages and images
-        if (currentMatch.gesture.action.type === 'message' || currentMatch.gesture.action.type === 'image') {
-          setTimeout(() => setShowActionModal(false), 3000);
-        }
+      // Auto-close after 3 seconds for messages and images
+      if (action.type === 'message' || action.type === 'image') {
+        setTimeout(() => setShowActionModal(false), 3000);
+      }
 
-        // Open YouTube links in new tab (don't auto-close modal - manual close only)
-        if (currentMatch.gesture.action.type === 'youtube') {
-          window.open(currentMatch.gesture.action.content, '_blank');
-        }
+      // Open YouTube links in new tab (don't auto-close modal - manual close only)
+      if (action.type === 'youtube') {
+        window.open(action.content, '_blank');
       }
-    }
-  }, [currentMatch, lastTriggeredTime]);
+    });
+  }, [motionProcessor, savedGestures, actionsEnabled]);
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -574,7 +544,7 @@ export function GestureTrainer({
               className="flex-1 flex items-center justify-center gap-2 py-3 px-4 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium animate-pulse"
             >
               <Square className="h-4 w-4" />
-              Stop Recording ({recordedSamples.length} samples)
+              Stop Recording ({recordingCount} samples)
             </button>
           )}
         </div>
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { HeartRateLog } from '../lib/types';
+
+interface HeartRateHistoryCardProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+}
+
+const DAY_OPTIONS = [
+  { offset: 0, label: 'Today' },
+  { offset: 1, label: 'Yesterday' },
+  { offset: 2, label: '2 days ago' },
+  { offset: 3, label: '3 days ago' },
+];
+
+/**
+ * HeartRateHistoryCard Component
+ *
+ * Charts a full day of background heart-rate measurements downloaded from
+ * the ring's log (command 21), including readings taken while the browser
+ * was closed.
+ */
+export function HeartRateHistoryCard({ ringService, isConnected }: HeartRateHistoryCardProps) {
+  const [dayOffset, setDayOffset] = useState<number>(0);
+  const [log, setLog] = useState<HeartRateLog | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const date = new Date(Date.now() - dayOffset * 24 * 60 * 60 * 1000);
+      setLog(await ringService.getHeartRateLog(date));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download heart rate log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const chartData = log?.samples.map(sample => ({
+    time: sample.timestamp.getTime(),
+    heartRate: sample.heartRate,
+  })) ?? [];
+
+  const heartRates = chartData.map(point => point.heartRate);
+  const minHeartRate = heartRates.length > 0 ? Math.min(...heartRates) : null;
+  const maxHeartRate = heartRates.length > 0 ? Math.max(...heartRates) : null;
+  const avgHeartRate = heartRates.length > 0
+    ? Math.round(heartRates.reduce((sum, value) => sum + value, 0) / heartRates.length)
+    : null;
+
+  return (
+    <GlassCard glow="red" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-red-500 to-red-600 rounded-full flex items-center justify-center">
+            <History className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Heart Rate History
+            </h2>
+            <p className="text-sm text-gray-600">
+              Background measurements stored on the ring
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Day Selection */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {DAY_OPTIONS.map(option => (
+          <button
+            key={option.offset}
+            onClick={() => setDayOffset(option.offset)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              dayOffset === option.offset
+                ? 'bg-red-500 text-white'
+                : 'bg-white/50 text-gray-700 hover:bg-white/80'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Chart */}
+      {chartData.length > 0 ? (
+        <div className="h-64 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTime}
+                tick={{ fontSize: 11 }}
+              />
+              <YAxis domain={['dataMin - 5', 'dataMax + 5']} tick={{ fontSize: 11 }} unit=" bpm" width={60} />
+              <Tooltip
+                labelFormatter={(label) => formatTime(Number(label))}
+                formatter={(value) => [`${value} BPM`, 'Heart rate']}
+              />
+              <Line type="monotone" dataKey="heartRate" stroke="#ef4444" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <GlassCard size="sm" className="bg-white/50 border-white/30 mb-4">
+          <p className="text-xs text-gray-700 text-center">
+            {log
+              ? 'No background heart-rate readings stored for this day. Enable heart-rate logging on the ring to collect them.'
+              : 'Select a day and click "Load History" to download the ring\'s heart-rate log'}
+          </p>
+        </GlassCard>
+      )}
+
+      {/* Summary */}
+      {log && chartData.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mb-4 text-center">
+          <div>
+            <div className="text-xs text-gray-600">Min</div>
+            <div className="text-sm font-semibold text-gray-900">{minHeartRate} BPM</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-600">Avg</div>
+            <div className="text-sm font-semibold text-gray-900">{avgHeartRate} BPM</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-600">Max</div>
+            <div className="text-sm font-semibold text-gray-900">{maxHeartRate} BPM</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-600">Interval</div>
+            <div className="text-sm font-semibold text-gray-900">{log.intervalMinutes} min</div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 text-center mb-4">{error}</p>
+      )}
+
+      {/* Load Button */}
+      <AnimatedButton
+        variant="primary"
+        size="sm"
+        onClick={handleLoad}
+        disabled={!isConnected || isLoading}
+        hoverEffect="lift"
+        shadowColor="red"
+        className="w-full"
+      >
+        <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        {isLoading ? 'Downloading...' : 'Load History'}
+      </AnimatedButton>
+    </GlassCard>
+  );
+}
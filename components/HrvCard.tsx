@@ -0,0 +1,124 @@
+'use client';
+
+import React from 'react';
+import { Activity, Play, Square, RefreshCw } from 'lucide-react';
+import { GlassCard, MetricDisplay, StatusIndicator, AnimatedButton } from './glass';
+
+interface HrvCardProps {
+  hrv?: number | null;
+  isConnected: boolean;
+  isHrvMonitoring: boolean;
+  onStartHrv: () => void;
+  onStopHrv: () => void;
+}
+
+/**
+ * HrvCard Component
+ *
+ * Real-time heart rate variability from the ring's HRV reading
+ * (REAL_TIME_READINGS.HRV), reported in milliseconds.
+ */
+export function HrvCard({
+  hrv,
+  isConnected,
+  isHrvMonitoring,
+  onStartHrv,
+  onStopHrv
+}: HrvCardProps) {
+  const getHrvStatusForMetric = (value: number | null): 'success' | 'warning' | 'error' | 'neutral' => {
+    if (value === null) return 'neutral';
+    if (value >= 50) return 'success';
+    if (value >= 20) return 'warning';
+    return 'error';
+  };
+
+  return (
+    <GlassCard glow="purple" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-purple-600 rounded-full flex items-center justify-center">
+            <Activity className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Heart Rate Variability
+            </h2>
+            <p className="text-sm text-gray-600">
+              Beat-to-beat variation
+            </p>
+          </div>
+        </div>
+
+        <StatusIndicator
+          status={isHrvMonitoring ? 'active' : 'neutral'}
+          pulse={isHrvMonitoring}
+        />
+      </div>
+
+      {/* Metric Display */}
+      <MetricDisplay
+        value={hrv ?? null}
+        unit="ms"
+        label="HRV"
+        status={getHrvStatusForMetric(hrv ?? null)}
+        className="mb-6"
+      />
+
+      {/* Control Buttons */}
+      <div className="flex gap-2 mb-4">
+        {!isHrvMonitoring ? (
+          <AnimatedButton
+            variant="primary"
+            size="sm"
+            onClick={onStartHrv}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="purple"
+            className="flex-1"
+          >
+            <Play className="h-4 w-4" />
+            Start HRV
+          </AnimatedButton>
+        ) : (
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={onStopHrv}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="red"
+            className="flex-1 bg-red-500 hover:bg-red-600 text-white border-red-500/20"
+          >
+            <Square className="h-4 w-4" />
+            Stop HRV
+          </AnimatedButton>
+        )}
+      </div>
+
+      {/* HRV Monitoring Status */}
+      {isHrvMonitoring && (
+        <GlassCard size="sm" className="mb-4 bg-purple-50/50 border-purple-200/30">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4 text-purple-600 animate-spin" />
+            <span className="text-sm font-medium text-purple-800">
+              Measuring heart rate variability...
+            </span>
+          </div>
+          <p className="text-xs text-purple-600 mt-1">
+            Stay still and relaxed - a reading can take up to a minute
+          </p>
+        </GlassCard>
+      )}
+
+      {/* Connection Status */}
+      {!isConnected && (
+        <GlassCard size="sm" className="bg-red-50/50 border-red-200/30">
+          <p className="text-sm text-red-700 text-center">
+            Ring disconnected - HRV monitoring unavailable
+          </p>
+        </GlassCard>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Radio, Download, Upload, Trash2, Pause, Play } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { PacketCapture } from '../lib/packet-capture';
+import { CapturedPacket } from '../lib/types';
+
+interface PacketCaptureCardProps {
+  ringService: ColmiRingService;
+}
+
+// Rows shown in the live packet list
+const VISIBLE_PACKETS = 20;
+
+/**
+ * PacketCaptureCard Component
+ *
+ * Shows the service's packet capture as it grows and lets a capture be
+ * exported to a JSON file or replayed from one into the parser.
+ */
+export function PacketCaptureCard({ ringService }: PacketCaptureCardProps) {
+  const [packets, setPackets] = useState<CapturedPacket[]>(() => ringService.getCapturedPackets());
+  const [isCapturing, setIsCapturing] = useState<boolean>(() => ringService.isPacketCaptureEnabled());
+  const [preserveTiming, setPreserveTiming] = useState<boolean>(false);
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Frames can arrive at sensor rate; refresh the list at most once per animation frame
+  useEffect(() => {
+    let frame: number | null = null;
+    const unsubscribe = ringService.on('packetCaptured', () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          setPackets(ringService.getCapturedPackets());
+        });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [ringService]);
+
+  const handleToggleCapture = () => {
+    ringService.setPacketCaptureEnabled(!isCapturing);
+    setIsCapturing(!isCapturing);
+  };
+
+  const handleClear = () => {
+    ringService.clearPacketCapture();
+    setPackets([]);
+    setStatus(null);
+  };
+
+  const handleExport = () => {
+    const capture = ringService.exportPacketCapture();
+    const blob = new Blob([JSON.stringify(capture, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `colmi-capture-${capture.startedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReplayFile = async (file: File) => {
+    setIsReplaying(true);
+    setError(null);
+    setStatus(null);
+
+    try {
+      const capture = PacketCapture.parse(await file.text());
+      const count = await ringService.replayCapture(capture, { preserveTiming });
+      setStatus(`Replayed ${count} received frames from ${file.name}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay capture');
+    } finally {
+      setIsReplaying(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const recentPackets = packets.slice(-VISIBLE_PACKETS).reverse();
+
+  return (
+    <GlassCard glow="blue" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full flex items-center justify-center">
+            <Radio className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Packet Capture
+            </h2>
+            <p className="text-sm text-gray-600">
+              {packets.length} frames {isCapturing ? 'captured' : '(not capturing)'}
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={handleToggleCapture}
+          className="p-2 rounded-lg text-gray-600 hover:bg-white/50"
+          title={isCapturing ? 'Pause capture' : 'Start capture'}
+        >
+          {isCapturing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {/* Recent Packets */}
+      <GlassCard size="sm" className="bg-white/50 border-white/30 mb-4">
+        {recentPackets.length > 0 ? (
+          <div className="max-h-64 overflow-y-auto space-y-1 font-mono text-xs">
+            {recentPackets.map((packet, index) => (
+              <div key={`${packet.time}-${index}`} className="flex items-start gap-2">
+                <span className="w-16 shrink-0 text-right text-gray-500">{(packet.time / 1000).toFixed(3)}s</span>
+                <span className={`w-6 shrink-0 font-semibold ${packet.direction === 'tx' ? 'text-blue-600' : 'text-emerald-600'}`}>
+                  {packet.direction.toUpperCase()}
+                </span>
+                <div className="min-w-0">
+                  <div className={packet.checksumValid === false ? 'text-red-600' : 'text-gray-800'}>
+                    {packet.description}
+                    {packet.checksumValid === false && ' (bad checksum)'}
+                  </div>
+                  <div className="text-gray-500 break-all">{packet.hex}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-700 text-center">
+            Frames sent to and received from the ring appear here
+          </p>
+        )}
+      </GlassCard>
+
+      <label className="flex items-center gap-2 text-xs text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={preserveTiming}
+          onChange={(e) => setPreserveTiming(e.target.checked)}
+          disabled={isReplaying}
+          className="h-4 w-4"
+        />
+        Replay with original timing
+      </label>
+
+      {status && (
+        <p className="text-xs text-gray-600 text-center mb-4">{status}</p>
+      )}
+      {error && (
+        <p className="text-xs text-red-600 text-center mb-4">{error}</p>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={handleExport}
+          disabled={packets.length === 0}
+          hoverEffect="lift"
+          shadowColor="blue"
+          className="flex-1"
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </AnimatedButton>
+        <AnimatedButton
+          variant="secondary"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReplaying}
+          hoverEffect="lift"
+          className="flex-1"
+        >
+          <Upload className="h-4 w-4" />
+          {isReplaying ? 'Replaying...' : 'Replay'}
+        </AnimatedButton>
+        <AnimatedButton
+          variant="secondary"
+          size="sm"
+          onClick={handleClear}
+          disabled={packets.length === 0}
+          hoverEffect="lift"
+          className="flex-1"
+        >
+          <Trash2 className="h-4 w-4" />
+          Clear
+        </AnimatedButton>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleReplayFile(file);
+          }
+        }}
+      />
+    </GlassCard>
+  );
+}
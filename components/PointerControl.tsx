@@ -1,12 +1,15 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import type { AccelerometerData, SavedGesture } from '@/lib/types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { FilteredMotion, SavedGesture } from '@/lib/types';
+import type { AccelerometerBuffer } from '@/lib/accelerometer-buffer';
+import { useAccelerometerFrames } from '@/hooks/useAccelerometerFrames';
+import { useMotionProcessor } from '@/hooks/useMotionProcessor';
 
 interface PointerControlProps {
   isConnected: boolean;
   isRawDataMode: boolean;
-  accelerometerData: AccelerometerData | null;
+  accelerometerBuffer: AccelerometerBuffer | null;
   onStartRawData: () => void;
   onStopRawData: () => void;
 }
@@ -29,7 +32,7 @@ type ClickAction = 'none' | 'left' | 'right' | 'double';
 export function PointerControl({
   isConnected,
   isRawDataMode,
-  accelerometerData,
+  accelerometerBuffer,
   onStartRawData,
   onStopRawData,
 }: PointerControlProps) {
@@ -53,7 +56,6 @@ export function PointerControl({
   const [adaptiveZones, setAdaptiveZones] = useState(true); // Enable adaptive sensitivity zones
   
   // Stabilization state
-  const emaStateRef = useRef({ gX: 0, gY: 0, pitchDeg: 0, rollDeg: 0 });
   const momentumRef = useRef({ x: 0, y: 0 });
   const velocityRef = useRef({ x: 0, y: 0 });
   
@@ -69,16 +71,6 @@ export function PointerControl({
   // Canvas ref
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // Apply Exponential Moving Average smoothing
-  const applyEMA = (newValue: number, oldValue: number, alpha: number): number => {
-    return alpha * newValue + (1 - alpha) * oldValue;
-  };
-
-  // Apply dead zone filtering
-  const applyDeadZone = (value: number, threshold: number): number => {
-    return Math.abs(value) < threshold ? 0 : value;
-  };
-
   // Calculate adaptive sensitivity based on position
   const getAdaptiveSensitivity = (x: number, y: number, baseSensitivity: number): number => {
     if (!adaptiveZones) return baseSensitivity;
@@ -106,14 +98,12 @@ export function PointerControl({
 
 
   // Detect quick flick gesture (left click)
-  const detectFlick = (gX: number, gY: number, gZ: number): boolean => {
-    const magnitude = Math.sqrt(gX * gX + gY * gY + gZ * gZ);
+  const detectFlick = (magnitude: number): boolean => {
     return magnitude > 2.0; // Threshold for quick movement
   };
 
   // Detect hold position (right click)
-  const detectHold = (gX: number, gY: number, gZ: number): boolean => {
-    const magnitude = Math.sqrt(gX * gX + gY * gY + gZ * gZ);
+  const detectHold = (magnitude: number): boolean => {
     const isStable = magnitude < 0.3; // Very stable position
     
     if (isStable) {
@@ -187,25 +177,14 @@ export function PointerControl({
     }
   };
 
-  // Main accelerometer processing
-  useEffect(() => {
-    if (!accelerometerData || !isRawDataMode) {
-      console.log('🎯 Pointer: No data or not in raw mode', { hasData: !!accelerometerData, isRawDataMode });
-      return;
-    }
-
-    const pitchRad = accelerometerData.rotateX;
-    const rollRad = accelerometerData.rotateY;
-    const pitchDeg = (pitchRad * 180) / Math.PI;
-    const rollDeg = (rollRad * 180) / Math.PI;
-    const { gX, gY, gZ } = accelerometerData;
-
+  // Main accelerometer processing, once per filtered sample
+  const processSample = (motion: FilteredMotion) => {
     // Only process if pointer is active
     if (!pointerActive) return;
 
     // Detect click gestures
-    const flickDetected = detectFlick(gX, gY, gZ);
-    const holdDetected = detectHold(gX, gY, gZ);
+    const flickDetected = detectFlick(motion.magnitude);
+    const holdDetected = detectHold(motion.magnitude);
     const circleResult = detectCircle(pointerPositionRef.current.x, pointerPositionRef.current.y);
 
     if (flickDetected && Date.now() - lastFlickTimeRef.current > 500) {
@@ -223,20 +202,12 @@ export function PointerControl({
 
     // Cursor/laser positioning based on mode
     if (pointerMode === 'cursor' || pointerMode === 'laser') {
-      // LAYER 1: Dead Zone - Filter out hand tremor
-      const filteredGX = applyDeadZone(gX, deadZone);
-      const filteredGY = applyDeadZone(gY, deadZone);
-      
-      // LAYER 2: EMA Smoothing - Reduce jitter
-      emaStateRef.current.gX = applyEMA(filteredGX, emaStateRef.current.gX, emaAlpha);
-      emaStateRef.current.gY = applyEMA(filteredGY, emaStateRef.current.gY, emaAlpha);
-      emaStateRef.current.pitchDeg = applyEMA(pitchDeg, emaStateRef.current.pitchDeg, emaAlpha);
-      emaStateRef.current.rollDeg = applyEMA(rollDeg, emaStateRef.current.rollDeg, emaAlpha);
-      
+      // LAYERS 1-2: Dead zone and EMA smoothing are applied by the motion pipeline worker
+
       // Map tilt angles to screen coordinates
       const angleRange = 45; // degrees
-      const normalizedPitch = Math.max(-1, Math.min(1, emaStateRef.current.pitchDeg / angleRange));
-      const normalizedRoll = Math.max(-1, Math.min(1, emaStateRef.current.rollDeg / angleRange));
+      const normalizedPitch = Math.max(-1, Math.min(1, motion.pitchDeg / angleRange));
+      const normalizedRoll = Math.max(-1, Math.min(1, motion.rollDeg / angleRange));
 
       // LAYER 3: Adaptive Sensitivity - Different sensitivity by zone
       const currentX = pointerPositionRef.current.x;
@@ -292,22 +263,24 @@ export function PointerControl({
       // Y tilt controls scroll direction and speed
       // No position update in scroll mode
     }
-  }, [
-    accelerometerData,
-    isRawDataMode,
-    pointerActive,
-    pointerMode,
-    sensitivity,
-    smoothing,
-    screenWidth,
-    screenHeight,
-    laserSize,
-    clickAction,
-    deadZone,
-    emaAlpha,
-    momentumDecay,
-    adaptiveZones,
-  ]);
+  };
+
+  // Dead zone and EMA filtering run in the motion pipeline worker
+  const pipelineConfig = useMemo(() => ({ deadZone, emaAlpha }), [deadZone, emaAlpha]);
+  const motionProcessor = useMotionProcessor(pipelineConfig);
+
+  useAccelerometerFrames(accelerometerBuffer, isRawDataMode, (samples) => motionProcessor.process(samples));
+
+  // Always call the latest handler without resubscribing
+  const processSampleRef = useRef(processSample);
+  useEffect(() => {
+    processSampleRef.current = processSample;
+  });
+
+  // Filtered samples arrive in batches once per frame, so the pointer re-renders at most once per frame
+  useEffect(() => {
+    return motionProcessor.on('filtered', (batch) => batch.forEach(motion => processSampleRef.current(motion)));
+  }, [motionProcessor]);
 
   // Clean up old highlights
   useEffect(() => {
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { HeartPulse, Play, Square } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { FilteredPpg, PpgBeat, PpgHeartRateStats } from '../lib/types';
+
+interface PpgHeartRateCardProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+  isRawDataMode: boolean;
+  /** Latest heart rate reported by the ring itself, for comparison */
+  ringHeartRate: number | null;
+  onStartRawData: () => void;
+  onStopRawData: () => void;
+}
+
+// Filtered samples shown in the waveform
+const WAVEFORM_LENGTH = 250;
+
+// RR intervals listed under the waveform
+const VISIBLE_INTERVALS = 10;
+
+/**
+ * PpgHeartRateCard Component
+ *
+ * Runs our own beat detection on the raw PPG waveform: shows the filtered
+ * waveform with detected beats marked, the beat-by-beat heart rate next to
+ * the ring's own reading, the RR intervals and the RMSSD/SDNN they give.
+ */
+export function PpgHeartRateCard({
+  ringService,
+  isConnected,
+  isRawDataMode,
+  ringHeartRate,
+  onStartRawData,
+  onStopRawData
+}: PpgHeartRateCardProps) {
+  const [waveform, setWaveform] = useState<FilteredPpg[]>([]);
+  const [beats, setBeats] = useState<PpgBeat[]>([]);
+  const [stats, setStats] = useState<PpgHeartRateStats>(() => ringService.getPpgHeartRateStats());
+  const pendingSamplesRef = useRef<FilteredPpg[]>([]);
+  const pendingBeatsRef = useRef<PpgBeat[]>([]);
+
+  // Samples and beats arrive per packet; queue them and draw once per frame
+  useEffect(() => {
+    if (!isRawDataMode) {
+      return;
+    }
+
+    const unsubscribers = [
+      ringService.on('ppgFiltered', (sample) => pendingSamplesRef.current.push(sample)),
+      ringService.on('ppgBeat', (beat) => pendingBeatsRef.current.push(beat)),
+    ];
+
+    let frame = requestAnimationFrame(function flush() {
+      const newSamples = pendingSamplesRef.current.splice(0);
+      const newBeats = pendingBeatsRef.current.splice(0);
+      if (newSamples.length > 0) {
+        setWaveform(prev => [...prev, ...newSamples].slice(-WAVEFORM_LENGTH));
+      }
+      if (newBeats.length > 0) {
+        setBeats(prev => [...prev, ...newBeats].slice(-WAVEFORM_LENGTH));
+        setStats(ringService.getPpgHeartRateStats());
+      }
+      frame = requestAnimationFrame(flush);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [ringService, isRawDataMode]);
+
+  const latestBeat = beats[beats.length - 1];
+  const intervals = beats.filter(beat => beat.ibiMs !== null).slice(-VISIBLE_INTERVALS);
+  const difference = stats.heartRate !== null && ringHeartRate ? stats.heartRate - ringHeartRate : null;
+
+  // Waveform scaled to the visible time span and value range
+  const width = 400;
+  const height = 100;
+  const start = waveform[0]?.timestamp ?? 0;
+  const span = (waveform[waveform.length - 1]?.timestamp ?? 0) - start || 1;
+  const values = waveform.map(sample => sample.value);
+  const low = Math.min(...values);
+  const range = Math.max(...values) - low || 1;
+  const x = (timestamp: number) => ((timestamp - start) / span) * width;
+  const y = (value: number) => height - ((value - low) / range) * height;
+  const valueAt = new Map(waveform.map(sample => [sample.timestamp, sample.value]));
+  const visibleBeats = beats.filter(beat => valueAt.has(beat.timestamp));
+
+  return (
+    <GlassCard glow="red" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-red-500 to-red-600 rounded-full flex items-center justify-center">
+            <HeartPulse className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Beat-by-Beat Heart Rate
+            </h2>
+            <p className="text-sm text-gray-600">
+              Detected from the raw PPG waveform
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Figures */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-center">
+        <div>
+          <div className="text-2xl font-bold text-gray-900">
+            {stats.heartRate ?? '--'}
+          </div>
+          <div className="text-xs text-gray-600">
+            Detected BPM{latestBeat?.bpm != null && ` (last beat ${Math.round(latestBeat.bpm)})`}
+          </div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">
+            {ringHeartRate ?? '--'}
+          </div>
+          <div className="text-xs text-gray-600">
+            Ring BPM{difference !== null && ` (${difference > 0 ? '+' : ''}${difference} detected)`}
+          </div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">
+            {stats.rmssd !== null ? Math.round(stats.rmssd) : '--'}
+          </div>
+          <div className="text-xs text-gray-600">RMSSD (ms)</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">
+            {stats.sdnn !== null ? Math.round(stats.sdnn) : '--'}
+          </div>
+          <div className="text-xs text-gray-600">SDNN (ms, {stats.intervals} beats)</div>
+        </div>
+      </div>
+
+      {/* Waveform */}
+      <GlassCard size="sm" className="bg-white/50 border-white/30 mb-4">
+        {waveform.length > 1 ? (
+          <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-24">
+            <polyline
+              points={waveform.map(sample => `${x(sample.timestamp).toFixed(1)},${y(sample.value).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke="#ef4444"
+              strokeWidth={1.5}
+            />
+            {visibleBeats.map(beat => (
+              <circle
+                key={beat.timestamp}
+                cx={x(beat.timestamp)}
+                cy={y(valueAt.get(beat.timestamp) ?? low)}
+                r={3}
+                fill="#111827"
+              />
+            ))}
+          </svg>
+        ) : (
+          <p className="h-24 flex items-center justify-center text-xs text-gray-700">
+            {isRawDataMode ? 'Waiting for PPG samples - keep the ring snug and still' : 'Start raw data mode to stream the PPG waveform'}
+          </p>
+        )}
+        {intervals.length > 0 && (
+          <p className="mt-2 font-mono text-xs text-gray-600">
+            RR: {intervals.map(beat => Math.round(beat.ibiMs ?? 0)).join(' · ')} ms
+          </p>
+        )}
+      </GlassCard>
+
+      {/* Actions */}
+      {isRawDataMode ? (
+        <AnimatedButton
+          variant="secondary"
+          size="sm"
+          onClick={onStopRawData}
+          hoverEffect="lift"
+          className="w-full"
+        >
+          <Square className="h-4 w-4" />
+          Stop Raw Data
+        </AnimatedButton>
+      ) : (
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={onStartRawData}
+          disabled={!isConnected}
+          hoverEffect="lift"
+          shadowColor="red"
+          className="w-full"
+        >
+          <Play className="h-4 w-4" />
+          Start Raw Data
+        </AnimatedButton>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,387 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FlaskConical, Send, History, ShieldAlert, ShieldOff, Trash2, X } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { makePacket, PROTOCOL_LAB_DENYLIST } from '../lib/constants';
+import { bytesToHex, hexToBytes } from '../lib/packet-capture';
+import { CapturedPacket } from '../lib/types';
+
+interface ProtocolLabProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+}
+
+interface SentCommand {
+  sentAt: Date;
+  hex: string;
+}
+
+const DENYLIST_STORAGE_KEY = 'colmi-protocol-lab-denylist';
+
+// Command byte plus the 14 sub-data bytes makePacket accepts
+const SUB_DATA_LENGTH = 14;
+
+const MAX_LOG_ENTRIES = 100;
+
+const toHexByte = (value: number) => value.toString(16).padStart(2, '0');
+
+const loadDenylist = (): Record<number, string> => {
+  if (typeof window === 'undefined') {
+    return { ...PROTOCOL_LAB_DENYLIST };
+  }
+  try {
+    const stored = localStorage.getItem(DENYLIST_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { ...PROTOCOL_LAB_DENYLIST };
+  } catch (error) {
+    console.error('Error loading Protocol Lab denylist from localStorage:', error);
+    return { ...PROTOCOL_LAB_DENYLIST };
+  }
+};
+
+/**
+ * ProtocolLab Component
+ *
+ * Sends arbitrary command frames built with makePacket and shows what the
+ * ring answers, for reverse engineering without editing lib/constants.ts.
+ * Commands on the denylist (reboot, factory reset by default) are refused
+ * until the user arms the lab, and arming only lasts for one send.
+ */
+export function ProtocolLab({ ringService, isConnected }: ProtocolLabProps) {
+  const [command, setCommand] = useState<number>(0x03);
+  const [subData, setSubData] = useState<number[]>(() => new Array(SUB_DATA_LENGTH).fill(0));
+  const [hexDraft, setHexDraft] = useState<string | null>(null);
+  const [denylist, setDenylist] = useState<Record<number, string>>(loadDenylist);
+  const [denylistDraft, setDenylistDraft] = useState<string>('');
+  const [isArmed, setIsArmed] = useState<boolean>(false);
+  const [history, setHistory] = useState<SentCommand[]>([]);
+  const [responses, setResponses] = useState<CapturedPacket[]>([]);
+  const [hideRawData, setHideRawData] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Collect everything the ring sends while the lab is open; capture is off by default
+  useEffect(() => {
+    const wasCapturing = ringService.isPacketCaptureEnabled();
+    ringService.setPacketCaptureEnabled(true);
+    const unsubscribe = ringService.on('packetCaptured', (packet) => {
+      if (packet.direction === 'rx') {
+        setResponses(previous => [packet, ...previous].slice(0, MAX_LOG_ENTRIES));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      ringService.setPacketCaptureEnabled(wasCapturing);
+    };
+  }, [ringService]);
+
+  const packet = makePacket(command, Uint8Array.from(subData));
+  const editorHex = bytesToHex(packet.subarray(0, 15));
+  const deniedReason = denylist[command];
+
+  const updateDenylist = (next: Record<number, string>) => {
+    setDenylist(next);
+    try {
+      localStorage.setItem(DENYLIST_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving Protocol Lab denylist to localStorage:', error);
+    }
+  };
+
+  const loadBytes = (bytes: Uint8Array) => {
+    const nextSubData = new Array(SUB_DATA_LENGTH).fill(0);
+    bytes.subarray(1, 15).forEach((value, index) => {
+      nextSubData[index] = value;
+    });
+    setCommand(bytes[0]);
+    setSubData(nextSubData);
+  };
+
+  const handleHexChange = (value: string) => {
+    setHexDraft(value);
+    try {
+      const bytes = hexToBytes(value);
+      // A 16th byte is treated as a checksum and recomputed
+      if (bytes.length >= 1 && bytes.length <= 16) {
+        loadBytes(bytes);
+      }
+    } catch {
+      // Keep the draft until it parses
+    }
+  };
+
+  const handleFieldChange = (index: number, value: string) => {
+    if (!/^[0-9a-fA-F]{0,2}$/.test(value)) {
+      return;
+    }
+    const byte = value === '' ? 0 : parseInt(value, 16);
+    if (index === 0) {
+      setCommand(byte);
+    } else {
+      setSubData(previous => previous.map((existing, i) => (i === index - 1 ? byte : existing)));
+    }
+  };
+
+  const handleSend = async () => {
+    setError(null);
+
+    if (deniedReason && !isArmed) {
+      setError(`Blocked: 0x${toHexByte(command)} (${deniedReason}) is on the denylist. Arm the lab to send it.`);
+      return;
+    }
+
+    try {
+      await ringService.sendRawPacket(packet);
+      setHistory(previous => [{ sentAt: new Date(), hex: bytesToHex(packet) }, ...previous].slice(0, MAX_LOG_ENTRIES));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send command');
+    } finally {
+      // Arming covers a single send
+      setIsArmed(false);
+    }
+  };
+
+  const handleAddToDenylist = () => {
+    try {
+      const bytes = hexToBytes(denylistDraft);
+      if (bytes.length !== 1) {
+        throw new Error('Enter a single command byte, e.g. 08');
+      }
+      updateDenylist({ ...denylist, [bytes[0]]: 'Custom' });
+      setDenylistDraft('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid command byte');
+    }
+  };
+
+  const handleRemoveFromDenylist = (byte: number) => {
+    const next = { ...denylist };
+    delete next[byte];
+    updateDenylist(next);
+  };
+
+  // 0xA1 frames stream continuously while raw data mode is on
+  const visibleResponses = hideRawData
+    ? responses.filter(response => !response.hex.startsWith('a1 '))
+    : responses;
+
+  return (
+    <div className="space-y-6">
+      {/* Packet Editor */}
+      <GlassCard glow="blue" className="relative overflow-hidden">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full flex items-center justify-center">
+            <FlaskConical className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Protocol Lab
+            </h2>
+            <p className="text-sm text-gray-600">
+              Send any command byte and sub-data; the checksum is added automatically
+            </p>
+          </div>
+        </div>
+
+        {/* Field Editor */}
+        <div className="grid grid-cols-8 md:grid-cols-16 gap-1 mb-3 font-mono text-xs">
+          {Array.from(packet).map((value, index) => (
+            <label key={index} className="flex flex-col items-center gap-1">
+              <span className="text-gray-500">
+                {index === 0 ? 'cmd' : index === 15 ? 'sum' : index}
+              </span>
+              <input
+                value={toHexByte(value)}
+                onChange={(e) => handleFieldChange(index, e.target.value)}
+                readOnly={index === 15}
+                className={`w-full px-1 py-1 text-center rounded border ${
+                  index === 0
+                    ? 'border-blue-400 bg-blue-50'
+                    : index === 15
+                      ? 'border-gray-200 bg-gray-100 text-gray-500'
+                      : 'border-gray-300 bg-white'
+                } text-gray-900`}
+              />
+            </label>
+          ))}
+        </div>
+
+        {/* Hex Editor */}
+        <input
+          value={hexDraft ?? editorHex}
+          onChange={(e) => handleHexChange(e.target.value)}
+          onBlur={() => setHexDraft(null)}
+          placeholder="03 00 00 ..."
+          className="w-full px-3 py-2 mb-4 font-mono text-sm rounded border border-gray-300 bg-white text-gray-900"
+        />
+
+        {deniedReason && (
+          <GlassCard size="sm" className="bg-red-50/50 border-red-200/30 mb-4">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-red-700">
+                0x{toHexByte(command)} is denylisted ({deniedReason})
+              </span>
+              <label className="flex items-center gap-2 text-sm font-medium text-red-700">
+                <input
+                  type="checkbox"
+                  checked={isArmed}
+                  onChange={(e) => setIsArmed(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Arm for one send
+              </label>
+            </div>
+          </GlassCard>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-600 text-center mb-4">{error}</p>
+        )}
+
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={handleSend}
+          disabled={!isConnected}
+          hoverEffect="lift"
+          shadowColor={deniedReason ? 'red' : 'blue'}
+          className="w-full"
+        >
+          <Send className="h-4 w-4" />
+          Send {bytesToHex(packet)}
+        </AnimatedButton>
+      </GlassCard>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Response Log */}
+        <GlassCard glow="emerald" className="relative overflow-hidden">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Responses</h3>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={hideRawData}
+                  onChange={(e) => setHideRawData(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Hide raw sensor data
+              </label>
+              <button
+                onClick={() => setResponses([])}
+                className="p-2 rounded-lg text-gray-600 hover:bg-white/50"
+                title="Clear responses"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {visibleResponses.length > 0 ? (
+            <div className="max-h-80 overflow-y-auto space-y-2 font-mono text-xs">
+              {visibleResponses.map((response, index) => (
+                <div key={`${response.time}-${index}`}>
+                  <div className={response.checksumValid === false ? 'text-red-600' : 'text-gray-800'}>
+                    {response.description}
+                    {response.checksumValid === false && ' (bad checksum)'}
+                  </div>
+                  <div className="text-gray-500 break-all">{response.hex}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-700 text-center">
+              Frames from the ring appear here as they arrive
+            </p>
+          )}
+        </GlassCard>
+
+        {/* Sent History */}
+        <GlassCard glow="purple" className="relative overflow-hidden">
+          <div className="flex items-center gap-2 mb-4">
+            <History className="h-5 w-5 text-purple-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Sent Commands</h3>
+          </div>
+
+          {history.length > 0 ? (
+            <div className="max-h-80 overflow-y-auto space-y-1 font-mono text-xs">
+              {history.map((sent, index) => (
+                <button
+                  key={`${sent.sentAt.getTime()}-${index}`}
+                  onClick={() => loadBytes(hexToBytes(sent.hex))}
+                  className="w-full flex gap-2 text-left px-2 py-1 rounded hover:bg-white/50"
+                  title="Load into the editor"
+                >
+                  <span className="text-gray-500">{sent.sentAt.toLocaleTimeString()}</span>
+                  <span className="text-gray-800 break-all">{sent.hex}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-700 text-center">
+              Sent commands are listed here; click one to load it again
+            </p>
+          )}
+        </GlassCard>
+      </div>
+
+      {/* Denylist */}
+      <GlassCard glow="red" className="relative overflow-hidden">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-red-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Denylist</h3>
+          </div>
+          <button
+            onClick={() => updateDenylist({ ...PROTOCOL_LAB_DENYLIST })}
+            className="text-xs text-gray-600 hover:text-gray-900"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {Object.entries(denylist).map(([byte, reason]) => (
+            <span key={byte} className="flex items-center gap-1 px-3 py-1 rounded-full bg-red-100 text-red-700 text-xs font-medium">
+              0x{toHexByte(Number(byte))} {reason}
+              <button
+                onClick={() => handleRemoveFromDenylist(Number(byte))}
+                className="hover:text-red-900"
+                title="Allow this command"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {Object.keys(denylist).length === 0 && (
+            <span className="flex items-center gap-1 text-xs text-gray-600">
+              <ShieldOff className="h-4 w-4" />
+              No commands are blocked
+            </span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            value={denylistDraft}
+            onChange={(e) => setDenylistDraft(e.target.value)}
+            placeholder="Command byte, e.g. 50"
+            className="flex-1 px-3 py-2 font-mono text-sm rounded border border-gray-300 bg-white text-gray-900"
+          />
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={handleAddToDenylist}
+            disabled={denylistDraft.trim() === ''}
+            hoverEffect="lift"
+            shadowColor="red"
+          >
+            Block
+          </AnimatedButton>
+        </div>
+      </GlassCard>
+    </div>
+  );
+}
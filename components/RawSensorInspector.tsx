@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Microscope, Play, Square, Trash2 } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { AccelerometerBuffer } from '../lib/accelerometer-buffer';
+import { AccelerometerData, PpgData, SpO2RawData } from '../lib/types';
+import { useAccelerometerFrames } from '../hooks/useAccelerometerFrames';
+
+interface RawSensorInspectorProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+  isRawDataMode: boolean;
+  accelerometerBuffer: AccelerometerBuffer | null;
+  onStartRawData: () => void;
+  onStopRawData: () => void;
+}
+
+// Samples of each stream kept on screen
+const HISTORY_LENGTH = 200;
+
+interface TraceProps {
+  values: number[];
+  color: string;
+  min?: number[];
+  max?: number[];
+}
+
+/**
+ * Line plot of the most recent values, scaled to fit
+ */
+function Trace({ values, color, min, max }: TraceProps) {
+  const width = 400;
+  const height = 80;
+  const all = [...values, ...(min ?? []), ...(max ?? [])];
+  const low = Math.min(...all);
+  const high = Math.max(...all);
+  const range = high - low || 1;
+
+  const points = (series: number[]) => series
+    .map((value, index) => {
+      const x = (index / Math.max(1, HISTORY_LENGTH - 1)) * width;
+      const y = height - ((value - low) / range) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-20">
+      {min && <polyline points={points(min)} fill="none" stroke={color} strokeOpacity={0.3} strokeDasharray="4 3" />}
+      {max && <polyline points={points(max)} fill="none" stroke={color} strokeOpacity={0.3} strokeDasharray="4 3" />}
+      <polyline points={points(values)} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+/**
+ * RawSensorInspector Component
+ *
+ * Plots every stream of the ring's raw data mode side by side: the optical
+ * PPG and SpO2 sensors as well as the accelerometer. New samples are drawn
+ * at most once per animation frame.
+ */
+export function RawSensorInspector({
+  ringService,
+  isConnected,
+  isRawDataMode,
+  accelerometerBuffer,
+  onStartRawData,
+  onStopRawData
+}: RawSensorInspectorProps) {
+  const [ppg, setPpg] = useState<PpgData[]>([]);
+  const [spO2Raw, setSpO2Raw] = useState<SpO2RawData[]>([]);
+  const [motion, setMotion] = useState<AccelerometerData[]>([]);
+  const pendingPpgRef = useRef<PpgData[]>([]);
+  const pendingSpO2Ref = useRef<SpO2RawData[]>([]);
+
+  // Optical samples arrive as events; queue them and draw once per frame
+  useEffect(() => {
+    if (!isRawDataMode) {
+      return;
+    }
+
+    const unsubscribers = [
+      ringService.on('ppg', (sample) => pendingPpgRef.current.push(sample)),
+      ringService.on('spO2Raw', (sample) => pendingSpO2Ref.current.push(sample)),
+    ];
+
+    let frame = requestAnimationFrame(function flush() {
+      const newPpg = pendingPpgRef.current.splice(0);
+      const newSpO2 = pendingSpO2Ref.current.splice(0);
+      if (newPpg.length > 0) {
+        setPpg(prev => [...prev, ...newPpg].slice(-HISTORY_LENGTH));
+      }
+      if (newSpO2.length > 0) {
+        setSpO2Raw(prev => [...prev, ...newSpO2].slice(-HISTORY_LENGTH));
+      }
+      frame = requestAnimationFrame(flush);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [ringService, isRawDataMode]);
+
+  useAccelerometerFrames(accelerometerBuffer, isRawDataMode, (samples) => {
+    setMotion(prev => [...prev, ...samples].slice(-HISTORY_LENGTH));
+  });
+
+  const handleClear = () => {
+    setPpg([]);
+    setSpO2Raw([]);
+    setMotion([]);
+  };
+
+  const latestPpg = ppg[ppg.length - 1];
+  const latestSpO2 = spO2Raw[spO2Raw.length - 1];
+  const latestMotion = motion[motion.length - 1];
+
+  const streams = [
+    {
+      name: 'PPG (optical)',
+      subtype: 2,
+      color: '#10b981',
+      count: ppg.length,
+      trace: ppg.length > 1 && (
+        <Trace values={ppg.map(s => s.raw)} min={ppg.map(s => s.min)} max={ppg.map(s => s.max)} color="#10b981" />
+      ),
+      latest: latestPpg && `raw ${latestPpg.raw} · range ${latestPpg.min}-${latestPpg.max} · diff ${latestPpg.diff}`,
+    },
+    {
+      name: 'SpO2 raw',
+      subtype: 1,
+      color: '#ef4444',
+      count: spO2Raw.length,
+      trace: spO2Raw.length > 1 && <Trace values={spO2Raw.map(s => s.raw)} color="#ef4444" />,
+      latest: latestSpO2 && `raw ${latestSpO2.raw} · range ${latestSpO2.min}-${latestSpO2.max} · diff ${latestSpO2.diff}`,
+    },
+    {
+      name: 'Accelerometer (magnitude)',
+      subtype: 3,
+      color: '#3b82f6',
+      count: motion.length,
+      trace: motion.length > 1 && (
+        <Trace values={motion.map(s => Math.sqrt(s.gX * s.gX + s.gY * s.gY + s.gZ * s.gZ))} color="#3b82f6" />
+      ),
+      latest: latestMotion && `${latestMotion.gX.toFixed(2)}, ${latestMotion.gY.toFixed(2)}, ${latestMotion.gZ.toFixed(2)} g`,
+    },
+  ];
+
+  return (
+    <GlassCard glow="emerald" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-emerald-500 to-emerald-600 rounded-full flex items-center justify-center">
+            <Microscope className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Raw Sensor Inspector
+            </h2>
+            <p className="text-sm text-gray-600">
+              Every 0xA1 raw data stream, last {HISTORY_LENGTH} samples each
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Streams */}
+      <div className="space-y-3 mb-4">
+        {streams.map(stream => (
+          <GlassCard key={stream.subtype} size="sm" className="bg-white/50 border-white/30">
+            <div className="flex items-center justify-between mb-2 text-xs">
+              <span className="font-semibold" style={{ color: stream.color }}>
+                {stream.name}
+              </span>
+              <span className="text-gray-500">subtype {stream.subtype} · {stream.count} samples</span>
+            </div>
+            {stream.trace || (
+              <p className="h-20 flex items-center justify-center text-xs text-gray-700">
+                {isRawDataMode ? 'Waiting for samples...' : 'Start raw data mode to see this stream'}
+              </p>
+            )}
+            {stream.latest && (
+              <p className="mt-1 font-mono text-xs text-gray-600">{stream.latest}</p>
+            )}
+          </GlassCard>
+        ))}
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        {isRawDataMode ? (
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={onStopRawData}
+            hoverEffect="lift"
+            className="flex-1"
+          >
+            <Square className="h-4 w-4" />
+            Stop Raw Data
+          </AnimatedButton>
+        ) : (
+          <AnimatedButton
+            variant="primary"
+            size="sm"
+            onClick={onStartRawData}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="emerald"
+            className="flex-1"
+          >
+            <Play className="h-4 w-4" />
+            Start Raw Data
+          </AnimatedButton>
+        )}
+        <AnimatedButton
+          variant="secondary"
+          size="sm"
+          onClick={handleClear}
+          disabled={ppg.length === 0 && spO2Raw.length === 0 && motion.length === 0}
+          hoverEffect="lift"
+          className="flex-1"
+        >
+          <Trash2 className="h-4 w-4" />
+          Clear
+        </AnimatedButton>
+      </div>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Columns2, Heart, Play, Square, Zap } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend, ResponsiveContainer } from 'recharts';
+import { GlassCard, AnimatedButton } from './glass';
+import { RingManager } from '../lib/ring-manager';
+import { ManagedRing } from '../lib/types';
+
+interface RingComparisonProps {
+  ringManager: RingManager;
+}
+
+/**
+ * Recent readings of one ring, times in seconds relative to now
+ */
+interface RingTraces {
+  heartRate: { t: number; bpm: number }[];
+  accelerometer: { t: number; gX: number; gY: number; gZ: number }[];
+}
+
+// How far back each trace reaches
+const HEART_RATE_WINDOW_MS = 5 * 60 * 1000;
+const ACCELEROMETER_WINDOW_MS = 10 * 1000;
+// Charts redraw at this rate instead of on every sample
+const REFRESH_INTERVAL_MS = 250;
+
+const RING_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+/**
+ * Drops samples older than the window from the front of a time-ordered buffer
+ */
+function trim<T extends { time: number }>(buffer: T[], cutoff: number): void {
+  while (buffer.length > 0 && buffer[0].time < cutoff) {
+    buffer.shift();
+  }
+}
+
+/**
+ * RingComparison Component
+ *
+ * Shows heart rate from every connected ring on one chart and each ring's
+ * accelerometer trace side by side, for comparing left/right hands or two
+ * wearers in a study.
+ */
+export function RingComparison({ ringManager }: RingComparisonProps) {
+  const [rings, setRings] = useState<ManagedRing[]>(() => ringManager.getRings());
+  const [traces, setTraces] = useState<Record<string, RingTraces>>({});
+  const buffersRef = useRef<Map<string, {
+    heartRate: { time: number; bpm: number }[];
+    accelerometer: { time: number; gX: number; gY: number; gZ: number }[];
+  }>>(new Map());
+
+  useEffect(() => {
+    return ringManager.on('ringsChanged', setRings);
+  }, [ringManager]);
+
+  // Buffer every ring's readings as they arrive
+  useEffect(() => {
+    const buffers = buffersRef.current;
+    const unsubscribers: (() => void)[] = [];
+
+    for (const ring of rings) {
+      let buffer = buffers.get(ring.id);
+      if (!buffer) {
+        buffer = { heartRate: [], accelerometer: [] };
+        buffers.set(ring.id, buffer);
+      }
+      const { heartRate, accelerometer } = buffer;
+
+      unsubscribers.push(
+        ring.service.on('heartRate', (bpm) => {
+          const time = Date.now();
+          heartRate.push({ time, bpm });
+          trim(heartRate, time - HEART_RATE_WINDOW_MS);
+        }),
+        ring.service.on('accelerometer', (data) => {
+          accelerometer.push({ time: data.timestamp, gX: data.gX, gY: data.gY, gZ: data.gZ });
+          trim(accelerometer, data.timestamp - ACCELEROMETER_WINDOW_MS);
+        }),
+      );
+    }
+
+    // Forget rings that were removed
+    for (const id of Array.from(buffers.keys())) {
+      if (!rings.some(ring => ring.id === id)) {
+        buffers.delete(id);
+      }
+    }
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [rings]);
+
+  // Snapshot the buffers for rendering
+  useEffect(() => {
+    const refresh = setInterval(() => {
+      const now = Date.now();
+      const snapshot: Record<string, RingTraces> = {};
+
+      for (const [id, buffer] of buffersRef.current) {
+        snapshot[id] = {
+          heartRate: buffer.heartRate.map(({ time, bpm }) => ({ t: (time - now) / 1000, bpm })),
+          accelerometer: buffer.accelerometer.map(({ time, ...axes }) => ({ t: (time - now) / 1000, ...axes })),
+        };
+      }
+
+      setTraces(snapshot);
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(refresh);
+  }, []);
+
+  const forEachRing = async (action: (ring: ManagedRing) => Promise<void>) => {
+    await Promise.all(rings.map(async ring => {
+      try {
+        await action(ring);
+      } catch (error) {
+        console.error(`${ring.alias}:`, error);
+      }
+    }));
+  };
+
+  const latestHeartRate = (id: string): number | null => {
+    const points = traces[id]?.heartRate;
+    return points && points.length > 0 ? points[points.length - 1].bpm : null;
+  };
+
+  return (
+    <GlassCard glow="purple" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-purple-600 rounded-full flex items-center justify-center">
+            <Columns2 className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Ring Comparison
+            </h2>
+            <p className="text-sm text-gray-600">
+              {rings.length} {rings.length === 1 ? 'ring' : 'rings'} connected
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {rings.length < 2 && (
+        <p className="text-sm text-gray-600 text-center mb-4">
+          Add another ring with the ring switcher above to compare them side by side.
+        </p>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={() => forEachRing(ring => ring.service.startRealTimeHeartRate())}
+          hoverEffect="lift"
+          shadowColor="red"
+        >
+          <Heart className="h-4 w-4" />
+          Start heart rate on all
+        </AnimatedButton>
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={() => forEachRing(ring => ring.service.startRawDataMode())}
+          hoverEffect="lift"
+          shadowColor="purple"
+        >
+          <Play className="h-4 w-4" />
+          Start accelerometer on all
+        </AnimatedButton>
+        <AnimatedButton
+          variant="secondary"
+          size="sm"
+          onClick={() => forEachRing(async ring => {
+            await ring.service.stopRealTimeHeartRate();
+            await ring.service.stopRawDataMode();
+          })}
+          hoverEffect="lift"
+        >
+          <Square className="h-4 w-4" />
+          Stop all
+        </AnimatedButton>
+      </div>
+
+      {/* Heart Rate Overlay */}
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium text-gray-800">
+        <Heart className="h-4 w-4 text-red-500" />
+        Heart rate
+      </div>
+      <div className="grid gap-2 mb-2" style={{ gridTemplateColumns: `repeat(${Math.max(rings.length, 1)}, minmax(0, 1fr))` }}>
+        {rings.map((ring, index) => (
+          <div key={ring.id} className="rounded-lg bg-white/40 p-2 text-center">
+            <div className="text-xs text-gray-600" style={{ color: RING_COLORS[index % RING_COLORS.length] }}>
+              {ring.alias}
+            </div>
+            <div className="text-xl font-semibold text-gray-900">
+              {latestHeartRate(ring.id) ?? '--'} <span className="text-xs font-normal text-gray-500">BPM</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="h-48 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={[-HEART_RATE_WINDOW_MS / 1000, 0]}
+              tickFormatter={(t) => `${Math.round(Number(t))}s`}
+              tick={{ fontSize: 11 }}
+            />
+            <YAxis domain={['dataMin - 5', 'dataMax + 5']} tick={{ fontSize: 11 }} width={40} />
+            <Tooltip labelFormatter={(t) => `${Math.round(Number(t))}s`} />
+            <Legend />
+            {rings.map((ring, index) => (
+              <Line
+                key={ring.id}
+                data={traces[ring.id]?.heartRate ?? []}
+                dataKey="bpm"
+                name={ring.alias}
+                stroke={RING_COLORS[index % RING_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Accelerometer Side by Side */}
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium text-gray-800">
+        <Zap className="h-4 w-4 text-purple-500" />
+        Accelerometer (G)
+      </div>
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+        {rings.map((ring, index) => (
+          <div key={ring.id} className="rounded-lg bg-white/40 p-2">
+            <div className="text-xs font-medium mb-1" style={{ color: RING_COLORS[index % RING_COLORS.length] }}>
+              {ring.alias}
+            </div>
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={traces[ring.id]?.accelerometer ?? []}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="t"
+                    type="number"
+                    domain={[-ACCELEROMETER_WINDOW_MS / 1000, 0]}
+                    tickFormatter={(t) => `${Number(t).toFixed(0)}s`}
+                    tick={{ fontSize: 11 }}
+                  />
+                  {/* Same scale on every ring so traces can be compared */}
+                  <YAxis domain={[-4, 4]} tick={{ fontSize: 11 }} width={30} />
+                  <Line dataKey="gX" stroke="#ef4444" dot={false} isAnimationActive={false} />
+                  <Line dataKey="gY" stroke="#10b981" dot={false} isAnimationActive={false} />
+                  <Line dataKey="gZ" stroke="#3b82f6" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+    </GlassCard>
+  );
+}
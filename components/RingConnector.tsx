@@ -3,8 +3,31 @@
 import React, { useState } from 'react';
 import { Bluetooth, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import { ColmiRingService } from '../lib/colmi-ring-service';
+import { FindRingCard } from './FindRingCard';
 import { RingConnectorProps, ConnectionStatus, ConnectionError } from '../lib/types';
 
+// The silent restore runs once per page load, not again when the connector
+// remounts after the user disconnects
+let restoreAttempt: Promise<ColmiRingService | null> | null = null;
+let restoreSettled = false;
+
+/**
+ * Silently reconnects to the ring used before the page was reloaded
+ * @returns The connected service, or null if there was no ring to restore
+ */
+function restoreLastRing(): Promise<ColmiRingService | null> {
+  if (!restoreAttempt) {
+    const ringService = new ColmiRingService();
+    const restore = navigator.bluetooth ? ringService.reconnect({ maxAttempts: 1 }) : Promise.resolve(false);
+    restoreAttempt = restore
+      .then(connected => (connected ? ringService : null))
+      .finally(() => {
+        restoreSettled = true;
+      });
+  }
+  return restoreAttempt;
+}
+
 /**
  * RingConnector Component
  * 
@@ -16,6 +39,8 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
   const [status, setStatus] = useState<ConnectionStatus>('idle');
   const [error, setError] = useState<ConnectionError | null>(null);
   const [isSupported, setIsSupported] = useState<boolean>(true);
+  const [isRestoring, setIsRestoring] = useState<boolean>(() => !restoreSettled);
+  const [showFinder, setShowFinder] = useState<boolean>(false);
 
   // Check browser compatibility on component mount
   React.useEffect(() => {
@@ -28,6 +53,26 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
     }
   }, []);
 
+  // After a page reload, silently reconnect to the ring used last time
+  React.useEffect(() => {
+    let cancelled = false;
+
+    restoreLastRing().then(ringService => {
+      if (cancelled) return;
+
+      setIsRestoring(false);
+      // A restored ring the user has since disconnected is not handed out again
+      if (ringService?.isConnected()) {
+        setStatus('connected');
+        onConnect(ringService);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onConnect]);
+
   /**
    * Initiates connection to Colmi ring device
    */
@@ -90,11 +135,14 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
     setError(null);
   };
 
+  // Shown as connecting while the last ring is being restored
+  const displayStatus: ConnectionStatus = isRestoring ? 'connecting' : status;
+
   /**
    * Renders the appropriate icon based on connection status
    */
   const renderStatusIcon = () => {
-    switch (status) {
+    switch (displayStatus) {
       case 'connecting':
         return <Loader2 className="h-6 w-6 animate-spin" />;
       case 'connected':
@@ -110,7 +158,7 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
    * Gets the button text based on current status
    */
   const getButtonText = () => {
-    switch (status) {
+    switch (displayStatus) {
       case 'connecting':
         return 'Connecting...';
       case 'connected':
@@ -126,7 +174,7 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
    * Determines if the connect button should be disabled
    */
   const isButtonDisabled = () => {
-    return !isSupported || status === 'connecting' || status === 'connected';
+    return !isSupported || displayStatus === 'connecting' || displayStatus === 'connected';
   };
 
   return (
@@ -147,13 +195,13 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
 
         {/* Connection Button */}
         <button
-          onClick={status === 'error' ? handleRetry : handleConnect}
+          onClick={displayStatus === 'error' ? handleRetry : handleConnect}
           disabled={isButtonDisabled()}
           className={`
             w-full py-3 px-6 rounded-lg font-medium transition-all duration-200
             ${isButtonDisabled()
               ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-              : status === 'error'
+              : displayStatus === 'error'
               ? 'bg-red-600 hover:bg-red-700 text-white shadow-lg hover:shadow-xl'
               : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl'
             }
@@ -165,16 +213,25 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
           </div>
         </button>
 
+        {isSupported && (
+          <button
+            onClick={() => setShowFinder(show => !show)}
+            className="mt-3 w-full text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+          >
+            {showFinder ? 'Hide ring finder' : 'Lost your ring? Find it'}
+          </button>
+        )}
+
         {/* Status Messages */}
-        {status === 'connecting' && (
+        {displayStatus === 'connecting' && (
           <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <p className="text-sm text-blue-700 dark:text-blue-300 text-center">
-              Looking for your Colmi ring...
+              {isRestoring ? 'Reconnecting to your last ring...' : 'Looking for your Colmi ring...'}
             </p>
           </div>
         )}
 
-        {status === 'connected' && (
+        {displayStatus === 'connected' && (
           <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
             <p className="text-sm text-green-700 dark:text-green-300 text-center">
               Successfully connected to your ring!
@@ -216,7 +273,7 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
         )}
 
         {/* Connection Tips */}
-        {status === 'idle' && isSupported && (
+        {displayStatus === 'idle' && isSupported && (
           <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
             <h3 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">
               Connection Tips
@@ -231,6 +288,13 @@ export function RingConnector({ onConnect }: RingConnectorProps) {
           </div>
         )}
       </div>
+
+      {/* Ring Finder */}
+      {showFinder && (
+        <div className="w-full max-w-md mt-6">
+          <FindRingCard />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
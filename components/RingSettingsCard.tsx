@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Settings, Save, RotateCcw, RefreshCw } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { HeartRateLogSettings } from '../lib/types';
+
+interface RingSettingsCardProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+  onRebootRing?: () => void;
+}
+
+const INTERVAL_OPTIONS = [5, 10, 15, 30, 60];
+
+/**
+ * RingSettingsCard Component
+ *
+ * Device settings for the Advanced tab: background heart-rate logging
+ * (which the Heart Rate History card depends on) and a ring reboot.
+ */
+export function RingSettingsCard({ ringService, isConnected, onRebootRing }: RingSettingsCardProps) {
+  const [settings, setSettings] = useState<HeartRateLogSettings | null>(null);
+  const [draft, setDraft] = useState<HeartRateLogSettings>({ enabled: true, intervalMinutes: 5 });
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the current setting whenever the ring (re)connects
+  useEffect(() => {
+    if (!isConnected) {
+      return;
+    }
+
+    let cancelled = false;
+    ringService.getHeartRateLogSettings()
+      .then(current => {
+        if (!cancelled) {
+          setSettings(current);
+          setDraft(current);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to read heart rate log settings');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ringService, isConnected]);
+
+  const handleRefresh = async () => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const current = await ringService.getHeartRateLogSettings();
+      setSettings(current);
+      setDraft(current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read heart rate log settings');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const confirmed = await ringService.setHeartRateLogSettings(draft);
+      setSettings(confirmed);
+      setDraft(confirmed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update heart rate log settings');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const hasChanges = settings === null
+    || settings.enabled !== draft.enabled
+    || settings.intervalMinutes !== draft.intervalMinutes;
+
+  return (
+    <GlassCard glow="blue" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full flex items-center justify-center">
+            <Settings className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Ring Settings
+            </h2>
+            <p className="text-sm text-gray-600">
+              {settings
+                ? `Heart-rate logging ${settings.enabled ? `every ${settings.intervalMinutes} min` : 'off'}`
+                : 'Stored on the ring'}
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={handleRefresh}
+          disabled={!isConnected || isBusy}
+          className="p-2 rounded-lg text-gray-600 hover:bg-white/50 disabled:opacity-50"
+          title="Read settings from the ring"
+        >
+          <RefreshCw className={`h-4 w-4 ${isBusy ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Heart-Rate Logging */}
+      <GlassCard size="sm" className="bg-white/50 border-white/30 mb-4">
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center justify-between">
+            <span className="font-medium text-gray-800">Background heart-rate logging</span>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              disabled={!isConnected || isBusy}
+              className="h-4 w-4"
+            />
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-gray-700">Interval</span>
+            <select
+              value={draft.intervalMinutes}
+              onChange={(e) => setDraft({ ...draft, intervalMinutes: Number(e.target.value) })}
+              disabled={!isConnected || isBusy || !draft.enabled}
+              className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-900"
+            >
+              {/* Keep a non-standard interval read from the ring selectable */}
+              {[...new Set([...INTERVAL_OPTIONS, draft.intervalMinutes])]
+                .sort((a, b) => a - b)
+                .map(minutes => (
+                  <option key={minutes} value={minutes}>
+                    Every {minutes} min
+                  </option>
+                ))}
+            </select>
+          </label>
+
+          <p className="text-xs text-gray-600">
+            Shorter intervals fill the heart-rate history in more detail but drain the battery faster.
+          </p>
+        </div>
+      </GlassCard>
+
+      {error && (
+        <p className="text-xs text-red-600 text-center mb-4">{error}</p>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <AnimatedButton
+          variant="primary"
+          size="sm"
+          onClick={handleSave}
+          disabled={!isConnected || isBusy || !hasChanges}
+          hoverEffect="lift"
+          shadowColor="blue"
+          className="flex-1"
+        >
+          <Save className="h-4 w-4" />
+          Save
+        </AnimatedButton>
+        {onRebootRing && (
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={onRebootRing}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="amber"
+            className="flex-1"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reboot Ring
+          </AnimatedButton>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
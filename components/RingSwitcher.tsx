@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Check, Pencil, Plus, X } from 'lucide-react';
+import { RingManager } from '../lib/ring-manager';
+import { ManagedRing, ManagedRingStatus } from '../lib/types';
+
+interface RingSwitcherProps {
+  ringManager: RingManager;
+}
+
+const STATUS_DOT_CLASSES: Record<ManagedRingStatus, string> = {
+  connected: 'bg-green-500',
+  reconnecting: 'bg-blue-500 animate-pulse',
+  disconnected: 'bg-red-500',
+};
+
+/**
+ * Copies the manager's rings so React sees alias/status changes
+ */
+function snapshotRings(ringManager: RingManager): ManagedRing[] {
+  return ringManager.getRings().map(ring => ({ ...ring }));
+}
+
+/**
+ * RingSwitcher Component
+ *
+ * Lists every connected ring with its alias and link state, switches the
+ * ring shown by the dashboard, and adds, renames or removes rings.
+ */
+export function RingSwitcher({ ringManager }: RingSwitcherProps) {
+  const [rings, setRings] = useState<ManagedRing[]>(() => snapshotRings(ringManager));
+  const [activeId, setActiveId] = useState<string | null>(() => ringManager.getActive()?.id ?? null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftAlias, setDraftAlias] = useState<string>('');
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setRings(snapshotRings(ringManager));
+    const unsubscribers = [
+      ringManager.on('ringsChanged', refresh),
+      ringManager.on('ringStatusChanged', refresh),
+      ringManager.on('activeRingChanged', (ring) => setActiveId(ring?.id ?? null)),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [ringManager]);
+
+  const handleAddRing = async () => {
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const ring = await ringManager.connectRing();
+      if (!ring) {
+        setError('Could not connect another ring');
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const startRename = (ring: ManagedRing) => {
+    setEditingId(ring.id);
+    setDraftAlias(ring.alias);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      ringManager.rename(editingId, draftAlias);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {rings.map(ring => (
+          <div
+            key={ring.id}
+            className={`flex items-center gap-2 rounded-full border px-3 py-1.5 text-sm ${
+              ring.id === activeId
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                : 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800'
+            }`}
+          >
+            <span className={`h-2 w-2 rounded-full ${STATUS_DOT_CLASSES[ring.status]}`} title={ring.status} />
+
+            {editingId === ring.id ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  commitRename();
+                }}
+                className="flex items-center gap-1"
+              >
+                <input
+                  value={draftAlias}
+                  onChange={(e) => setDraftAlias(e.target.value)}
+                  onBlur={commitRename}
+                  autoFocus
+                  className="w-28 rounded border border-gray-300 px-1 text-sm dark:bg-gray-700"
+                  aria-label="Ring alias"
+                />
+                <button type="submit" className="text-green-600" title="Save alias">
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+              </form>
+            ) : (
+              <button
+                onClick={() => ringManager.setActive(ring.id)}
+                className="font-medium text-gray-800 dark:text-gray-200"
+                title={`Show ${ring.alias}`}
+              >
+                {ring.alias}
+              </button>
+            )}
+
+            {editingId !== ring.id && (
+              <button
+                onClick={() => startRename(ring)}
+                className="text-gray-400 hover:text-gray-700"
+                title="Rename ring"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              onClick={() => ringManager.remove(ring.id)}
+              className="text-gray-400 hover:text-red-600"
+              title={`Disconnect ${ring.alias}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={handleAddRing}
+          disabled={isAdding}
+          className="flex items-center gap-1 rounded-full border border-dashed border-gray-300 px-3 py-1.5 text-sm text-gray-600 hover:border-blue-500 hover:text-blue-600 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          {isAdding ? 'Connecting...' : 'Add ring'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
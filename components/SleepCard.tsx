@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Moon, RefreshCw } from 'lucide-react';
+import { GlassCard, AnimatedButton } from './glass';
+import { ColmiRingService } from '../lib/colmi-ring-service';
+import { SleepSession, SleepStage } from '../lib/types';
+
+interface SleepCardProps {
+  ringService: ColmiRingService;
+  isConnected: boolean;
+}
+
+// Hypnogram rows, top to bottom
+const STAGE_ROWS: { stage: SleepStage; label: string; color: string }[] = [
+  { stage: 'awake', label: 'Awake', color: 'bg-amber-400' },
+  { stage: 'rem', label: 'REM', color: 'bg-sky-400' },
+  { stage: 'light', label: 'Light', color: 'bg-indigo-400' },
+  { stage: 'deep', label: 'Deep', color: 'bg-indigo-700' },
+];
+
+/**
+ * SleepCard Component
+ *
+ * Downloads sleep sessions through the ring's big data exchange and draws
+ * last night's hypnogram with time spent in each stage.
+ */
+export function SleepCard({ ringService, isConnected }: SleepCardProps) {
+  const [session, setSession] = useState<SleepSession | null>(null);
+  const [hasLoaded, setHasLoaded] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const sessions = await ringService.getSleepHistory();
+      // Sessions are oldest first; the last one is last night
+      setSession(sessions[sessions.length - 1] ?? null);
+      setHasLoaded(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download sleep history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const formatDuration = (minutes: number) => {
+    return `${Math.floor(minutes / 60)}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+  };
+
+  const sessionStart = session?.start.getTime() ?? 0;
+  const sessionLength = session ? Math.max(session.end.getTime() - sessionStart, 1) : 1;
+
+  const minutesByStage = (stage: SleepStage) => {
+    return session?.periods
+      .filter(period => period.stage === stage)
+      .reduce((sum, period) => sum + period.durationMinutes, 0) ?? 0;
+  };
+
+  const asleepMinutes = session
+    ? session.periods.filter(period => period.stage !== 'awake').reduce((sum, period) => sum + period.durationMinutes, 0)
+    : 0;
+
+  return (
+    <GlassCard glow="purple" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-full flex items-center justify-center">
+            <Moon className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Sleep
+            </h2>
+            <p className="text-sm text-gray-600">
+              {session
+                ? `${formatTime(session.start)} - ${formatTime(session.end)} · ${formatDuration(asleepMinutes)} asleep`
+                : 'Last night\'s sleep stages'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Hypnogram */}
+      {session && session.periods.length > 0 ? (
+        <div className="mb-4">
+          <div className="space-y-1">
+            {STAGE_ROWS.map(row => (
+              <div key={row.stage} className="flex items-center gap-2">
+                <span className="w-12 text-xs text-gray-600 text-right">{row.label}</span>
+                <div className="relative flex-1 h-6 bg-white/30 rounded">
+                  {session.periods
+                    .filter(period => period.stage === row.stage)
+                    .map(period => (
+                      <div
+                        key={period.start.getTime()}
+                        className={`absolute top-0 h-full rounded-sm ${row.color}`}
+                        style={{
+                          left: `${((period.start.getTime() - sessionStart) / sessionLength) * 100}%`,
+                          width: `${Math.max((period.durationMinutes * 60000 / sessionLength) * 100, 0.5)}%`,
+                        }}
+                        title={`${row.label}: ${formatTime(period.start)}, ${period.durationMinutes} min`}
+                      />
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between ml-14 mt-1 text-xs text-gray-500">
+            <span>{formatTime(session.start)}</span>
+            <span>{formatTime(session.end)}</span>
+          </div>
+        </div>
+      ) : (
+        <GlassCard size="sm" className="bg-white/50 border-white/30 mb-4">
+          <p className="text-xs text-gray-700 text-center">
+            {hasLoaded
+              ? 'No sleep recorded on the ring. Wear it overnight to collect sleep stages.'
+              : 'Click "Load Sleep" to download sleep stages from the ring'}
+          </p>
+        </GlassCard>
+      )}
+
+      {/* Stage Totals */}
+      {session && session.periods.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mb-4 text-center">
+          {STAGE_ROWS.map(row => (
+            <div key={row.stage}>
+              <div className="text-xs text-gray-600">{row.label}</div>
+              <div className="text-sm font-semibold text-gray-900">{formatDuration(minutesByStage(row.stage))}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 text-center mb-4">{error}</p>
+      )}
+
+      {/* Load Button */}
+      <AnimatedButton
+        variant="primary"
+        size="sm"
+        onClick={handleLoad}
+        disabled={!isConnected || isLoading}
+        hoverEffect="lift"
+        shadowColor="purple"
+        className="w-full"
+      >
+        <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        {isLoading ? 'Downloading...' : 'Load Sleep'}
+      </AnimatedButton>
+    </GlassCard>
+  );
+}
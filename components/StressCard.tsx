@@ -0,0 +1,132 @@
+'use client';
+
+import React from 'react';
+import { Brain, Play, Square, RefreshCw } from 'lucide-react';
+import { GlassCard, MetricDisplay, StatusIndicator, AnimatedButton } from './glass';
+import { StressReading } from '../lib/types';
+
+interface StressCardProps {
+  stress?: StressReading | null;
+  isConnected: boolean;
+  isStressMonitoring: boolean;
+  onStartStress: () => void;
+  onStopStress: () => void;
+}
+
+/**
+ * StressCard Component
+ *
+ * Real-time stress level from the ring (REAL_TIME_READINGS.PRESSURE).
+ * Fatigue readings share the same 1-100 scale and are shown here too.
+ */
+export function StressCard({
+  stress,
+  isConnected,
+  isStressMonitoring,
+  onStartStress,
+  onStopStress
+}: StressCardProps) {
+  const getStressLabel = (level: number) => {
+    if (level < 30) return 'Relaxed';
+    if (level < 60) return 'Normal';
+    if (level < 80) return 'Medium';
+    return 'High';
+  };
+
+  const getStressStatusForMetric = (value: StressReading | null): 'success' | 'warning' | 'error' | 'neutral' => {
+    if (value === null) return 'neutral';
+    if (value.level < 60) return 'success';
+    if (value.level < 80) return 'warning';
+    return 'error';
+  };
+
+  return (
+    <GlassCard glow="amber" className="relative overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-amber-500 to-amber-600 rounded-full flex items-center justify-center">
+            <Brain className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Stress
+            </h2>
+            <p className="text-sm text-gray-600">
+              {stress ? `${getStressLabel(stress.level)} (${stress.kind})` : 'Real-time stress level'}
+            </p>
+          </div>
+        </div>
+
+        <StatusIndicator
+          status={isStressMonitoring ? 'active' : 'neutral'}
+          pulse={isStressMonitoring}
+        />
+      </div>
+
+      {/* Metric Display */}
+      <MetricDisplay
+        value={stress?.level ?? null}
+        unit="/ 100"
+        label={stress?.kind === 'fatigue' ? 'Fatigue Level' : 'Stress Level'}
+        status={getStressStatusForMetric(stress ?? null)}
+        className="mb-6"
+      />
+
+      {/* Control Buttons */}
+      <div className="flex gap-2 mb-4">
+        {!isStressMonitoring ? (
+          <AnimatedButton
+            variant="primary"
+            size="sm"
+            onClick={onStartStress}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="amber"
+            className="flex-1"
+          >
+            <Play className="h-4 w-4" />
+            Start Stress
+          </AnimatedButton>
+        ) : (
+          <AnimatedButton
+            variant="secondary"
+            size="sm"
+            onClick={onStopStress}
+            disabled={!isConnected}
+            hoverEffect="lift"
+            shadowColor="red"
+            className="flex-1 bg-red-500 hover:bg-red-600 text-white border-red-500/20"
+          >
+            <Square className="h-4 w-4" />
+            Stop Stress
+          </AnimatedButton>
+        )}
+      </div>
+
+      {/* Monitoring Status */}
+      {isStressMonitoring && (
+        <GlassCard size="sm" className="mb-4 bg-amber-50/50 border-amber-200/30">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4 text-amber-600 animate-spin" />
+            <span className="text-sm font-medium text-amber-800">
+              Measuring stress level...
+            </span>
+          </div>
+          <p className="text-xs text-amber-600 mt-1">
+            Sit still and breathe normally for the best reading
+          </p>
+        </GlassCard>
+      )}
+
+      {/* Connection Status */}
+      {!isConnected && (
+        <GlassCard size="sm" className="bg-red-50/50 border-red-200/30">
+          <p className="text-sm text-red-700 text-center">
+            Ring disconnected - stress monitoring unavailable
+          </p>
+        </GlassCard>
+      )}
+    </GlassCard>
+  );
+}
@@ -3,6 +3,7 @@
  */
 
 export { RingConnector } from './RingConnector';
+export { FindRingCard } from './FindRingCard';
 export { DataDashboard } from './DataDashboard';
 export { Tabs } from './Tabs';
 
@@ -20,7 +21,19 @@ export { DrawingCanvas } from './DrawingCanvas';
 export { PointerControl } from './PointerControl';
 export { SpO2Card } from './SpO2Card';
 export { HeartRateCard } from './HeartRateCard';
+export { HeartRateHistoryCard } from './HeartRateHistoryCard';
+export { SleepCard } from './SleepCard';
+export { HrvCard } from './HrvCard';
+export { BloodPressureCard } from './BloodPressureCard';
+export { StressCard } from './StressCard';
 export { StepsCard } from './StepsCard';
 export { BatteryCard } from './BatteryCard';
 export { StatusFooter } from './StatusFooter';
 export { DebugInfo } from './DebugInfo';
+export { RingSettingsCard } from './RingSettingsCard';
+export { PacketCaptureCard } from './PacketCaptureCard';
+export { RawSensorInspector } from './RawSensorInspector';
+export { PpgHeartRateCard } from './PpgHeartRateCard';
+export { ProtocolLab } from './ProtocolLab';
+export { RingSwitcher } from './RingSwitcher';
+export { RingComparison } from './RingComparison';
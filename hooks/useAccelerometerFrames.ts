@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { AccelerometerBuffer } from '../lib/accelerometer-buffer';
+import { AccelerometerData } from '../lib/types';
+
+/**
+ * Reads the accelerometer buffer once per animation frame
+ *
+ * Calls onFrame with every sample received since the previous frame, so a
+ * component renders at most once per frame however fast packets arrive.
+ * Frames without new samples are skipped.
+ * @param buffer - Buffer from ColmiRingService.getAccelerometerBuffer()
+ * @param enabled - Whether to read, e.g. while raw data mode is on
+ * @param onFrame - Called with the new samples, oldest first
+ */
+export function useAccelerometerFrames(
+  buffer: AccelerometerBuffer | null | undefined,
+  enabled: boolean,
+  onFrame: (samples: AccelerometerData[]) => void
+): void {
+  const onFrameRef = useRef(onFrame);
+
+  // Always call the latest handler without restarting the frame loop
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  });
+
+  useEffect(() => {
+    if (!buffer || !enabled) {
+      return;
+    }
+
+    // Start from the newest sample so the first frame has something to show
+    let sequence = Math.max(0, buffer.sequence - 1);
+    let frame = requestAnimationFrame(function readFrame() {
+      const batch = buffer.read(sequence);
+      sequence = batch.sequence;
+      if (batch.samples.length > 0) {
+        onFrameRef.current(batch.samples);
+      }
+      frame = requestAnimationFrame(readFrame);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [buffer, enabled]);
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { MotionProcessor } from '../lib/motion-processor';
+import { MotionPipelineConfig } from '../lib/types';
+
+/**
+ * Creates a MotionProcessor for the component's lifetime
+ *
+ * Feed it with useAccelerometerFrames() and subscribe to its events; the
+ * worker is stopped on unmount.
+ * @param config - Pipeline settings; memoize it, every new object reconfigures the worker
+ * @returns MotionProcessor - The same processor on every render
+ */
+export function useMotionProcessor(config: Partial<MotionPipelineConfig>): MotionProcessor {
+  const [processor] = useState(() => new MotionProcessor());
+
+  useEffect(() => {
+    processor.configure(config);
+  }, [processor, config]);
+
+  useEffect(() => () => processor.dispose(), [processor]);
+
+  return processor;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AccelerometerBuffer } from '../accelerometer-buffer';
+import { AccelerometerData } from '../types';
+import { accelerometerSample } from './fixtures/accelerometer';
+
+/**
+ * Sample with a different value in every field, so swapped columns show up
+ */
+function sample(n: number): AccelerometerData {
+  return accelerometerSample({
+    rawX: n,
+    rawY: -n,
+    rawZ: 2 * n,
+    gX: n / 512,
+    gY: -n / 512,
+    gZ: n / 256,
+    rotateX: n / 100,
+    rotateY: -n / 100,
+    rotateZ: n / 50,
+    timestamp: 1_700_000_000_000 + n,
+  });
+}
+
+describe('AccelerometerBuffer', () => {
+  it('round-trips every field', () => {
+    const buffer = new AccelerometerBuffer(4);
+    buffer.push(sample(7));
+
+    expect(buffer.latest()).toEqual(sample(7));
+    expect(buffer.size).toBe(1);
+  });
+
+  it('reads only samples newer than the last read', () => {
+    const buffer = new AccelerometerBuffer(4);
+    buffer.push(sample(1));
+    const first = buffer.read();
+
+    buffer.push(sample(2));
+    buffer.push(sample(3));
+    const second = buffer.read(first.sequence);
+
+    expect(first.samples).toEqual([sample(1)]);
+    expect(second.samples).toEqual([sample(2), sample(3)]);
+    expect(buffer.read(second.sequence).samples).toEqual([]);
+  });
+
+  it('overwrites the oldest samples once full and reports what a slow reader missed', () => {
+    const buffer = new AccelerometerBuffer(3);
+    const since = buffer.sequence;
+    for (let n = 1; n <= 5; n++) {
+      buffer.push(sample(n));
+    }
+
+    const batch = buffer.read(since);
+
+    expect(buffer.size).toBe(3);
+    expect(batch.samples).toEqual([sample(3), sample(4), sample(5)]);
+    expect(batch.dropped).toBe(2);
+    expect(batch.sequence).toBe(5);
+  });
+
+  it('keeps counting sequence numbers after clear', () => {
+    const buffer = new AccelerometerBuffer(4);
+    buffer.push(sample(1));
+    buffer.clear();
+
+    expect(buffer.latest()).toBeNull();
+    expect(buffer.read(0)).toEqual({ samples: [], sequence: 1, dropped: 0 });
+
+    buffer.push(sample(2));
+    expect(buffer.read(0).samples).toEqual([sample(2)]);
+  });
+});
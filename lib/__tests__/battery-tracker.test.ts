@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { BatteryTracker } from '../battery-tracker';
+import { UsageMode } from '../types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Records one reading every `step` minutes, starting at `start`
+ */
+function recordLevels(
+  tracker: BatteryTracker,
+  levels: number[],
+  { start = 0, step = 10, charging = false, mode = 'idle' as UsageMode } = {}
+): number {
+  levels.forEach((level, index) => tracker.record({ level, charging }, mode, start + index * step * MINUTE));
+  return start + (levels.length - 1) * step * MINUTE;
+}
+
+describe('BatteryTracker', () => {
+  describe('charge sessions', () => {
+    it('finds a finished session between discharging readings', () => {
+      const tracker = new BatteryTracker();
+      let time = recordLevels(tracker, [40, 39]);
+      time = recordLevels(tracker, [45, 60, 75], { start: time + 10 * MINUTE, charging: true });
+      recordLevels(tracker, [75], { start: time + 10 * MINUTE });
+
+      expect(tracker.getChargeSessions()).toEqual([
+        { start: 20 * MINUTE, end: 50 * MINUTE, startLevel: 45, endLevel: 75 },
+      ]);
+    });
+
+    it('leaves the last session open while still charging', () => {
+      const tracker = new BatteryTracker();
+      recordLevels(tracker, [20, 30], { charging: true });
+
+      expect(tracker.getChargeSessions()).toEqual([
+        { start: 0, end: null, startLevel: 20, endLevel: 30 },
+      ]);
+    });
+
+    it('predicts time to full from the current charge rate', () => {
+      const tracker = new BatteryTracker();
+      // 30% in 30 minutes: 60% per hour
+      recordLevels(tracker, [40, 50, 60, 70], { charging: true });
+
+      const analytics = tracker.getAnalytics('idle');
+      expect(analytics.charging).toBe(true);
+      expect(analytics.chargeRate).toBeCloseTo(60);
+      expect(analytics.timeToFullMs).toBeCloseTo(0.5 * HOUR);
+      expect(analytics.timeToEmptyMs).toBeNull();
+    });
+  });
+
+  describe('drain rate', () => {
+    it('needs enough observation time before estimating', () => {
+      const tracker = new BatteryTracker();
+      recordLevels(tracker, [80, 79], { step: 10 });
+
+      expect(tracker.getAnalytics('idle').drainRates.idle).toBeNull();
+    });
+
+    it('measures percent per hour and predicts time to empty', () => {
+      const tracker = new BatteryTracker();
+      // 4% over 2 hours: 2% per hour
+      recordLevels(tracker, [80, 79, 78, 77, 76], { step: 30 });
+
+      const analytics = tracker.getAnalytics('idle');
+      expect(analytics.drainRates.idle).toBeCloseTo(2);
+      expect(analytics.level).toBe(76);
+      expect(analytics.timeToEmptyMs).toBeCloseTo(38 * HOUR);
+    });
+
+    it('ignores charging intervals and gaps while disconnected', () => {
+      const tracker = new BatteryTracker();
+      let time = recordLevels(tracker, [80, 79, 78], { step: 15 });
+      // Two hours without readings
+      time = recordLevels(tracker, [70, 69, 68], { start: time + 2 * HOUR, step: 15 });
+      time = recordLevels(tracker, [75, 90], { start: time + 15 * MINUTE, step: 15, charging: true });
+      recordLevels(tracker, [90], { start: time + 15 * MINUTE });
+
+      // Only the four 15-minute drops of 1% count
+      expect(tracker.getAnalytics('idle').drainRates.idle).toBeCloseTo(4);
+    });
+  });
+
+  describe('usage modes', () => {
+    it('keeps a separate drain rate for each mode', () => {
+      const tracker = new BatteryTracker();
+      const time = recordLevels(tracker, [90, 89, 88], { step: 30 });
+      recordLevels(tracker, [86, 80, 74], { start: time + 30 * MINUTE, step: 30, mode: 'rawAccelerometer' });
+
+      const { drainRates } = tracker.getAnalytics('rawAccelerometer');
+      // The interval from the last idle reading counts as idle
+      expect(drainRates.idle).toBeCloseTo(4 / 1.5);
+      expect(drainRates.rawAccelerometer).toBeCloseTo(12);
+      expect(drainRates.liveHeartRate).toBeNull();
+    });
+
+    it('predicts time to empty for the current mode', () => {
+      const tracker = new BatteryTracker();
+      const time = recordLevels(tracker, [90, 89, 88], { step: 30 });
+      recordLevels(tracker, [86, 80, 74], { start: time + 30 * MINUTE, step: 30, mode: 'rawAccelerometer' });
+
+      expect(tracker.getAnalytics('rawAccelerometer').timeToEmptyMs).toBeCloseTo((74 / 12) * HOUR);
+    });
+
+    it('falls back to the idle rate for a mode without enough data', () => {
+      const tracker = new BatteryTracker();
+      recordLevels(tracker, [80, 79, 78, 77, 76], { step: 30 });
+
+      const analytics = tracker.getAnalytics('liveHeartRate');
+      expect(analytics.currentMode).toBe('liveHeartRate');
+      expect(analytics.timeToEmptyMs).toBeCloseTo(38 * HOUR);
+    });
+  });
+
+  it('drops readings older than two days', () => {
+    const tracker = new BatteryTracker();
+    tracker.record({ level: 90, charging: false }, 'idle', 0);
+    tracker.record({ level: 50, charging: false }, 'idle', 49 * HOUR);
+
+    expect(tracker.getHistory()).toEqual([{ timestamp: 49 * HOUR, level: 50, charging: false, mode: 'idle' }]);
+  });
+
+  it('forgets everything on clear', () => {
+    const tracker = new BatteryTracker();
+    recordLevels(tracker, [80, 79, 78]);
+
+    tracker.clear();
+
+    expect(tracker.getHistory()).toEqual([]);
+    expect(tracker.getAnalytics('idle')).toMatchObject({ level: null, charging: false, timeToEmptyMs: null });
+  });
+});
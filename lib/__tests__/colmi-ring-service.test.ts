@@ -0,0 +1,709 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ColmiRingService } from '../colmi-ring-service';
+import { COLMI_COMMANDS, REAL_TIME_READINGS } from '../constants';
+import { PacketCaptureFile, SampleRateStats } from '../types';
+import { createFakeRing, fakeRingResponder, writtenCommands, type FakeRingReplies } from './fixtures/fake-ring';
+import { FRAMES, frame } from './fixtures/packets';
+
+/**
+ * Connects to a fake ring, waits out the battery read made on connect and
+ * then switches the ring over to the given replies
+ */
+async function connectFakeRing(replies: FakeRingReplies = {}) {
+  const ring = createFakeRing();
+  const service = new ColmiRingService(ring);
+  await service.connect();
+  // Queued behind the initial battery poll
+  await service.getBattery();
+  ring.setResponder(fakeRingResponder(replies));
+  return { ring, service };
+}
+
+describe('ColmiRingService with an in-memory ring', () => {
+  beforeEach(() => {
+    // The service logs every step of the protocol
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('connect', () => {
+    it('subscribes, reads device info and syncs the clock', async () => {
+      const ring = createFakeRing();
+      const service = new ColmiRingService(ring);
+      const onDeviceInfo = vi.fn();
+      const onTimeSync = vi.fn();
+      service.on('deviceInfo', onDeviceInfo);
+      service.on('timeSync', onTimeSync);
+
+      await expect(service.connect()).resolves.toBe(true);
+
+      expect(service.isConnected()).toBe(true);
+      expect(ring.subscriberCount).toBe(1);
+      expect(onDeviceInfo).toHaveBeenCalledWith(ring.deviceInfo);
+      expect(service.getDeviceInfo()).toEqual(ring.deviceInfo);
+      expect(onTimeSync).toHaveBeenCalledWith(expect.objectContaining({ driftMs: null, driftDetected: false }));
+      // Steps are read to measure drift before the clock is set
+      expect(writtenCommands(ring).slice(0, 2)).toEqual([COLMI_COMMANDS.STEPS, COLMI_COMMANDS.SET_TIME]);
+
+      await service.disconnect();
+    });
+
+    describe('clock drift', () => {
+      /**
+       * Connects to a ring whose newest step interval starts 2024-03-15 10:00 UTC
+       */
+      async function connectAt(hostTime: string) {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(hostTime));
+        const ring = createFakeRing({ [COLMI_COMMANDS.STEPS]: [FRAMES.stepsHeader, FRAMES.stepsLastInterval] });
+        const service = new ColmiRingService(ring);
+        const onSteps = vi.fn();
+        service.on('steps', onSteps);
+        await service.connect();
+        return { service, onSteps };
+      }
+
+      it('reports a ring running ahead', async () => {
+        const { service } = await connectAt('2024-03-15T09:05:00Z');
+
+        expect(service.getLastTimeSync()).toMatchObject({ driftMs: 60 * 60 * 1000, driftDetected: true });
+        await service.disconnect();
+      });
+
+      it('reports no drift when the newest interval is the current one', async () => {
+        const { service } = await connectAt('2024-03-15T10:05:00Z');
+
+        expect(service.getLastTimeSync()).toMatchObject({ driftMs: 0, driftDetected: false });
+        await service.disconnect();
+      });
+
+      it('reports an older newest interval as drift behind without flagging it', async () => {
+        const { service } = await connectAt('2024-03-15T12:05:00Z');
+
+        expect(service.getLastTimeSync()).toMatchObject({ driftMs: -2 * 60 * 60 * 1000, driftDetected: false });
+        await service.disconnect();
+      });
+
+      it('measures without reporting the steps it read', async () => {
+        const { service, onSteps } = await connectAt('2024-03-15T10:05:00Z');
+
+        expect(onSteps).not.toHaveBeenCalled();
+        await service.disconnect();
+      });
+
+      it('does not report steps when the ring has none for today', async () => {
+        const ring = createFakeRing();
+        const service = new ColmiRingService(ring);
+        const onSteps = vi.fn();
+        service.on('steps', onSteps);
+
+        await service.connect();
+
+        expect(service.getLastTimeSync()?.driftMs).toBeNull();
+        expect(onSteps).not.toHaveBeenCalled();
+        await service.disconnect();
+      });
+    });
+
+    it('returns false when the transport fails to connect', async () => {
+      const ring = createFakeRing();
+      vi.spyOn(ring, 'connect').mockRejectedValue(new Error('User cancelled the requestDevice() chooser.'));
+      const service = new ColmiRingService(ring);
+
+      await expect(service.connect()).resolves.toBe(false);
+      expect(service.isConnected()).toBe(false);
+    });
+  });
+
+  describe('notifications', () => {
+    let ring: ReturnType<typeof createFakeRing>;
+    let service: ColmiRingService;
+
+    beforeEach(async () => {
+      ring = createFakeRing();
+      service = new ColmiRingService(ring);
+      await service.connect();
+    });
+
+    afterEach(async () => {
+      await service.disconnect();
+    });
+
+    it('emits battery readings and records them', () => {
+      const onBattery = vi.fn();
+      service.on('battery', onBattery);
+      const recorded = service.getBatteryHistory().length;
+
+      ring.receive(frame(FRAMES.batteryCharging));
+
+      expect(onBattery).toHaveBeenCalledWith({ level: 100, charging: true });
+      expect(service.getBatteryHistory()).toHaveLength(recorded + 1);
+    });
+
+    it('emits real-time readings and passes them to the data callback', async () => {
+      const onHeartRate = vi.fn();
+      const onSpO2 = vi.fn();
+      const onData = vi.fn();
+      service.on('heartRate', onHeartRate);
+      service.on('spO2', onSpO2);
+      await service.startNotifications(onData);
+
+      ring.receive(frame(FRAMES.heartRate));
+      ring.receive(frame(FRAMES.spO2));
+
+      expect(onHeartRate).toHaveBeenCalledWith(72);
+      expect(onSpO2).toHaveBeenCalledWith(98);
+      expect(onData).toHaveBeenCalledWith(expect.objectContaining({ heartRate: 72 }));
+    });
+
+    it('emits accelerometer samples to events and the accelerometer callback', async () => {
+      const onAccelerometer = vi.fn();
+      const accelerometerCallback = vi.fn();
+      service.on('accelerometer', onAccelerometer);
+      await service.startNotifications(() => undefined, accelerometerCallback);
+
+      ring.receive(frame(FRAMES.accelerometer));
+
+      const expected = expect.objectContaining({ rawX: 1024, rawY: 256, rawZ: -512 });
+      expect(onAccelerometer).toHaveBeenCalledWith(expected);
+      expect(accelerometerCallback).toHaveBeenCalledWith(expected);
+    });
+
+    it('writes accelerometer samples to the buffer', () => {
+      const buffer = service.getAccelerometerBuffer();
+      const since = buffer.sequence;
+
+      ring.receive(frame(FRAMES.accelerometer));
+      ring.receive(frame(FRAMES.accelerometer));
+
+      const batch = buffer.read(since);
+      expect(batch.samples).toHaveLength(2);
+      expect(batch.samples[1]).toMatchObject({ rawX: 1024, rawY: 256, rawZ: -512 });
+    });
+
+    it('emits raw optical samples as their own streams', () => {
+      const onPpg = vi.fn();
+      const onSpO2Raw = vi.fn();
+      service.on('ppg', onPpg);
+      service.on('spO2Raw', onSpO2Raw);
+
+      ring.receive(frame(FRAMES.ppg));
+      ring.receive(frame(FRAMES.spO2Raw));
+
+      expect(onPpg).toHaveBeenCalledWith(expect.objectContaining({ raw: 4660, min: 4096, max: 8192 }));
+      expect(onSpO2Raw).toHaveBeenCalledWith(expect.objectContaining({ raw: 800, min: 90, max: 98 }));
+    });
+
+    it('band-passes PPG samples for beat detection', () => {
+      const onFiltered = vi.fn();
+      service.on('ppgFiltered', onFiltered);
+
+      ring.receive(frame(FRAMES.ppg));
+      ring.receive(frame(FRAMES.ppg));
+
+      expect(onFiltered).toHaveBeenCalledTimes(2);
+      // A constant signal has nothing in the pass band
+      expect(onFiltered.mock.calls[1][0].value).toBeCloseTo(0);
+      expect(service.getPpgHeartRateStats()).toEqual({ heartRate: null, rmssd: null, sdnn: null, intervals: 0 });
+    });
+
+    it('measures accelerometer timing and reports it', () => {
+      const onSampleRate = vi.fn();
+      service.on('sampleRate', onSampleRate);
+
+      ring.receive(frame(FRAMES.accelerometer));
+      ring.receive(frame(FRAMES.accelerometer));
+
+      expect(onSampleRate).toHaveBeenCalledTimes(1);
+      expect(service.getSampleRateStats()).toMatchObject({ samples: 2, gaps: 0, resampleRateHz: null });
+    });
+
+    it('keeps reporting accelerometer timing while the stream is stalled', async () => {
+      vi.useFakeTimers();
+      let now = 0;
+      vi.spyOn(performance, 'now').mockImplementation(() => now);
+      const reports: SampleRateStats[] = [];
+      service.on('sampleRate', stats => reports.push(stats));
+
+      await service.startRawDataMode();
+      // Reported straight after the reset
+      expect(reports).toEqual([expect.objectContaining({ samples: 0, openGapMs: null })]);
+
+      for (; now <= 160; now += 40) {
+        ring.receive(frame(FRAMES.accelerometer));
+      }
+      now = 3160;
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(reports).toHaveLength(4);
+      expect(reports[3]).toMatchObject({ samples: 5, openGapMs: 3000 });
+
+      await service.stopRawDataMode();
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(reports).toHaveLength(4);
+    });
+
+    it('resamples accelerometer samples to a fixed rate when asked', () => {
+      service.setAccelerometerResampleRate(25);
+      const onAccelerometer = vi.fn();
+      service.on('accelerometer', onAccelerometer);
+
+      ring.receive(frame(FRAMES.accelerometer));
+
+      expect(onAccelerometer).toHaveBeenCalledTimes(1);
+      expect(service.getSampleRateStats().resampleRateHz).toBe(25);
+    });
+
+    it('stores unsolicited steps intervals under their own date', () => {
+      const onInterval = vi.fn();
+      service.on('stepsInterval', onInterval);
+
+      ring.receive(frame(FRAMES.stepsInterval));
+
+      expect(onInterval).toHaveBeenCalledWith(expect.objectContaining({ steps: 1000, timeIndex: 40 }));
+      expect(service.getStepHistory()).toContainEqual(expect.objectContaining({ date: '2024-03-15', totalSteps: 1000 }));
+    });
+
+    it('reports every frame as a raw packet but ignores corrupt ones', () => {
+      const onRawPacket = vi.fn();
+      const onBattery = vi.fn();
+      service.on('rawPacket', onRawPacket);
+      service.on('battery', onBattery);
+
+      const corrupt = frame(FRAMES.batteryResponse);
+      corrupt[15] ^= 0xff;
+      ring.receive(corrupt);
+
+      expect(onRawPacket).toHaveBeenCalledWith(corrupt);
+      expect(onBattery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requests', () => {
+    it('resolves with the decoded response', async () => {
+      const { service } = await connectFakeRing();
+
+      await expect(service.getBattery()).resolves.toEqual({ level: 64, charging: false });
+
+      await service.disconnect();
+    });
+
+    it('rejects when the ring returns an error response', async () => {
+      const { service } = await connectFakeRing({ [COLMI_COMMANDS.BATTERY]: [FRAMES.batteryError] });
+
+      await expect(service.getBattery({ retries: 0 })).rejects.toThrow('Ring returned an error for command 3');
+
+      await service.disconnect();
+    });
+
+    it('re-sends on timeout and gives up after the retries', async () => {
+      const { ring, service } = await connectFakeRing({ [COLMI_COMMANDS.BATTERY]: [] });
+      const before = writtenCommands(ring).length;
+
+      await expect(service.getBattery({ timeoutMs: 20, retries: 2 }))
+        .rejects.toThrow('Timed out waiting for battery request response');
+
+      expect(writtenCommands(ring).slice(before)).toEqual([
+        COLMI_COMMANDS.BATTERY,
+        COLMI_COMMANDS.BATTERY,
+        COLMI_COMMANDS.BATTERY,
+      ]);
+
+      await service.disconnect();
+    });
+
+    it('succeeds when a retry is answered', async () => {
+      const { ring, service } = await connectFakeRing();
+
+      // Drop the first battery request, answer the next one
+      let batteryRequests = 0;
+      ring.setResponder((written, transport) => {
+        if (written[0] === COLMI_COMMANDS.BATTERY && ++batteryRequests > 1) {
+          transport.receive(frame(FRAMES.batteryResponse));
+        }
+      });
+
+      await expect(service.getBattery({ timeoutMs: 20, retries: 1 })).resolves.toEqual({ level: 64, charging: false });
+      expect(batteryRequests).toBe(2);
+
+      await service.disconnect();
+    });
+
+    it('refuses requests while disconnected', async () => {
+      const service = new ColmiRingService(createFakeRing());
+
+      await expect(service.getBattery()).rejects.toThrow('Ring is not connected');
+    });
+  });
+
+  describe('capture replay', () => {
+    /**
+     * Capture of the given frames as received on the command channel
+     */
+    function captureOf(...frames: string[]): PacketCaptureFile {
+      return {
+        version: 1,
+        startedAt: '2024-03-15T10:00:00.000Z',
+        device: null,
+        packets: frames.map((hex, index) => ({
+          time: index * 100,
+          direction: 'rx',
+          channel: 'command',
+          hex,
+          description: '',
+          checksumValid: true,
+        })),
+      };
+    }
+
+    it('emits replayed frames without answering a pending request', async () => {
+      const { ring, service } = await connectFakeRing({ [COLMI_COMMANDS.BATTERY]: [] });
+      const onBattery = vi.fn();
+      service.on('battery', onBattery);
+      const recorded = service.getBatteryHistory().length;
+
+      const written = ring.writtenFrames.length;
+      const pending = service.getBattery({ timeoutMs: 5000 });
+      await vi.waitFor(() => expect(ring.writtenFrames.length).toBe(written + 1));
+      await service.replayCapture(captureOf(FRAMES.batteryCharging));
+
+      expect(onBattery).toHaveBeenCalledWith({ level: 100, charging: true });
+      expect(service.getBatteryHistory()).toHaveLength(recorded);
+
+      ring.receive(frame(FRAMES.batteryResponse));
+      await expect(pending).resolves.toEqual({ level: 64, charging: false });
+
+      await service.disconnect();
+    });
+
+    it('emits replayed steps intervals without storing them', async () => {
+      const { service } = await connectFakeRing();
+      const onInterval = vi.fn();
+      service.on('stepsInterval', onInterval);
+
+      await service.replayCapture(captureOf(FRAMES.stepsInterval));
+
+      expect(onInterval).toHaveBeenCalledWith(expect.objectContaining({ steps: 1000, timeIndex: 40 }));
+      expect(service.getStepHistory()).toEqual([]);
+
+      await service.disconnect();
+    });
+  });
+
+  describe('disconnect cleanup', () => {
+    it('fails pending requests when the link drops', async () => {
+      const { ring, service } = await connectFakeRing({ [COLMI_COMMANDS.BATTERY]: [] });
+      vi.spyOn(ring, 'reconnect').mockRejectedValue(new Error('GATT Server is disconnected'));
+      const onDisconnected = vi.fn();
+      service.on('disconnected', onDisconnected);
+
+      const written = ring.writtenFrames.length;
+      const pending = service.getBattery({ timeoutMs: 5000 });
+      // Let the request reach the ring before the link drops
+      await vi.waitFor(() => expect(ring.writtenFrames.length).toBe(written + 1));
+      ring.simulateDisconnect();
+
+      await expect(pending).rejects.toThrow('Ring disconnected before responding');
+      expect(onDisconnected).toHaveBeenCalledTimes(1);
+      expect(service.isConnected()).toBe(false);
+      expect(ring.subscriberCount).toBe(0);
+
+      service.cancelReconnect();
+    });
+
+    it('ends real-time sessions and leaves no timers running', async () => {
+      vi.useFakeTimers();
+      const ring = createFakeRing();
+      const service = new ColmiRingService(ring);
+      await service.connect();
+      await service.startRealTimeReading(REAL_TIME_READINGS.HEART_RATE);
+
+      expect(service.getActiveRealTimeReadings()).toEqual([REAL_TIME_READINGS.HEART_RATE]);
+      expect(vi.getTimerCount()).toBeGreaterThan(0);
+
+      await service.disconnect();
+
+      expect(service.getActiveRealTimeReadings()).toEqual([]);
+      expect(service.isHeartRateMonitoring()).toBe(false);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('stops delivering frames after disconnecting', async () => {
+      const ring = createFakeRing();
+      const service = new ColmiRingService(ring);
+      const onBattery = vi.fn();
+      service.on('battery', onBattery);
+      await service.connect();
+      await service.disconnect();
+
+      await ring.connect();
+      ring.receive(frame(FRAMES.batteryResponse));
+
+      expect(onBattery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('silent reconnect', () => {
+    it('reconnects without the chooser after the link drops', async () => {
+      const { ring, service } = await connectFakeRing();
+      const connect = vi.spyOn(ring, 'connect');
+      const onReconnecting = vi.fn();
+      const onReconnected = vi.fn();
+      service.on('reconnecting', onReconnecting);
+      service.on('reconnected', onReconnected);
+
+      ring.simulateDisconnect();
+      expect(service.isReconnecting()).toBe(true);
+
+      await vi.waitFor(() => expect(onReconnected).toHaveBeenCalled());
+      expect(onReconnecting).toHaveBeenCalledWith({ attempt: 1, maxAttempts: 6, delayMs: 0 });
+      expect(connect).not.toHaveBeenCalled();
+      expect(service.isConnected()).toBe(true);
+      expect(service.isReconnecting()).toBe(false);
+      expect(ring.subscriberCount).toBe(1);
+
+      await service.disconnect();
+    });
+
+    describe('with an attempt still opening', () => {
+      let ring: ReturnType<typeof createFakeRing>;
+      let service: ColmiRingService;
+      let finishOpening: () => void;
+
+      beforeEach(async () => {
+        ({ ring, service } = await connectFakeRing());
+        const opening = new Promise<void>(resolve => {
+          finishOpening = resolve;
+        });
+        const reconnect = ring.reconnect.bind(ring);
+        vi.spyOn(ring, 'reconnect').mockImplementation(async () => {
+          await opening;
+          return reconnect();
+        });
+
+        ring.simulateDisconnect();
+        await vi.waitFor(() => expect(ring.reconnect).toHaveBeenCalled());
+      });
+
+      it('leaves the connection to connect()', async () => {
+        await expect(service.connect()).resolves.toBe(true);
+        finishOpening();
+        await vi.waitFor(() => expect(service.isReconnecting()).toBe(false));
+
+        expect(service.isConnected()).toBe(true);
+        expect(ring.subscriberCount).toBe(1);
+
+        await service.disconnect();
+      });
+
+      it('closes the link it opens after disconnect()', async () => {
+        const disconnecting = service.disconnect();
+        finishOpening();
+        await disconnecting;
+
+        expect(ring.isConnected()).toBe(false);
+        expect(ring.subscriberCount).toBe(0);
+        expect(service.isConnected()).toBe(false);
+      });
+    });
+
+    it('picks the ring up again after a reboot', async () => {
+      const { ring, service } = await connectFakeRing();
+      vi.useFakeTimers();
+      const onReconnected = vi.fn();
+      service.on('reconnected', onReconnected);
+
+      await service.rebootRing();
+      ring.simulateDisconnect();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(onReconnected).toHaveBeenCalledTimes(1);
+      expect(service.isConnected()).toBe(true);
+
+      await service.disconnect();
+    });
+
+    it('backs off exponentially and gives up after the last attempt', async () => {
+      const { ring, service } = await connectFakeRing();
+      vi.useFakeTimers();
+      vi.spyOn(ring, 'reconnect').mockRejectedValue(new Error('GATT Server is disconnected'));
+      const delays: number[] = [];
+      const onFailed = vi.fn();
+      service.on('reconnecting', ({ delayMs }) => delays.push(delayMs));
+      service.on('reconnectFailed', onFailed);
+
+      ring.simulateDisconnect();
+      // Shares the attempt started by the disconnect
+      const reconnected = service.reconnect();
+      await vi.runAllTimersAsync();
+
+      await expect(reconnected).resolves.toBe(false);
+      expect(delays).toEqual([0, 1000, 2000, 4000, 8000, 16000]);
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      expect(service.isReconnecting()).toBe(false);
+    });
+
+    it('reports reconnecting from the first reconnecting event on', async () => {
+      const { ring, service } = await connectFakeRing();
+      const reconnectingDuringEvent: boolean[] = [];
+      service.on('reconnecting', () => reconnectingDuringEvent.push(service.isReconnecting()));
+
+      ring.simulateDisconnect();
+      await vi.waitFor(() => expect(service.isConnected()).toBe(true));
+
+      expect(reconnectingDuringEvent).toEqual([true]);
+
+      await service.disconnect();
+    });
+
+    it('does not start an attempt cancelled right after it was requested', async () => {
+      const { ring, service } = await connectFakeRing();
+      await service.disconnect();
+      const reconnect = vi.spyOn(ring, 'reconnect');
+      const onReconnecting = vi.fn();
+      service.on('reconnecting', onReconnecting);
+
+      const reconnected = service.reconnect();
+      service.cancelReconnect();
+
+      await expect(reconnected).resolves.toBe(false);
+      expect(onReconnecting).not.toHaveBeenCalled();
+      expect(reconnect).not.toHaveBeenCalled();
+    });
+
+    it('does not reconnect after a requested disconnect', async () => {
+      const { ring, service } = await connectFakeRing();
+      const reconnect = vi.spyOn(ring, 'reconnect');
+
+      await service.disconnect();
+
+      expect(service.isReconnecting()).toBe(false);
+      expect(reconnect).not.toHaveBeenCalled();
+    });
+
+    it('stops backing off when cancelled', async () => {
+      const { ring, service } = await connectFakeRing();
+      vi.useFakeTimers();
+      const reconnect = vi.spyOn(ring, 'reconnect').mockRejectedValue(new Error('GATT Server is disconnected'));
+
+      ring.simulateDisconnect();
+      await vi.advanceTimersByTimeAsync(0);
+      service.cancelReconnect();
+      await vi.runAllTimersAsync();
+
+      expect(reconnect).toHaveBeenCalledTimes(1);
+      expect(service.isReconnecting()).toBe(false);
+    });
+
+    it('fails when no ring was connected before', async () => {
+      const service = new ColmiRingService(createFakeRing());
+
+      await expect(service.reconnect({ maxAttempts: 1 })).resolves.toBe(false);
+    });
+  });
+
+  describe('mode restore', () => {
+    it('resumes live readings and raw accelerometer after reconnecting', async () => {
+      const { ring, service } = await connectFakeRing();
+      await service.startRealTimeReading(REAL_TIME_READINGS.HEART_RATE);
+      await service.startRealTimeReading(REAL_TIME_READINGS.SPO2);
+      await service.startRawDataMode();
+      const onRestored = vi.fn();
+      service.on('modesRestored', onRestored);
+
+      ring.simulateDisconnect();
+      expect(service.getRawDataMode()).toBe(false);
+      expect(service.getActiveRealTimeReadings()).toEqual([]);
+
+      await vi.waitFor(() => expect(onRestored).toHaveBeenCalled());
+      expect(onRestored).toHaveBeenCalledWith({
+        realTimeReadings: [REAL_TIME_READINGS.HEART_RATE, REAL_TIME_READINGS.SPO2],
+        rawAccelerometer: true,
+        failedRealTimeReadings: [],
+        rawAccelerometerFailed: false,
+      });
+      expect(service.getActiveRealTimeReadings()).toEqual([REAL_TIME_READINGS.HEART_RATE, REAL_TIME_READINGS.SPO2]);
+      expect(service.getRawDataMode()).toBe(true);
+
+      await service.disconnect();
+    });
+
+    it('reports nothing when no mode was active', async () => {
+      const { ring, service } = await connectFakeRing();
+      const onReconnected = vi.fn();
+      const onRestored = vi.fn();
+      service.on('reconnected', onReconnected);
+      service.on('modesRestored', onRestored);
+
+      ring.simulateDisconnect();
+
+      await vi.waitFor(() => expect(onReconnected).toHaveBeenCalled());
+      expect(onRestored).not.toHaveBeenCalled();
+
+      await service.disconnect();
+    });
+
+    it('forgets modes after a requested disconnect', async () => {
+      const { ring, service } = await connectFakeRing();
+      await service.startRawDataMode();
+      await service.disconnect();
+
+      expect(service.getRawDataMode()).toBe(false);
+
+      await service.connect();
+      ring.simulateDisconnect();
+      const onRestored = vi.fn();
+      service.on('modesRestored', onRestored);
+      await service.reconnect();
+
+      expect(onRestored).not.toHaveBeenCalled();
+      expect(service.getRawDataMode()).toBe(false);
+
+      await service.disconnect();
+    });
+  });
+
+  describe('signal strength', () => {
+    it('smooths advertisement RSSI and flags the ring out of range', async () => {
+      const { ring, service } = await connectFakeRing();
+      await vi.waitFor(() => expect(service.getSignalStrength().supported).toBe(true));
+      expect(service.getSignalStrength()).toEqual({ supported: true, rssi: null, percent: null, outOfRange: false });
+
+      ring.advertise(-60);
+      expect(service.getSignalStrength()).toMatchObject({ rssi: -60, outOfRange: false });
+
+      // One weak reading is smoothed away, a run of them is not
+      ring.advertise(-100);
+      expect(service.getSignalStrength()).toMatchObject({ rssi: -70, outOfRange: false });
+      for (let i = 0; i < 10; i++) {
+        ring.advertise(-100);
+      }
+      expect(service.getSignalStrength().outOfRange).toBe(true);
+
+      await service.disconnect();
+      expect(service.getSignalStrength().rssi).toBeNull();
+    });
+
+    it('reports unsupported when the transport cannot watch RSSI', async () => {
+      const ring = createFakeRing();
+      vi.spyOn(ring, 'watchRssi').mockRejectedValue(new Error('Advertisement RSSI is not supported in this browser'));
+      const service = new ColmiRingService(ring);
+      const onSignal = vi.fn();
+      service.on('signalStrength', onSignal);
+
+      await service.connect();
+
+      await vi.waitFor(() => expect(onSignal).toHaveBeenCalledWith(
+        { supported: false, rssi: null, percent: null, outOfRange: false }
+      ));
+
+      await service.disconnect();
+    });
+  });
+});
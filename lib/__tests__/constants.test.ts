@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BATTERY_PACKET,
+  BIG_DATA_TYPES,
+  createBigDataRequestPacket,
+  createSetTimePacket,
+  makePacket,
+  validatePacket
+} from '../constants';
+import { BIG_DATA_SLEEP_REQUEST, FRAMES, frame } from './fixtures/packets';
+
+describe('makePacket', () => {
+  it('builds the battery request', () => {
+    expect(makePacket(0x03)).toEqual(frame(FRAMES.batteryRequest));
+    expect(BATTERY_PACKET).toEqual(frame(FRAMES.batteryRequest));
+  });
+
+  it('places sub data after the command and appends the checksum', () => {
+    expect(makePacket(0x16, new Uint8Array([0x01, 0x01, 0x0a]))).toEqual(frame(FRAMES.heartRateLogSettings));
+  });
+
+  it('wraps the checksum at 256', () => {
+    const packet = makePacket(0xff, new Uint8Array([0xff, 0x02]));
+    expect(packet[15]).toBe((0xff + 0xff + 0x02) & 255);
+  });
+
+  it('accepts 14 bytes of sub data', () => {
+    const subData = new Uint8Array(14).fill(1);
+    expect(makePacket(0x01, subData).subarray(1, 15)).toEqual(subData);
+  });
+
+  it('rejects sub data longer than 14 bytes', () => {
+    expect(() => makePacket(0x01, new Uint8Array(15))).toThrow('Sub data must be less than 14 bytes');
+  });
+
+  it('rejects command bytes outside 0-255', () => {
+    expect(() => makePacket(-1)).toThrow('Invalid command');
+    expect(() => makePacket(256)).toThrow('Invalid command');
+  });
+});
+
+describe('validatePacket', () => {
+  it.each(Object.entries(FRAMES))('accepts the %s fixture', (_name, hex) => {
+    expect(validatePacket(frame(hex))).toBe(true);
+  });
+
+  it('rejects a corrupted checksum', () => {
+    const packet = frame(FRAMES.batteryResponse);
+    packet[15] ^= 0x01;
+    expect(validatePacket(packet)).toBe(false);
+  });
+
+  it('rejects frames that are not 16 bytes', () => {
+    expect(validatePacket(frame(FRAMES.batteryResponse).subarray(0, 15))).toBe(false);
+    expect(validatePacket(new Uint8Array(17))).toBe(false);
+  });
+});
+
+describe('packet builders', () => {
+  it('encodes the set-time fields as BCD in UTC', () => {
+    expect(createSetTimePacket(new Date(Date.UTC(2024, 0, 15, 13, 45, 30)))).toEqual(frame(FRAMES.setTime));
+  });
+
+  it('builds the 7-byte big data request from the guide', () => {
+    expect(createBigDataRequestPacket(BIG_DATA_TYPES.SLEEP)).toEqual(frame(BIG_DATA_SLEEP_REQUEST));
+  });
+});
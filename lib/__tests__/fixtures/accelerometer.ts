@@ -0,0 +1,25 @@
+/**
+ * Accelerometer sample fixtures for motion and sample rate tests
+ */
+
+import { AccelerometerData } from '../../types';
+
+/**
+ * Sample of a ring lying flat and still, with the given fields changed
+ * @param overrides - Fields that differ from the resting sample
+ */
+export function accelerometerSample(overrides: Partial<AccelerometerData> = {}): AccelerometerData {
+  return {
+    rawX: 0,
+    rawY: 0,
+    rawZ: 512,
+    gX: 0,
+    gY: 0,
+    gZ: 1,
+    rotateX: 0,
+    rotateY: 0,
+    rotateZ: 0,
+    timestamp: 1_700_000_000_000,
+    ...overrides,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Fake ring for driving ColmiRingService in tests
+ */
+
+import { COLMI_COMMANDS } from '../../constants';
+import { InMemoryTransport, type InMemoryResponder } from '../../transport';
+import { FRAMES, frame } from './packets';
+
+/**
+ * Fixtures the fake ring sends back, keyed by command byte
+ * An empty list leaves that command unanswered.
+ */
+export type FakeRingReplies = Partial<Record<number, string[]>>;
+
+const DEFAULT_REPLIES: FakeRingReplies = {
+  [COLMI_COMMANDS.BATTERY]: [FRAMES.batteryResponse],
+  // Answered during connect() while measuring clock drift
+  [COLMI_COMMANDS.STEPS]: [FRAMES.stepsNoData],
+};
+
+/**
+ * Builds a responder that answers commands with fixture frames
+ * @param replies - Overrides for the default replies
+ */
+export function fakeRingResponder(replies: FakeRingReplies = {}): InMemoryResponder {
+  const table = { ...DEFAULT_REPLIES, ...replies };
+
+  return (written, transport) => {
+    for (const hex of table[written[0]] ?? []) {
+      transport.receive(frame(hex));
+    }
+  };
+}
+
+/**
+ * Creates an InMemoryTransport that answers commands with fixture frames
+ * @param replies - Overrides for the default replies
+ */
+export function createFakeRing(replies: FakeRingReplies = {}): InMemoryTransport {
+  return new InMemoryTransport(fakeRingResponder(replies));
+}
+
+/**
+ * Commands written to the fake ring, in order
+ */
+export function writtenCommands(transport: InMemoryTransport): number[] {
+  return transport.writtenFrames.map(written => written[0]);
+}
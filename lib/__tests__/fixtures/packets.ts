@@ -0,0 +1,89 @@
+/**
+ * Packet fixtures for protocol tests
+ *
+ * Frames are written out byte by byte (checksums computed by hand) so the
+ * tests do not depend on makePacket() to build their own inputs.
+ */
+
+import { hexToBytes } from '../../packet-capture';
+
+/**
+ * 16-byte frames in the format the R02 actually speaks (Python client framing)
+ */
+export const FRAMES = {
+  batteryRequest: '03 00 00 00 00 00 00 00 00 00 00 00 00 00 00 03',
+  /** 64%, not charging */
+  batteryResponse: '03 40 00 00 00 00 00 00 00 00 00 00 00 00 00 43',
+  /** 100%, charging */
+  batteryCharging: '03 64 01 00 00 00 00 00 00 00 00 00 00 00 00 68',
+  /** Level 101 - valid checksum, impossible level */
+  batteryOutOfRange: '03 65 00 00 00 00 00 00 00 00 00 00 00 00 00 68',
+  /** Battery command echoed with bit 7 set */
+  batteryError: '83 00 00 00 00 00 00 00 00 00 00 00 00 00 00 83',
+
+  /** Real-time heart rate, 72 BPM */
+  heartRate: '69 01 00 48 00 00 00 00 00 00 00 00 00 00 00 b2',
+  /** Real-time heart rate while the sensor is still locking on */
+  heartRateMeasuring: '69 01 00 00 00 00 00 00 00 00 00 00 00 00 00 6a',
+  /** Real-time heart rate with error code 1 */
+  heartRateErrorCode: '69 01 01 00 00 00 00 00 00 00 00 00 00 00 00 6b',
+  /** Real-time SpO2, 98% */
+  spO2: '69 03 00 62 00 00 00 00 00 00 00 00 00 00 00 ce',
+  /** Real-time HRV, 0x012a = 298 ms little-endian */
+  hrv: '69 0a 00 2a 01 00 00 00 00 00 00 00 00 00 00 9e',
+  /** Real-time blood pressure, 120/80 mmHg */
+  bloodPressure: '69 02 00 78 50 00 00 00 00 00 00 00 00 00 00 33',
+  /** Real-time stress ("pressure"), level 35 */
+  stress: '69 08 00 23 00 00 00 00 00 00 00 00 00 00 00 94',
+
+  /** Steps metadata: 5 packets follow, calories in tens */
+  stepsHeader: '43 f0 05 01 00 00 00 00 00 00 00 00 00 00 00 39',
+  stepsNoData: '43 ff 00 00 00 00 00 00 00 00 00 00 00 00 00 42',
+  /** 2024-03-15 10:00 UTC (index 40), packet 0 of 5: 10 cal, 1000 steps, 700 m */
+  stepsInterval: '43 24 03 15 28 00 05 0a 00 e8 03 bc 02 00 00 5f',
+  /** The same interval as the only packet of the day */
+  stepsLastInterval: '43 24 03 15 28 00 01 0a 00 e8 03 bc 02 00 00 5b',
+
+  /** Raw accelerometer: Y = 256, Z = -512, X = 1024 */
+  accelerometer: 'a1 03 10 00 e0 00 40 00 00 00 00 00 00 00 00 d4',
+  /** Raw PPG: raw = 4660, max = 8192, min = 4096, diff = 4096 */
+  ppg: 'a1 02 12 34 20 00 10 00 10 00 00 00 00 00 00 29',
+  /** Raw SpO2: raw = 800, max = 98, min = 90, diff = 8 */
+  spO2Raw: 'a1 01 03 20 00 62 00 5a 00 08 00 00 00 00 00 89',
+
+  /** Heart-rate logging enabled every 10 minutes */
+  heartRateLogSettings: '16 01 01 0a 00 00 00 00 00 00 00 00 00 00 00 22',
+
+  /** Set time to 2024-01-15 13:45:30 UTC, English (guide: Time Synchronization) */
+  setTime: '01 24 01 15 13 45 30 01 00 00 00 00 00 00 00 c4',
+} as const;
+
+/**
+ * Big data request for sleep history (guide: Sleep Tracking)
+ */
+export const BIG_DATA_SLEEP_REQUEST = 'bc 27 01 00 ff 00 ff';
+
+/**
+ * Packets quoted in docs/REVERSE_ENGINEERING_GUIDE.md in 0xAB-header framing
+ * The R02 does not use this framing (every frame is 16 bytes with a byte-15
+ * checksum), so the decoder must reject all of them rather than misread them.
+ */
+export const GUIDE_AB_PACKETS: { name: string; hex: string }[] = [
+  { name: 'battery request', hex: 'ab 00 04 ff 5c 80 01' },
+  { name: 'heart rate start', hex: 'ab 00 04 ff 32 80 01' },
+  { name: 'heart rate stop', hex: 'ab 00 04 ff 32 00 01' },
+  { name: 'SpO2 start', hex: 'ab 00 04 ff 36 80 01' },
+  { name: 'SpO2 stop', hex: 'ab 00 04 ff 36 00 01' },
+  { name: 'steps request', hex: 'ab 00 03 ff 93 01' },
+  { name: 'accelerometer start', hex: 'ab 00 04 ff a1 80 01' },
+  { name: 'accelerometer stop', hex: 'ab 00 04 ff a1 00 01' },
+  { name: 'reboot', hex: 'ab 00 04 ff 71 80 01' },
+  { name: 'heart rate example (72 BPM)', hex: 'ab 00 03 ff 32 48' },
+];
+
+/**
+ * Converts a fixture to bytes
+ */
+export function frame(hex: string): Uint8Array {
+  return hexToBytes(hex);
+}
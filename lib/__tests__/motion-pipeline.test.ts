@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { MotionPipeline, matchGesture } from '../motion-pipeline';
+import { GestureTemplate } from '../types';
+import { accelerometerSample } from './fixtures/accelerometer';
+
+const wave: GestureTemplate = { name: 'wave', averages: { rotateX: 0.5, rotateY: 0, rotateZ: 0 } };
+const flat: GestureTemplate = { name: 'flat', averages: { rotateX: 0, rotateY: 0, rotateZ: 0 } };
+
+describe('matchGesture', () => {
+  it('returns the closest gesture with its confidence', () => {
+    const match = matchGesture(accelerometerSample({ rotateX: 0.5 }), [flat, wave]);
+
+    expect(match).toEqual({ name: 'wave', confidence: 100 });
+  });
+
+  it('drops confidence to 0 at 90 degrees away', () => {
+    expect(matchGesture(accelerometerSample({ rotateY: Math.PI / 2 }), [flat])?.confidence).toBeCloseTo(0);
+    expect(matchGesture(accelerometerSample({ rotateY: Math.PI }), [flat])?.confidence).toBe(0);
+  });
+
+  it('returns null without gestures', () => {
+    expect(matchGesture(accelerometerSample(), [])).toBeNull();
+  });
+});
+
+describe('MotionPipeline', () => {
+  it('passes samples through until the moving average window fills', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 2 });
+    const { smoothed } = pipeline.process([1, 3, 5].map(gX => accelerometerSample({ gX })));
+
+    expect(smoothed.map(s => s.gX)).toEqual([1, 2, 4]);
+  });
+
+  it('applies the dead zone before the EMA', () => {
+    const pipeline = new MotionPipeline({ deadZone: 0.1, emaAlpha: 0.5 });
+    const { filtered } = pipeline.process([
+      accelerometerSample({ gX: 0.05, gY: 1 }),
+      accelerometerSample({ gX: 1, gY: 1 }),
+    ]);
+
+    expect(filtered.map(f => f.gX)).toEqual([0, 0.5]);
+    expect(filtered.map(f => f.gY)).toEqual([0.5, 0.75]);
+  });
+
+  it('reports tilt in degrees and the unfiltered magnitude', () => {
+    const pipeline = new MotionPipeline({ emaAlpha: 1 });
+    const [motion] = pipeline.process([accelerometerSample({ rotateX: Math.PI / 4, gX: 3, gY: 0, gZ: 4 })]).filtered;
+
+    expect(motion.pitchDeg).toBeCloseTo(45);
+    expect(motion.magnitude).toBe(5);
+  });
+
+  it('smooths orientation starting from the first sample', () => {
+    const pipeline = new MotionPipeline({ orientationSmoothing: 0.5 });
+
+    expect(pipeline.process([accelerometerSample({ rotateZ: 1 })]).features.orientation.z).toBe(1);
+    expect(pipeline.process([accelerometerSample({ rotateZ: 0 })]).features.orientation.z).toBe(0.5);
+  });
+
+  it('only reports matches above the match threshold', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 1, gestures: [wave], matchThreshold: 50 });
+
+    expect(pipeline.process([accelerometerSample({ rotateX: 0.5 })]).features.match?.name).toBe('wave');
+    expect(pipeline.process([accelerometerSample({ rotateX: -1 })]).features.match).toBeNull();
+  });
+
+  it('fires a gesture at most once per cooldown', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 1, gestures: [wave], triggerCooldown: 1000 });
+    const at = (timestamp: number) => accelerometerSample({ rotateX: 0.5, timestamp });
+
+    const { gestures } = pipeline.process([at(0), at(500), at(1000), at(1001)]);
+
+    expect(gestures).toEqual([
+      { name: 'wave', confidence: 100, timestamp: 0 },
+      { name: 'wave', confidence: 100, timestamp: 1001 },
+    ]);
+  });
+
+  it('shares one cooldown between different gestures', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 1, gestures: [wave, flat], triggerCooldown: 1000 });
+
+    const { gestures } = pipeline.process([
+      accelerometerSample({ rotateX: 0.5, timestamp: 0 }),
+      accelerometerSample({ rotateX: 0, timestamp: 100 }),
+      accelerometerSample({ rotateX: 0, timestamp: 1001 }),
+    ]);
+
+    expect(gestures).toEqual([
+      { name: 'wave', confidence: 100, timestamp: 0 },
+      { name: 'flat', confidence: 100, timestamp: 1001 },
+    ]);
+  });
+
+  it('does not start the cooldown for gestures that do not trigger', () => {
+    const pipeline = new MotionPipeline({
+      movingAverageWindow: 1,
+      gestures: [wave, { ...flat, triggers: false }],
+      triggerCooldown: 1000,
+    });
+
+    const { gestures } = pipeline.process([
+      accelerometerSample({ rotateX: 0, timestamp: 0 }),
+      accelerometerSample({ rotateX: 0.5, timestamp: 100 }),
+    ]);
+
+    expect(gestures).toEqual([{ name: 'wave', confidence: 100, timestamp: 100 }]);
+  });
+
+  it('does not fire below the trigger threshold', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 1, gestures: [wave], triggerThreshold: 80 });
+
+    expect(pipeline.process([accelerometerSample({ rotateX: -0.5 })]).gestures).toEqual([]);
+  });
+
+  it('forgets all state on reset', () => {
+    const pipeline = new MotionPipeline({ movingAverageWindow: 1, gestures: [wave], emaAlpha: 0.5 });
+    pipeline.process([accelerometerSample({ rotateX: 0.5, gY: 1, timestamp: 0 })]);
+
+    pipeline.reset();
+    const output = pipeline.process([accelerometerSample({ rotateX: 0.5, gY: 1, timestamp: 10 })]);
+
+    expect(output.filtered[0].gY).toBe(0.5);
+    expect(output.gestures).toHaveLength(1);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MotionProcessor } from '../motion-processor';
+import { MotionWorkerRequest } from '../types';
+import { accelerometerSample } from './fixtures/accelerometer';
+
+/**
+ * Stand-in for a Worker that records posted requests
+ */
+class FakeWorker {
+  posted: MotionWorkerRequest[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(request: MotionWorkerRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+function fakeWorkerFactory() {
+  const workers: FakeWorker[] = [];
+  const create = () => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  };
+  return { workers, create };
+}
+
+describe('MotionProcessor', () => {
+  it('processes on the main thread without a worker factory', () => {
+    const processor = new MotionProcessor(null);
+    const filtered = vi.fn();
+    const gesture = vi.fn();
+    processor.on('filtered', filtered);
+    processor.on('gesture', gesture);
+
+    processor.configure({
+      movingAverageWindow: 1,
+      gestures: [{ name: 'wave', averages: { rotateX: 0.5, rotateY: 0, rotateZ: 0 } }],
+    });
+    processor.process([accelerometerSample({ rotateX: 0.5 })]);
+
+    expect(processor.isOffThread()).toBe(false);
+    expect(filtered).toHaveBeenCalledTimes(1);
+    expect(gesture).toHaveBeenCalledWith(expect.objectContaining({ name: 'wave' }));
+  });
+
+  it('skips empty batches', () => {
+    const processor = new MotionProcessor(null);
+    const features = vi.fn();
+    processor.on('features', features);
+
+    processor.process([]);
+
+    expect(features).not.toHaveBeenCalled();
+  });
+
+  it('starts the worker lazily and configures it first', () => {
+    const { workers, create } = fakeWorkerFactory();
+    const processor = new MotionProcessor(create);
+
+    processor.configure({ emaAlpha: 0.5 });
+    processor.process([accelerometerSample()]);
+
+    expect(workers).toHaveLength(1);
+    expect(processor.isOffThread()).toBe(true);
+    expect(workers[0].posted.map(request => request.type)).toEqual(['configure', 'configure', 'samples']);
+    expect(workers[0].posted[0]).toEqual({ type: 'configure', config: { emaAlpha: 0.5 } });
+  });
+
+  it('re-emits worker output', () => {
+    const { workers, create } = fakeWorkerFactory();
+    const processor = new MotionProcessor(create);
+    const gesture = vi.fn();
+    processor.on('gesture', gesture);
+
+    processor.process([accelerometerSample()]);
+    workers[0].onmessage?.({
+      data: {
+        type: 'output',
+        output: {
+          smoothed: [],
+          filtered: [],
+          features: { timestamp: 0, magnitude: 1, orientation: { x: 0, y: 0, z: 0 }, match: null },
+          gestures: [{ name: 'wave', confidence: 90, timestamp: 0 }],
+        },
+      },
+    } as MessageEvent);
+
+    expect(gesture).toHaveBeenCalledWith({ name: 'wave', confidence: 90, timestamp: 0 });
+  });
+
+  it('restarts the worker with the stored config after dispose', () => {
+    const { workers, create } = fakeWorkerFactory();
+    const processor = new MotionProcessor(create);
+    processor.configure({ deadZone: 0.2 });
+
+    processor.dispose();
+    processor.process([accelerometerSample()]);
+
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].posted[0]).toEqual({ type: 'configure', config: { deadZone: 0.2 } });
+  });
+
+  it('falls back to the main thread when the worker fails', () => {
+    const { workers, create } = fakeWorkerFactory();
+    const processor = new MotionProcessor(create);
+    const features = vi.fn();
+    processor.on('features', features);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    processor.process([accelerometerSample()]);
+    workers[0].onerror?.({ message: 'boom' } as ErrorEvent);
+    processor.process([accelerometerSample()]);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].terminated).toBe(true);
+    expect(processor.isOffThread()).toBe(false);
+    expect(features).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('falls back to the main thread when the worker cannot start', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const processor = new MotionProcessor(() => {
+      throw new Error('Workers are disabled');
+    });
+    const features = vi.fn();
+    processor.on('features', features);
+
+    processor.process([accelerometerSample()]);
+
+    expect(processor.isOffThread()).toBe(false);
+    expect(features).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { bcdToDecimal, decodePacket } from '../packet-decoder';
+import { FRAMES, GUIDE_AB_PACKETS, frame } from './fixtures/packets';
+
+describe('bcdToDecimal', () => {
+  it.each([
+    [0x00, 0],
+    [0x09, 9],
+    [0x10, 10],
+    [0x24, 24],
+    [0x59, 59],
+    [0x99, 99],
+  ])('decodes BCD byte %i to %i', (bcd, decimal) => {
+    expect(bcdToDecimal(bcd)).toBe(decimal);
+  });
+});
+
+describe('decodePacket', () => {
+  describe('framing', () => {
+    it('rejects frames that are not 16 bytes', () => {
+      expect(decodePacket(new Uint8Array([0x03, 0x40]))).toEqual({
+        kind: 'invalid',
+        reason: 'Invalid packet length: 2',
+      });
+    });
+
+    it('rejects a bad checksum', () => {
+      const packet = frame(FRAMES.batteryResponse);
+      packet[15] = 0;
+      expect(decodePacket(packet)).toEqual({ kind: 'invalid', reason: 'Invalid packet checksum' });
+    });
+
+    it('decodes error responses to the original command', () => {
+      expect(decodePacket(frame(FRAMES.batteryError))).toEqual({ kind: 'error', command: 0x03 });
+    });
+
+    it.each(GUIDE_AB_PACKETS)('rejects the guide\'s 0xAB $name packet', ({ hex }) => {
+      expect(decodePacket(frame(hex)).kind).toBe('invalid');
+    });
+  });
+
+  describe('battery', () => {
+    it('decodes level and charging flag', () => {
+      expect(decodePacket(frame(FRAMES.batteryResponse))).toEqual({
+        kind: 'battery',
+        battery: { level: 64, charging: false },
+      });
+      expect(decodePacket(frame(FRAMES.batteryCharging))).toEqual({
+        kind: 'battery',
+        battery: { level: 100, charging: true },
+      });
+    });
+
+    it('rejects levels above 100', () => {
+      expect(decodePacket(frame(FRAMES.batteryOutOfRange)).kind).toBe('invalid');
+    });
+  });
+
+  describe('real-time readings', () => {
+    it('decodes heart rate', () => {
+      expect(decodePacket(frame(FRAMES.heartRate))).toEqual({
+        kind: 'realTime',
+        readingType: 1,
+        errorCode: 0,
+        reading: { type: 'heartRate', value: 72 },
+      });
+    });
+
+    it('reports no reading while the sensor is measuring', () => {
+      expect(decodePacket(frame(FRAMES.heartRateMeasuring))).toMatchObject({ kind: 'realTime', reading: null });
+    });
+
+    it('reports no reading on an error code', () => {
+      expect(decodePacket(frame(FRAMES.heartRateErrorCode))).toMatchObject({
+        kind: 'realTime',
+        errorCode: 1,
+        reading: null,
+      });
+    });
+
+    it.each([
+      ['spO2', { type: 'spO2', value: 98 }],
+      ['hrv', { type: 'hrv', value: 298 }],
+      ['bloodPressure', { type: 'bloodPressure', value: { systolic: 120, diastolic: 80 } }],
+      ['stress', { type: 'stress', value: { kind: 'stress', level: 35 } }],
+    ] as const)('decodes %s', (name, reading) => {
+      expect(decodePacket(frame(FRAMES[name]))).toMatchObject({ kind: 'realTime', reading });
+    });
+  });
+
+  describe('steps', () => {
+    it('decodes the metadata and no-data packets', () => {
+      expect(decodePacket(frame(FRAMES.stepsHeader))).toEqual({ kind: 'stepsHeader', newCalorieProtocol: true });
+      expect(decodePacket(frame(FRAMES.stepsNoData))).toEqual({ kind: 'stepsNoData' });
+    });
+
+    it('decodes an interval with BCD date and UTC timestamp', () => {
+      expect(decodePacket(frame(FRAMES.stepsInterval))).toEqual({
+        kind: 'stepsInterval',
+        packetIndex: 0,
+        packetCount: 5,
+        interval: {
+          year: 2024,
+          month: 3,
+          day: 15,
+          timeIndex: 40,
+          calories: 10,
+          steps: 1000,
+          distance: 700,
+          timestamp: new Date(Date.UTC(2024, 2, 15, 10, 0)),
+        },
+      });
+    });
+
+    it('scales calories under the new calorie protocol', () => {
+      const decoded = decodePacket(frame(FRAMES.stepsInterval), { newCalorieProtocol: true });
+      expect(decoded.kind === 'stepsInterval' && decoded.interval.calories).toBe(100);
+    });
+  });
+
+  describe('accelerometer', () => {
+    it('decodes 12-bit signed axes and converts to G', () => {
+      const decoded = decodePacket(frame(FRAMES.accelerometer), { receivedAt: 1234 });
+      expect(decoded.kind).toBe('accelerometer');
+      if (decoded.kind !== 'accelerometer') {
+        return;
+      }
+
+      expect(decoded.data).toMatchObject({ rawX: 1024, rawY: 256, rawZ: -512, timestamp: 1234 });
+      expect(decoded.data.gX).toBeCloseTo(2);
+      expect(decoded.data.gY).toBeCloseTo(0.5);
+      expect(decoded.data.gZ).toBeCloseTo(-1);
+      expect(decoded.data.rotateX).toBeCloseTo(Math.atan2(2, Math.sqrt(0.25 + 1)));
+    });
+
+    it('does not treat 0xA1 as an error response', () => {
+      const packet = frame(FRAMES.accelerometer);
+      packet[1] = 0x05;
+      packet[15] = (packet[15] + 2) & 255;
+      expect(decodePacket(packet)).toEqual({ kind: 'rawSensor', subtype: 0x05 });
+    });
+  });
+
+  describe('raw optical sensors', () => {
+    it('decodes a PPG sample', () => {
+      expect(decodePacket(frame(FRAMES.ppg), { receivedAt: 1234 })).toEqual({
+        kind: 'ppg',
+        data: { raw: 4660, max: 8192, min: 4096, diff: 4096, timestamp: 1234 },
+      });
+    });
+
+    it('decodes a raw SpO2 sample', () => {
+      expect(decodePacket(frame(FRAMES.spO2Raw), { receivedAt: 1234 })).toEqual({
+        kind: 'spO2Raw',
+        data: { raw: 800, max: 98, min: 90, diff: 8, timestamp: 1234 },
+      });
+    });
+  });
+
+  describe('big data', () => {
+    it('decodes a complete SpO2 frame', () => {
+      const day = [0, ...new Array(48).fill(0)];
+      day[1 + 2 * 3] = 95;
+      day[2 + 2 * 3] = 98;
+      const bigData = new Uint8Array([0xbc, 0x2a, day.length, 0, 0, 0, ...day]);
+      const receivedAt = Date.UTC(2024, 0, 15, 12);
+
+      expect(decodePacket(bigData, { receivedAt })).toEqual({
+        kind: 'spO2History',
+        samples: [{ timestamp: new Date(Date.UTC(2024, 0, 15, 3)), min: 95, max: 98 }],
+      });
+    });
+
+    it('rejects an incomplete frame', () => {
+      expect(decodePacket(new Uint8Array([0xbc, 0x27, 10, 0, 0, 0, 1])).kind).toBe('invalid');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { PpgBeatDetector, rmssd, sdnn } from '../ppg-beat-detector';
+import { SampleClock } from '../sample-rate';
+import { PpgBeat } from '../types';
+
+const SAMPLE_INTERVAL = 20; // 50 Hz
+
+/**
+ * Feeds a synthetic PPG trace whose pulses (dips in the raw reading) are
+ * centred on the given beat times, returning the detected beats
+ * @param timestampOf - Timestamp the detector sees for a sample taken at t
+ */
+function feedPulses(
+  detector: PpgBeatDetector,
+  beatTimes: number[],
+  duration: number,
+  timestampOf: (t: number) => number = t => t
+): PpgBeat[] {
+  const beats: PpgBeat[] = [];
+  for (let t = 0; t <= duration; t += SAMPLE_INTERVAL) {
+    const pulse = beatTimes.reduce((sum, beat) => sum + Math.exp(-((t - beat) ** 2) / (2 * 60 ** 2)), 0);
+    const raw = Math.round(10000 - 500 * pulse);
+    const { beat } = detector.push({ raw, max: 10000, min: 9500, diff: 500, timestamp: timestampOf(t) });
+    if (beat) {
+      beats.push(beat);
+    }
+  }
+  return beats;
+}
+
+/**
+ * Arrival time of a sample delivered in bursts of three with uneven link latency
+ */
+function burstArrival(t: number): number {
+  const burst = Math.floor(t / (3 * SAMPLE_INTERVAL));
+  return (burst + 1) * 3 * SAMPLE_INTERVAL + (burst * 37) % 29;
+}
+
+function evenBeats(interval: number, duration: number): number[] {
+  const times: number[] = [];
+  for (let t = 1000; t < duration; t += interval) {
+    times.push(t);
+  }
+  return times;
+}
+
+describe('rmssd', () => {
+  it('is the root mean square of successive differences', () => {
+    expect(rmssd([800, 900, 800, 900])).toBeCloseTo(100);
+    expect(rmssd([800, 800, 800])).toBe(0);
+  });
+
+  it('needs at least three intervals', () => {
+    expect(rmssd([800, 900])).toBeNull();
+  });
+
+  it('takes no difference across a rejected interval or gap', () => {
+    expect(rmssd([800, 900, null, 700, 800])).toBeCloseTo(100);
+    expect(rmssd([800, null, 900, null, 700])).toBeNull();
+  });
+});
+
+describe('sdnn', () => {
+  it('is the standard deviation of the intervals', () => {
+    expect(sdnn([800, 900, 800, 900])).toBeCloseTo(50);
+  });
+
+  it('needs at least two intervals', () => {
+    expect(sdnn([800, null])).toBeNull();
+  });
+
+  it('skips rejected intervals', () => {
+    expect(sdnn([800, null, 900, 800, 900])).toBeCloseTo(50);
+  });
+});
+
+describe('PpgBeatDetector', () => {
+  it('finds one beat per pulse at a steady rate', () => {
+    const detector = new PpgBeatDetector();
+    const beatTimes = evenBeats(800, 20000);
+
+    const beats = feedPulses(detector, beatTimes, 20000);
+
+    // The filter needs a couple of beats to settle
+    expect(beats.length).toBeGreaterThanOrEqual(beatTimes.length - 2);
+    expect(beats.length).toBeLessThanOrEqual(beatTimes.length);
+    expect(detector.getStats().heartRate).toBe(75);
+  });
+
+  it('reports beat-by-beat intervals and low variability for a steady rhythm', () => {
+    const detector = new PpgBeatDetector();
+    const beats = feedPulses(detector, evenBeats(800, 20000), 20000);
+
+    const timed = beats.filter(beat => beat.ibiMs !== null);
+    expect(timed.length).toBeGreaterThan(10);
+    for (const beat of timed.slice(2)) {
+      expect(beat.ibiMs).toBeCloseTo(800, -2);
+      expect(beat.bpm).toBeCloseTo(75, 0);
+    }
+    expect(detector.getStats().rmssd).toBeLessThan(30);
+  });
+
+  it('measures variability when intervals alternate', () => {
+    const detector = new PpgBeatDetector();
+    const beatTimes: number[] = [];
+    for (let t = 1000, i = 0; t < 30000; t += i++ % 2 === 0 ? 700 : 900) {
+      beatTimes.push(t);
+    }
+
+    feedPulses(detector, beatTimes, 30000);
+
+    const stats = detector.getStats();
+    expect(stats.rmssd).toBeGreaterThan(150);
+    expect(stats.sdnn).toBeGreaterThan(70);
+  });
+
+  it('does not time an interval across a gap', () => {
+    const detector = new PpgBeatDetector();
+    const beatTimes = [...evenBeats(800, 8000), 12000, 12800];
+
+    const beats = feedPulses(detector, beatTimes, 14000);
+
+    const afterGap = beats.find(beat => beat.timestamp > 11000);
+    expect(afterGap?.ibiMs).toBeNull();
+  });
+
+  it('rejects the doubled interval of a missed beat and keeps HRV steady', () => {
+    const detector = new PpgBeatDetector();
+    const beatTimes = evenBeats(800, 20000).filter(t => t !== 10600);
+
+    const beats = feedPulses(detector, beatTimes, 20000);
+
+    const afterMissed = beats.find(beat => beat.timestamp > 11000);
+    expect(afterMissed?.ibiMs).toBeNull();
+    expect(detector.getIntervals().every(interval => Math.abs(interval - 800) < 100)).toBe(true);
+    expect(detector.getStats().heartRate).toBe(75);
+    expect(detector.getStats().rmssd).toBeLessThan(30);
+  });
+
+  it('keeps bursty BLE delivery out of the intervals when samples are on a sample clock', () => {
+    const detector = new PpgBeatDetector();
+    const clock = new SampleClock();
+    const beatTimes = evenBeats(800, 30000).filter(t => t !== 15000);
+
+    feedPulses(detector, beatTimes, 30000, t => clock.stamp(burstArrival(t)));
+
+    const stats = detector.getStats();
+    expect(stats.heartRate).toBe(75);
+    expect(stats.rmssd).toBeLessThan(30);
+    expect(stats.sdnn).toBeLessThan(30);
+    expect(detector.getIntervals().every(interval => Math.abs(interval - 800) < 100)).toBe(true);
+  });
+
+  it('forgets beats on reset', () => {
+    const detector = new PpgBeatDetector();
+    feedPulses(detector, evenBeats(800, 10000), 10000);
+
+    detector.reset();
+
+    expect(detector.getStats()).toEqual({ heartRate: null, rmssd: null, sdnn: null, intervals: 0 });
+    expect(detector.getIntervals()).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RingFinder, beepInterval, isColmiDeviceName, proximityLevel } from '../ring-finder';
+import { FINDER_BEEP_INTERVAL, RSSI_STALE_AFTER } from '../constants';
+import { AdvertisementScanner, RingAdvertisement } from '../types';
+
+/**
+ * Scanner that reports whatever the test advertises
+ */
+function createFakeScanner() {
+  let handler: ((advertisement: RingAdvertisement) => void) | null = null;
+  const stop = vi.fn(() => {
+    handler = null;
+  });
+  const scanner: AdvertisementScanner = async (onAdvertisement) => {
+    handler = onAdvertisement;
+    return stop;
+  };
+
+  return {
+    scanner,
+    stop,
+    advertise: (deviceId: string, name: string | null, rssi: number) => handler?.({ deviceId, name, rssi }),
+  };
+}
+
+describe('isColmiDeviceName', () => {
+  it.each(['R02_4101', 'R09_AB12', 'Colmi R02', 'R09'])('matches %s', (name) => {
+    expect(isColmiDeviceName(name)).toBe(true);
+  });
+
+  it.each(['R03', 'Galaxy Buds', 'XR02_1', null])('rejects %s', (name) => {
+    expect(isColmiDeviceName(name)).toBe(false);
+  });
+});
+
+describe('proximityLevel', () => {
+  it('buckets signal percentages from cold to hot', () => {
+    expect([0, 25, 50, 75, 100].map(proximityLevel)).toEqual(['cold', 'cool', 'warm', 'hot', 'hot']);
+  });
+});
+
+describe('beepInterval', () => {
+  it('beeps faster the closer the ring is', () => {
+    expect(beepInterval(0)).toBe(FINDER_BEEP_INTERVAL.max);
+    expect(beepInterval(100)).toBe(FINDER_BEEP_INTERVAL.min);
+    expect(beepInterval(50)).toBeLessThan(beepInterval(25));
+  });
+});
+
+describe('RingFinder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows only the remembered ring', async () => {
+    const fake = createFakeScanner();
+    const finder = new RingFinder(fake.scanner, 'ring-a');
+    const onProximity = vi.fn();
+    finder.on('proximity', onProximity);
+    await finder.start();
+
+    fake.advertise('ring-b', 'R02_BBBB', -50);
+    fake.advertise('ring-a', 'R02_AAAA', -70);
+
+    expect(onProximity).toHaveBeenCalledTimes(1);
+    expect(finder.getProximity()).toEqual({
+      deviceId: 'ring-a',
+      name: 'R02_AAAA',
+      rssi: -70,
+      percent: 67,
+      level: 'warm',
+    });
+  });
+
+  it('locks onto the first Colmi ring when none is remembered', async () => {
+    const fake = createFakeScanner();
+    const finder = new RingFinder(fake.scanner, null);
+    await finder.start();
+
+    fake.advertise('headphones', 'Galaxy Buds', -40);
+    fake.advertise('ring-a', 'R02_AAAA', -80);
+    fake.advertise('ring-b', 'R09_BBBB', -45);
+
+    expect(finder.getProximity()).toMatchObject({ deviceId: 'ring-a', rssi: -80 });
+  });
+
+  it('smooths RSSI as the ring gets closer', async () => {
+    const fake = createFakeScanner();
+    const finder = new RingFinder(fake.scanner, 'ring-a');
+    await finder.start();
+
+    fake.advertise('ring-a', 'R02_AAAA', -95);
+    fake.advertise('ring-a', 'R02_AAAA', -55);
+
+    expect(finder.getProximity()).toMatchObject({ rssi: -85, level: 'cool' });
+    for (let i = 0; i < 10; i++) {
+      fake.advertise('ring-a', 'R02_AAAA', -55);
+    }
+    expect(finder.getProximity().level).toBe('hot');
+  });
+
+  it('clears the proximity once advertisements stop', async () => {
+    const fake = createFakeScanner();
+    const finder = new RingFinder(fake.scanner, 'ring-a');
+    const onProximity = vi.fn();
+    finder.on('proximity', onProximity);
+    await finder.start();
+
+    fake.advertise('ring-a', 'R02_AAAA', -60);
+    vi.advanceTimersByTime(RSSI_STALE_AFTER);
+
+    expect(onProximity).toHaveBeenLastCalledWith({
+      deviceId: 'ring-a',
+      name: 'R02_AAAA',
+      rssi: null,
+      percent: null,
+      level: null,
+    });
+  });
+
+  it('stops the scan', async () => {
+    const fake = createFakeScanner();
+    const finder = new RingFinder(fake.scanner, 'ring-a');
+    await finder.start();
+    expect(finder.isScanning()).toBe(true);
+
+    finder.stop();
+
+    expect(fake.stop).toHaveBeenCalledTimes(1);
+    expect(finder.isScanning()).toBe(false);
+    expect(finder.getProximity().rssi).toBeNull();
+  });
+});
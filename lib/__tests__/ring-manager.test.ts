@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RingManager } from '../ring-manager';
+import { createFakeRing } from './fixtures/fake-ring';
+import { FRAMES, frame } from './fixtures/packets';
+import { InMemoryTransport } from '../transport';
+
+describe('RingManager', () => {
+  let transports: InMemoryTransport[];
+  let manager: RingManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    transports = [];
+    manager = new RingManager(() => {
+      const transport = createFakeRing();
+      transports.push(transport);
+      return transport;
+    });
+  });
+
+  afterEach(async () => {
+    await manager.removeAll();
+    vi.restoreAllMocks();
+  });
+
+  it('connects rings with their own services and aliases', async () => {
+    const left = await manager.connectRing('Left hand');
+    const right = await manager.connectRing();
+
+    expect(left).toMatchObject({ id: 'ring-1', alias: 'Left hand', status: 'connected' });
+    expect(right).toMatchObject({ id: 'ring-2', alias: 'R02_TEST', status: 'connected' });
+    expect(left!.service).not.toBe(right!.service);
+    expect(manager.getRings()).toEqual([left, right]);
+  });
+
+  it('keeps each ring\'s data stream separate', async () => {
+    const left = await manager.connectRing('Left');
+    const right = await manager.connectRing('Right');
+    const onLeft = vi.fn();
+    const onRight = vi.fn();
+    left!.service.on('heartRate', onLeft);
+    right!.service.on('heartRate', onRight);
+
+    transports[1].receive(frame(FRAMES.heartRate));
+
+    expect(onRight).toHaveBeenCalledWith(72);
+    expect(onLeft).not.toHaveBeenCalled();
+  });
+
+  it('makes the first ring active and moves on when it is removed', async () => {
+    const onActive = vi.fn();
+    manager.on('activeRingChanged', onActive);
+    const first = await manager.connectRing();
+    const second = await manager.connectRing();
+
+    expect(manager.getActive()).toBe(first);
+    manager.setActive(second!.id);
+    expect(manager.getActive()).toBe(second);
+
+    await manager.remove(second!.id);
+
+    expect(manager.getActive()).toBe(first);
+    expect(onActive.mock.calls.map(([ring]) => ring?.id)).toEqual(['ring-1', 'ring-2', 'ring-1']);
+    expect(transports[1].isConnected()).toBe(false);
+  });
+
+  it('reports no active ring once all are removed', async () => {
+    const onActive = vi.fn();
+    await manager.connectRing();
+    manager.on('activeRingChanged', onActive);
+
+    await manager.removeAll();
+
+    expect(manager.size).toBe(0);
+    expect(manager.getActive()).toBeNull();
+    expect(onActive).toHaveBeenLastCalledWith(null);
+  });
+
+  it('renames rings and ignores blank aliases', async () => {
+    const ring = await manager.connectRing();
+    const onChanged = vi.fn();
+    manager.on('ringsChanged', onChanged);
+
+    manager.rename(ring!.id, '  Participant 2 ');
+    manager.rename(ring!.id, '   ');
+
+    expect(manager.get(ring!.id)?.alias).toBe('Participant 2');
+    expect(onChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks each ring\'s link state', async () => {
+    const ring = await manager.connectRing();
+    const statuses: string[] = [];
+    manager.on('ringStatusChanged', ({ status }) => statuses.push(status));
+
+    transports[0].simulateDisconnect();
+    await vi.waitFor(() => expect(ring!.status).toBe('connected'));
+
+    expect(statuses).toEqual(['disconnected', 'reconnecting', 'connected']);
+  });
+
+  it('does not add a ring that fails to connect', async () => {
+    manager = new RingManager(() => {
+      const transport = createFakeRing();
+      vi.spyOn(transport, 'connect').mockRejectedValue(new Error('User cancelled the requestDevice() chooser.'));
+      return transport;
+    });
+
+    await expect(manager.connectRing()).resolves.toBeNull();
+    expect(manager.size).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { AccelerometerResampler, SampleClock, SampleRateMonitor } from '../sample-rate';
+import { AccelerometerData } from '../types';
+import { accelerometerSample } from './fixtures/accelerometer';
+
+function sample(timestamp: number, value: number = 0): AccelerometerData {
+  return accelerometerSample({ rawX: value, gX: value, rotateX: value, timestamp });
+}
+
+function recordEvery(monitor: SampleRateMonitor, intervals: number[], start: number = 0): number {
+  let time = start;
+  monitor.record(time);
+  for (const interval of intervals) {
+    time += interval;
+    monitor.record(time);
+  }
+  return time;
+}
+
+describe('SampleRateMonitor', () => {
+  it('has no rate until two samples arrive', () => {
+    const monitor = new SampleRateMonitor();
+    monitor.record(100);
+
+    expect(monitor.getStats()).toMatchObject({ rateHz: null, jitterMs: null, samples: 1 });
+  });
+
+  it('measures a steady rate with no jitter', () => {
+    const monitor = new SampleRateMonitor();
+    recordEvery(monitor, Array(10).fill(40));
+
+    const stats = monitor.getStats();
+    expect(stats.rateHz).toBeCloseTo(25);
+    expect(stats.meanIntervalMs).toBeCloseTo(40);
+    expect(stats.jitterMs).toBeCloseTo(0);
+    expect(stats.gaps).toBe(0);
+  });
+
+  it('reports the spread of intervals as jitter', () => {
+    const monitor = new SampleRateMonitor();
+    recordEvery(monitor, [30, 50, 30, 50]);
+
+    expect(monitor.getStats().jitterMs).toBeCloseTo(10);
+  });
+
+  it('measures rate over the most recent intervals only', () => {
+    const monitor = new SampleRateMonitor(4);
+    recordEvery(monitor, [100, 100, 100, 100, 20, 20, 20, 20]);
+
+    expect(monitor.getStats().rateHz).toBeCloseTo(50);
+  });
+
+  it('counts long intervals as gaps and estimates the samples lost', () => {
+    const monitor = new SampleRateMonitor();
+    recordEvery(monitor, [40, 40, 40, 40, 200, 40]);
+
+    expect(monitor.getStats()).toMatchObject({ gaps: 1, droppedSamples: 4, longestGapMs: 200 });
+  });
+
+  it('needs a few intervals before detecting gaps', () => {
+    const monitor = new SampleRateMonitor();
+    recordEvery(monitor, [40, 400]);
+
+    expect(monitor.getStats().gaps).toBe(0);
+  });
+
+  it('reports the gap still open since the last sample', () => {
+    const monitor = new SampleRateMonitor();
+    expect(monitor.getStats(500).openGapMs).toBeNull();
+
+    recordEvery(monitor, [40, 40, 40]);
+
+    expect(monitor.getStats(2120).openGapMs).toBe(2000);
+    expect(monitor.getStats().openGapMs).toBeNull();
+  });
+
+  it('forgets everything on reset', () => {
+    const monitor = new SampleRateMonitor();
+    recordEvery(monitor, [40, 40, 40, 40, 200]);
+
+    monitor.reset();
+    monitor.record(10_000);
+
+    expect(monitor.getStats()).toMatchObject({ rateHz: null, gaps: 0, droppedSamples: 0, longestGapMs: 0, samples: 1 });
+  });
+});
+
+describe('AccelerometerResampler', () => {
+  it('rejects a rate that is not positive', () => {
+    expect(() => new AccelerometerResampler(0)).toThrow('Invalid resample rate: 0');
+  });
+
+  it('passes the first sample through and starts the grid there', () => {
+    const resampler = new AccelerometerResampler(50);
+
+    expect(resampler.push(sample(1000, 1))).toEqual([sample(1000, 1)]);
+  });
+
+  it('interpolates samples onto the fixed grid', () => {
+    const resampler = new AccelerometerResampler(50);
+    resampler.push(sample(1000, 0));
+
+    const output = resampler.push(sample(1050, 5));
+
+    expect(output.map(s => s.timestamp)).toEqual([1020, 1040]);
+    expect(output.map(s => s.gX)).toEqual([2, 4]);
+    expect(output.map(s => s.rawX)).toEqual([2, 4]);
+  });
+
+  it('emits nothing when a sample arrives before the next grid point', () => {
+    const resampler = new AccelerometerResampler(25);
+    resampler.push(sample(1000));
+
+    expect(resampler.push(sample(1010))).toEqual([]);
+    expect(resampler.push(sample(1045)).map(s => s.timestamp)).toEqual([1040]);
+  });
+
+  it('restarts the grid after a gap too long to fill', () => {
+    const resampler = new AccelerometerResampler(50, 500);
+    resampler.push(sample(1000));
+
+    expect(resampler.push(sample(2000, 1))).toEqual([sample(2000, 1)]);
+    expect(resampler.push(sample(2020)).map(s => s.timestamp)).toEqual([2020]);
+  });
+});
+
+describe('SampleClock', () => {
+  it('keeps arrival times until the rate is known', () => {
+    const clock = new SampleClock();
+
+    expect([0, 45, 75].map(arrival => clock.stamp(arrival))).toEqual([0, 45, 75]);
+  });
+
+  it('spaces samples delivered in bursts at the measured rate', () => {
+    const clock = new SampleClock();
+    const stamps: number[] = [];
+    // 25 Hz samples arriving four at a time
+    for (let i = 0; i < 200; i++) {
+      stamps.push(clock.stamp(Math.floor(i / 4) * 160 + 160));
+    }
+
+    const intervals = stamps.slice(101).map((stamp, index) => stamp - stamps[100 + index]);
+    for (const interval of intervals) {
+      expect(interval).toBeGreaterThan(30);
+      expect(interval).toBeLessThan(50);
+    }
+  });
+
+  it('restarts at the arrival after samples were lost', () => {
+    const clock = new SampleClock(250);
+    let arrival = 0;
+    for (let i = 0; i < 20; i++, arrival += 40) {
+      clock.stamp(arrival);
+    }
+
+    expect(clock.stamp(arrival + 1000)).toBe(arrival + 1000);
+    expect(clock.stamp(arrival + 1040)).toBeCloseTo(arrival + 1040);
+  });
+});
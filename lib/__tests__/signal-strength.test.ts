@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RssiSmoother, rssiToPercent, toSignalStrength } from '../signal-strength';
+
+describe('RssiSmoother', () => {
+  it('starts from the first reading', () => {
+    const smoother = new RssiSmoother(0.5);
+    expect(smoother.get()).toBeNull();
+    expect(smoother.add(-70)).toBe(-70);
+  });
+
+  it('moves part of the way towards each new reading', () => {
+    const smoother = new RssiSmoother(0.5);
+    smoother.add(-70);
+    expect(smoother.add(-90)).toBe(-80);
+    expect(smoother.add(-90)).toBe(-85);
+  });
+
+  it('forgets readings on reset', () => {
+    const smoother = new RssiSmoother();
+    smoother.add(-70);
+    smoother.reset();
+    expect(smoother.get()).toBeNull();
+    expect(smoother.add(-50)).toBe(-50);
+  });
+});
+
+describe('rssiToPercent', () => {
+  it.each([
+    [-120, 0],
+    [-100, 0],
+    [-55, 100],
+    [-40, 100],
+  ])('maps %i dBm to %i%%', (rssi, percent) => {
+    expect(rssiToPercent(rssi)).toBe(percent);
+  });
+
+  it('is linear in between', () => {
+    expect(rssiToPercent(-77.5)).toBe(50);
+  });
+});
+
+describe('toSignalStrength', () => {
+  it('reports unknown RSSI as null', () => {
+    expect(toSignalStrength(false, null)).toEqual({ supported: false, rssi: null, percent: null, outOfRange: false });
+  });
+
+  it('flags readings below the out-of-range threshold', () => {
+    expect(toSignalStrength(true, -89.6).outOfRange).toBe(false);
+    expect(toSignalStrength(true, -91)).toEqual({ supported: true, rssi: -91, percent: 20, outOfRange: true });
+  });
+});
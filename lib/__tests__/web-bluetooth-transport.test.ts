@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebBluetoothTransport } from '../transport/web-bluetooth-transport';
+import { CONNECTION_TIMEOUT, LAST_DEVICE_STORAGE_KEY } from '../constants';
+
+/**
+ * In-memory stand-in for localStorage and sessionStorage
+ */
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Ring whose GATT server connects, or never answers when hanging
+ */
+function createFakeDevice(id: string, { hanging = false } = {}) {
+  const characteristic = {
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    startNotifications: vi.fn(async () => undefined),
+  };
+  const server = {
+    connected: false,
+    disconnect: vi.fn(() => {
+      server.connected = false;
+    }),
+    getPrimaryService: vi.fn(async () => ({
+      getCharacteristic: vi.fn(async () => characteristic),
+    })),
+  };
+  const gatt = {
+    connect: vi.fn(() => {
+      if (hanging) {
+        return new Promise<typeof server>(() => undefined);
+      }
+      server.connected = true;
+      return Promise.resolve(server);
+    }),
+    disconnect: vi.fn(),
+  };
+
+  return {
+    id,
+    name: 'R02_4101',
+    gatt,
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  } as unknown as BluetoothDevice & { gatt: typeof gatt };
+}
+
+describe('WebBluetoothTransport', () => {
+  let localStorage: ReturnType<typeof createStorage>;
+  let sessionStorage: ReturnType<typeof createStorage>;
+
+  /**
+   * Makes the browser report the given rings through getDevices()/requestDevice()
+   */
+  function stubBluetooth(device: BluetoothDevice) {
+    vi.stubGlobal('navigator', {
+      bluetooth: {
+        getDevices: vi.fn(async () => [device]),
+        requestDevice: vi.fn(async () => device),
+      },
+    });
+  }
+
+  beforeEach(() => {
+    localStorage = createStorage();
+    sessionStorage = createStorage();
+    vi.stubGlobal('localStorage', localStorage);
+    vi.stubGlobal('sessionStorage', sessionStorage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('silently reconnects the remembered ring after a reload', async () => {
+    const device = createFakeDevice('ring-1');
+    stubBluetooth(device);
+    localStorage.setItem(LAST_DEVICE_STORAGE_KEY, 'ring-1');
+
+    const transport = new WebBluetoothTransport();
+    await transport.reconnect();
+
+    expect(device.gatt.connect).toHaveBeenCalledTimes(1);
+    expect(transport.isConnected()).toBe(true);
+  });
+
+  it('does not silently restore a ring the user disconnected', async () => {
+    const device = createFakeDevice('ring-1');
+    stubBluetooth(device);
+    const transport = new WebBluetoothTransport();
+    await transport.connect();
+    await transport.disconnect();
+
+    // As after a page reload in the same session
+    const restored = new WebBluetoothTransport();
+    await expect(restored.reconnect()).rejects.toThrow('disconnected on request');
+
+    expect(device.gatt.connect).toHaveBeenCalledTimes(1);
+    expect(restored.isConnected()).toBe(false);
+  });
+
+  it('restores again once the user picks the ring', async () => {
+    const device = createFakeDevice('ring-1');
+    stubBluetooth(device);
+    const transport = new WebBluetoothTransport();
+    await transport.connect();
+    await transport.disconnect();
+    await transport.connect();
+
+    await new WebBluetoothTransport().reconnect();
+
+    expect(device.gatt.connect).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on a GATT connection that never completes', async () => {
+    vi.useFakeTimers();
+    const device = createFakeDevice('ring-1', { hanging: true });
+    stubBluetooth(device);
+
+    const transport = new WebBluetoothTransport();
+    const connecting = transport.connect();
+    const failed = expect(connecting).rejects.toThrow('Connection timed out');
+    await vi.advanceTimersByTimeAsync(CONNECTION_TIMEOUT);
+    await failed;
+
+    expect(device.gatt.disconnect).toHaveBeenCalled();
+    expect(transport.isConnected()).toBe(false);
+  });
+});
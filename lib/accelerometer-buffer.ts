@@ -0,0 +1,118 @@
+/**
+ * AccelerometerBuffer - Preallocated ring buffer of raw accelerometer samples
+ *
+ * Raw mode delivers a packet every few milliseconds. Samples are copied into
+ * one Float64Array instead of being kept as objects, and readers pull every
+ * sample since their last read in one batch (typically once per animation
+ * frame) rather than reacting to each packet.
+ */
+
+import { AccelerometerData, AccelerometerWindow } from './types';
+import { ACCELEROMETER_BUFFER_SIZE } from './constants';
+
+// Field order of each sample in the backing array
+const FIELDS = ['rawX', 'rawY', 'rawZ', 'gX', 'gY', 'gZ', 'rotateX', 'rotateY', 'rotateZ', 'timestamp'] as const;
+const STRIDE = FIELDS.length;
+
+export class AccelerometerBuffer {
+  readonly capacity: number;
+  private values: Float64Array;
+  // Sequence number of the next sample written; never resets
+  private written: number = 0;
+  // Sequence number of the first sample kept by clear()
+  private clearedAt: number = 0;
+
+  /**
+   * @param capacity - Number of samples kept, defaults to ACCELEROMETER_BUFFER_SIZE
+   */
+  constructor(capacity: number = ACCELEROMETER_BUFFER_SIZE) {
+    this.capacity = capacity;
+    this.values = new Float64Array(capacity * STRIDE);
+  }
+
+  /**
+   * Copies a sample into the buffer, overwriting the oldest once full
+   * @param sample - Decoded accelerometer sample
+   */
+  push(sample: AccelerometerData): void {
+    const offset = (this.written % this.capacity) * STRIDE;
+    for (let i = 0; i < STRIDE; i++) {
+      this.values[offset + i] = sample[FIELDS[i]];
+    }
+    this.written++;
+  }
+
+  /**
+   * Sequence number the next sample will get; pass to read() to get only newer samples
+   */
+  get sequence(): number {
+    return this.written;
+  }
+
+  /**
+   * Number of samples currently readable
+   */
+  get size(): number {
+    return this.written - this.firstAvailable();
+  }
+
+  /**
+   * Returns the newest sample, null if the buffer is empty
+   */
+  latest(): AccelerometerData | null {
+    return this.size > 0 ? this.sampleAt(this.written - 1) : null;
+  }
+
+  /**
+   * Reads every sample from a sequence number on
+   * @param since - Sequence number returned by the previous read, defaults to the oldest sample kept
+   * @returns AccelerometerWindow - Samples oldest first and the sequence number for the next read
+   */
+  read(since: number = this.firstAvailable()): AccelerometerWindow {
+    const first = Math.max(since, this.firstAvailable());
+    const samples: AccelerometerData[] = [];
+    for (let sequence = first; sequence < this.written; sequence++) {
+      samples.push(this.sampleAt(sequence));
+    }
+
+    return {
+      samples,
+      sequence: this.written,
+      dropped: Math.max(0, Math.min(first, this.written - this.capacity) - since),
+    };
+  }
+
+  /**
+   * Forgets the buffered samples; sequence numbers keep counting up
+   */
+  clear(): void {
+    this.clearedAt = this.written;
+  }
+
+  /**
+   * Sequence number of the oldest sample still readable
+   */
+  private firstAvailable(): number {
+    return Math.max(this.clearedAt, this.written - this.capacity);
+  }
+
+  /**
+   * Builds a sample object from the backing array
+   */
+  private sampleAt(sequence: number): AccelerometerData {
+    const offset = (sequence % this.capacity) * STRIDE;
+    const values = this.values;
+    return {
+      rawX: values[offset],
+      rawY: values[offset + 1],
+      rawZ: values[offset + 2],
+      gX: values[offset + 3],
+      gY: values[offset + 4],
+      gZ: values[offset + 5],
+      rotateX: values[offset + 6],
+      rotateY: values[offset + 7],
+      rotateZ: values[offset + 8],
+      timestamp: values[offset + 9],
+    };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * BatteryTracker - Battery time series and drain/charge estimates
+ *
+ * Keeps every battery reading with the usage mode active at the time, finds
+ * charge sessions, and estimates drain rate per usage mode so time-to-empty
+ * reflects what the ring is currently doing.
+ */
+
+import { BatteryAnalytics, BatteryInfo, BatterySample, ChargeSession, UsageMode } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Samples older than this are dropped from the history
+const HISTORY_WINDOW_MS = 48 * HOUR_MS;
+
+// Observation time needed before a rate is trusted; the ring reports whole percents
+const MIN_RATE_WINDOW_MS = 20 * 60 * 1000;
+
+// Gaps longer than this (e.g. the ring was disconnected) are not used for rates
+const MAX_SAMPLE_GAP_MS = 30 * 60 * 1000;
+
+const USAGE_MODES: UsageMode[] = ['idle', 'liveHeartRate', 'rawAccelerometer'];
+
+export class BatteryTracker {
+  private samples: BatterySample[] = [];
+
+  /**
+   * Records a battery reading
+   * @param battery - Level and charging flag reported by the ring
+   * @param mode - Usage mode active when the reading was taken
+   * @param timestamp - When the reading was taken, defaults to now
+   */
+  record(battery: BatteryInfo, mode: UsageMode, timestamp: number = Date.now()): void {
+    this.samples.push({ timestamp, level: battery.level, charging: battery.charging, mode });
+
+    const cutoff = timestamp - HISTORY_WINDOW_MS;
+    while (this.samples.length > 0 && this.samples[0].timestamp < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Returns recorded readings, oldest first
+   */
+  getHistory(): BatterySample[] {
+    return [...this.samples];
+  }
+
+  /**
+   * Finds runs of consecutive charging readings
+   * @returns Charge sessions, oldest first; the last has `end: null` while still charging
+   */
+  getChargeSessions(): ChargeSession[] {
+    const sessions: ChargeSession[] = [];
+    let current: ChargeSession | null = null;
+
+    for (const sample of this.samples) {
+      if (sample.charging) {
+        if (!current) {
+          current = { start: sample.timestamp, end: null, startLevel: sample.level, endLevel: sample.level };
+          sessions.push(current);
+        }
+        current.endLevel = sample.level;
+      } else if (current) {
+        current.end = sample.timestamp;
+        current = null;
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Computes drain rates, charge rate and time predictions from the history
+   * @param currentMode - Usage mode to predict time-to-empty for
+   */
+  getAnalytics(currentMode: UsageMode): BatteryAnalytics {
+    const drainRates = this.getDrainRates();
+    const chargeRate = this.getChargeRate();
+    const latest = this.samples[this.samples.length - 1];
+
+    let timeToEmptyMs: number | null = null;
+    let timeToFullMs: number | null = null;
+
+    if (latest && latest.charging) {
+      if (chargeRate) {
+        timeToFullMs = ((100 - latest.level) / chargeRate) * HOUR_MS;
+      }
+    } else if (latest) {
+      // Fall back to the idle rate until the current mode has enough data
+      const drainRate = drainRates[currentMode] ?? drainRates.idle;
+      if (drainRate) {
+        timeToEmptyMs = (latest.level / drainRate) * HOUR_MS;
+      }
+    }
+
+    return {
+      level: latest?.level ?? null,
+      charging: latest?.charging ?? false,
+      currentMode,
+      drainRates,
+      chargeRate,
+      timeToEmptyMs,
+      timeToFullMs,
+      chargeSessions: this.getChargeSessions(),
+    };
+  }
+
+  /**
+   * Clears all recorded readings
+   */
+  clear(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Percent per hour lost in each usage mode, null until enough time was observed
+   * Each interval between two non-charging readings counts toward the mode of
+   * its first reading.
+   */
+  private getDrainRates(): Record<UsageMode, number | null> {
+    const totals: Record<UsageMode, { drop: number; duration: number }> = {
+      idle: { drop: 0, duration: 0 },
+      liveHeartRate: { drop: 0, duration: 0 },
+      rawAccelerometer: { drop: 0, duration: 0 },
+    };
+
+    for (let i = 1; i < this.samples.length; i++) {
+      const previous = this.samples[i - 1];
+      const sample = this.samples[i];
+      const duration = sample.timestamp - previous.timestamp;
+
+      if (previous.charging || sample.charging || duration <= 0 || duration > MAX_SAMPLE_GAP_MS) {
+        continue;
+      }
+
+      totals[previous.mode].drop += previous.level - sample.level;
+      totals[previous.mode].duration += duration;
+    }
+
+    const rates = {} as Record<UsageMode, number | null>;
+    for (const mode of USAGE_MODES) {
+      const { drop, duration } = totals[mode];
+      rates[mode] = duration >= MIN_RATE_WINDOW_MS && drop > 0 ? drop / (duration / HOUR_MS) : null;
+    }
+    return rates;
+  }
+
+  /**
+   * Percent per hour gained in the most recent charge session
+   */
+  private getChargeRate(): number | null {
+    const sessions = this.getChargeSessions();
+    const session = sessions[sessions.length - 1];
+    if (!session) {
+      return null;
+    }
+
+    const chargingSamples = this.samples.filter(sample =>
+      sample.charging && sample.timestamp >= session.start && (session.end === null || sample.timestamp < session.end)
+    );
+    const first = chargingSamples[0];
+    const last = chargingSamples[chargingSamples.length - 1];
+    const duration = last.timestamp - first.timestamp;
+
+    if (duration < MIN_RATE_WINDOW_MS || last.level <= first.level) {
+      return null;
+    }
+    return (last.level - first.level) / (duration / HOUR_MS);
+  }
+}
@@ -6,100 +6,401 @@
  * Updated to use the correct Colmi R02 protocol based on the Python client.
  */
 
-import { RingData } from './types';
 import {
-  COLMI_BLE_CONFIG,
-  COLMI_DEVICE_PATTERNS,
+  AccelerometerData,
+  ActivityData,
+  BatteryAnalytics,
+  BatteryInfo,
+  BatterySample,
+  CapturedPacket,
+  DailyStepSummary,
+  DeviceInfo,
+  HeartRateLog,
+  HeartRateLogSettings,
+  PacketCaptureFile,
+  PacketDirection,
+  PpgHeartRateStats,
+  ReconnectOptions,
+  ReplayOptions,
+  RestoredModes,
+  RingData,
+  SampleRateStats,
+  SignalStrength,
+  RingEventMap,
+  RingTransport,
+  RequestOptions,
+  SleepSession,
+  SpO2HistorySample,
+  TimeSyncResult,
+  TransportChannel,
+  UsageMode
+} from './types';
+import {
   COLMI_COMMANDS,
+  BIG_DATA_TYPES,
+  CLOCK_DRIFT_PROBE_TIMEOUT,
+  CLOCK_DRIFT_THRESHOLD,
+  STEPS_INTERVAL,
+  BATTERY_POLLING_INTERVAL,
+  COMMAND_TIMEOUTS,
+  REQUEST_TIMEOUT,
+  REQUEST_RETRIES,
+  RSSI_STALE_AFTER,
+  SAMPLE_RATE_REPORT_INTERVAL,
+  RECONNECT_MAX_ATTEMPTS,
+  RECONNECT_BASE_DELAY,
+  RECONNECT_MAX_DELAY,
   REAL_TIME_READINGS,
+  REAL_TIME_READING_NAMES,
+  REAL_TIME_READING_TIMEOUTS,
+  REAL_TIME_READING_TIMEOUT,
+  RealTimeReadingType,
+  validatePacket,
   BATTERY_PACKET,
-  createRealTimeHeartRatePacket,
-  createRealTimeHeartRateStopPacket,
-  createRealTimeSpO2Packet,
-  createRealTimeSpO2StopPacket,
+  createRealTimeStartPacket,
+  createRealTimeStopPacket,
   createRawDataEnablePacket,
   createRawDataDisablePacket,
   createStepsPacket,
+  createHeartRateLogPacket,
+  createReadHeartRateLogSettingsPacket,
+  createWriteHeartRateLogSettingsPacket,
+  createSetTimePacket,
+  createBigDataRequestPacket,
   createRebootPacket
 } from './constants';
+import { WebBluetoothTransport } from './transport/web-bluetooth-transport';
+import { EventHandler, TypedEventEmitter } from './typed-event-emitter';
+import { BatteryTracker } from './battery-tracker';
+import { AccelerometerBuffer } from './accelerometer-buffer';
+import { PacketCapture, hexToBytes } from './packet-capture';
+import { decodePacket } from './packet-decoder';
+import { RssiSmoother, toSignalStrength } from './signal-strength';
+import { AccelerometerResampler, SampleClock, SampleRateMonitor } from './sample-rate';
+import { PpgBeatDetector } from './ppg-beat-detector';
+
+/**
+ * Request waiting for its response packet(s)
+ */
+interface PendingRequest {
+  /** Receives each response packet for the request */
+  onPacket: (packet: Uint8Array) => void;
+  /** Fails the request (ring error response, disconnect) */
+  onError: (error: Error) => void;
+  /** Keeps the response packets away from data events and callbacks */
+  silent?: boolean;
+}
+
+/**
+ * Request options only the service itself uses
+ */
+interface InternalRequestOptions extends RequestOptions {
+  /** Read the response without emitting data events or updating state */
+  silent?: boolean;
+}
+
+/**
+ * State of one real-time reading the ring is streaming
+ */
+interface RealTimeSession {
+  /** When the last packet for this reading type arrived */
+  lastPacketTime: number;
+  /** Watchdog that warns when packets stop arriving */
+  timeoutCheck: ReturnType<typeof setInterval> | null;
+}
+
+/**
+ * Big data frame being reassembled from notification chunks
+ */
+interface BigDataAssembly {
+  /** Complete frame once all chunks are in, null between frames */
+  buffer: Uint8Array | null;
+  /** Bytes copied into the buffer so far */
+  received: number;
+}
+
+/**
+ * Decoder state of a capture replay, kept apart from the live connection
+ */
+interface ReplayState {
+  bigData: BigDataAssembly;
+  newCalorieProtocol: boolean;
+  beatDetector: PpgBeatDetector;
+  ppgClock: SampleClock;
+}
+
+/**
+ * Advice logged when a real-time reading stalls
+ */
+const REAL_TIME_TIMEOUT_HINTS: Partial<Record<RealTimeReadingType, string>> = {
+  [REAL_TIME_READINGS.HEART_RATE]: 'Try repositioning the ring or restart monitoring if needed',
+  [REAL_TIME_READINGS.SPO2]: 'SpO2 readings take longer than heart rate - keep ring still',
+};
 
 export class ColmiRingService {
-  private device: BluetoothDevice | null = null;
-  private server: BluetoothRemoteGATTServer | null = null;
-  private service: BluetoothRemoteGATTService | null = null;
-  private writeCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private notifyCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private transport: RingTransport;
   private connected: boolean = false;
-  private isPollingHeartRate: boolean = false;
-  private isPollingSpO2: boolean = false;
+  private frameUnsubscribe: (() => void) | null = null;
+  private connectionEventUnsubscribe: (() => void) | null = null;
+  private events = new TypedEventEmitter<RingEventMap>();
+  private dataCallback: ((data: RingData) => void) | undefined;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private commandLocks: Map<number, Promise<unknown>> = new Map();
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private realTimeSessions: Map<RealTimeReadingType, RealTimeSession> = new Map();
   private isRawDataMode: boolean = false;
   private heartRatePollingInterval: NodeJS.Timeout | null = null;
-  private lastHeartRatePacketTime: number = 0;
-  private lastSpO2PacketTime: number = 0;
-  private heartRateTimeoutCheck: NodeJS.Timeout | null = null;
-  private spO2TimeoutCheck: NodeJS.Timeout | null = null;
-  private accelerometerCallback: ((data: any) => void) | undefined;
+  private batteryPollingInterval: ReturnType<typeof setInterval> | null = null;
+  private batteryTracker = new BatteryTracker();
+  private packetCapture = new PacketCapture();
+  private accelerometerBuffer = new AccelerometerBuffer();
+  private sampleRateMonitor = new SampleRateMonitor();
+  private resampler: AccelerometerResampler | null = null;
+  private lastSampleRateReport: number | null = null;
+  private sampleRateTimer: ReturnType<typeof setInterval> | null = null;
+  private beatDetector = new PpgBeatDetector();
+  // PPG samples are timed on a sample clock, so BLE delivery jitter stays out of RR intervals
+  private ppgClock = new SampleClock();
+  private accelerometerCallback: ((data: AccelerometerData) => void) | undefined;
+  private stepsNewCalorieProtocol: boolean = false;
+  // Step intervals per ring day ('YYYY-MM-DD'), then by time index
+  private stepHistory: Map<string, Map<number, ActivityData>> = new Map();
+  // Day offset of the most recent steps request, used for "no data" replies
+  private lastStepsDayOffset: number = 0;
+  private lastTimeSync: TimeSyncResult | null = null;
+  private deviceInfo: DeviceInfo | null = null;
+  private bigData: BigDataAssembly = { buffer: null, received: 0 };
+  // Silent reconnect state; the generation changes to cancel a running attempt
+  private reconnectRun: Promise<boolean> | null = null;
+  private reconnectGeneration: number = 0;
+  private reconnectWait: { timer: ReturnType<typeof setTimeout>; resolve: () => void } | null = null;
+  // Advertisement RSSI, smoothed; unknown until the transport reports it
+  private rssiSmoother = new RssiSmoother();
+  private rssiUnwatch: (() => void) | null = null;
+  private rssiStaleTimer: ReturnType<typeof setTimeout> | null = null;
+  private signalStrength: SignalStrength = toSignalStrength(false, null);
+  // Streaming modes active when the link dropped, resumed after reconnecting
+  private modesToRestore: { realTimeReadings: RealTimeReadingType[]; rawAccelerometer: boolean } | null = null;
+
+  /**
+   * @param transport - Link used to reach the ring; defaults to Web Bluetooth
+   */
+  constructor(transport: RingTransport = new WebBluetoothTransport()) {
+    this.transport = transport;
+  }
 
   /**
-   * Initiates device discovery and establishes GATT connection to Colmi ring
+   * Opens the transport and establishes the connection to the Colmi ring
    * @returns Promise<boolean> - true if connection successful, false otherwise
    */
   async connect(): Promise<boolean> {
-    try {
-      // Check if Web Bluetooth is supported
-      if (!navigator.bluetooth) {
-        throw new Error('Web Bluetooth API is not supported in this browser');
+    this.cancelReconnect();
+    this.modesToRestore = null;
+    return this.openConnection(() => this.transport.connect());
+  }
+
+  /**
+   * Silently reconnects to the last ring, retrying with exponential backoff
+   * No device chooser is shown, so this works without a user gesture - after
+   * a dropped link or, with Web Bluetooth, after a page reload. Runs
+   * automatically when the link drops unexpectedly; concurrent calls share
+   * the same attempt.
+   * @param options - Optional attempt limit
+   * @returns Promise<boolean> - true once reconnected, false after giving up or being cancelled
+   */
+  async reconnect(options: ReconnectOptions = {}): Promise<boolean> {
+    if (this.isConnected()) {
+      return true;
+    }
+
+    if (!this.reconnectRun) {
+      const maxAttempts = options.maxAttempts ?? RECONNECT_MAX_ATTEMPTS;
+      const generation = this.reconnectGeneration;
+      // Start after the promise is stored so isReconnecting() holds during the first event
+      this.reconnectRun = Promise.resolve()
+        .then(() => this.runReconnect(maxAttempts, generation))
+        .finally(() => {
+          this.reconnectRun = null;
+        });
+    }
+
+    return this.reconnectRun;
+  }
+
+  /**
+   * Returns whether a silent reconnect is in progress
+   * @returns boolean - true while reconnect attempts are being made
+   */
+  isReconnecting(): boolean {
+    return this.reconnectRun !== null;
+  }
+
+  /**
+   * Stops a silent reconnect in progress
+   */
+  cancelReconnect(): void {
+    this.reconnectGeneration++;
+    if (this.reconnectWait) {
+      clearTimeout(this.reconnectWait.timer);
+      this.reconnectWait.resolve();
+      this.reconnectWait = null;
+    }
+  }
+
+  /**
+   * Reconnect loop behind reconnect()
+   */
+  private async runReconnect(maxAttempts: number, generation: number): Promise<boolean> {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delayMs = attempt === 1
+        ? 0
+        : Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 2), RECONNECT_MAX_DELAY);
+
+      // Cancelled before this attempt started
+      if (generation !== this.reconnectGeneration) {
+        return false;
+      }
+
+      this.events.emit('reconnecting', { attempt, maxAttempts, delayMs });
+      await this.waitBeforeReconnect(delayMs);
+      if (generation !== this.reconnectGeneration) {
+        return false;
+      }
+
+      console.log(`Reconnecting to ring (attempt ${attempt}/${maxAttempts})`);
+      if (await this.openConnection(() => this.transport.reconnect())) {
+        // connect() or disconnect() may have been called while the link came up
+        if (generation !== this.reconnectGeneration) {
+          return this.isConnected();
+        }
+
+        console.log('Reconnected to ring');
+        this.events.emit('reconnected', undefined);
+        await this.restoreModes();
+        return true;
       }
 
-      // Request device with Colmi-specific filters
-      // Since your ring "R02_4101" is already paired, we'll use a more flexible approach
+      if (generation !== this.reconnectGeneration) {
+        return false;
+      }
+    }
+
+    console.warn(`Giving up reconnecting after ${maxAttempts} attempts`);
+    this.modesToRestore = null;
+    this.events.emit('reconnectFailed', undefined);
+    return false;
+  }
+
+  /**
+   * Restarts the streaming modes that were active when the link dropped
+   * Modes that fail to start are reported instead of retried.
+   */
+  private async restoreModes(): Promise<void> {
+    const modes = this.modesToRestore;
+    this.modesToRestore = null;
+    if (!modes || (modes.realTimeReadings.length === 0 && !modes.rawAccelerometer)) {
+      return;
+    }
+
+    const restored: RestoredModes = {
+      realTimeReadings: [],
+      rawAccelerometer: false,
+      failedRealTimeReadings: [],
+      rawAccelerometerFailed: false,
+    };
+
+    for (const type of modes.realTimeReadings) {
       try {
-        // First try with specific name patterns
-        const filters = [];
-
-        // Add namePrefix filters for wildcard patterns
-        filters.push({ namePrefix: 'R02_' });
-        filters.push({ namePrefix: 'R09_' });
-
-        // Add exact name filters
-        filters.push({ name: 'Colmi R02' });
-        filters.push({ name: 'Colmi R09' });
-        filters.push({ name: 'R02' });
-        filters.push({ name: 'R09' });
-
-        this.device = await navigator.bluetooth.requestDevice({
-          filters: filters,
-          optionalServices: [COLMI_BLE_CONFIG.serviceUUID]
-        });
-      } catch (filterError) {
-        // If specific filters fail, try a more general approach
-        console.log('Specific filters failed, trying general scan:', filterError);
+        await this.startRealTimeReading(type);
+        restored.realTimeReadings.push(type);
+      } catch (error) {
+        console.warn(`Failed to resume real-time ${REAL_TIME_READING_NAMES[type]}:`, error);
+        restored.failedRealTimeReadings.push(type);
+      }
+    }
 
-        this.device = await navigator.bluetooth.requestDevice({
-          acceptAllDevices: true,
-          optionalServices: [COLMI_BLE_CONFIG.serviceUUID]
-        });
+    if (modes.rawAccelerometer) {
+      try {
+        await this.startRawDataMode();
+        restored.rawAccelerometer = true;
+      } catch (error) {
+        console.warn('Failed to resume raw data mode:', error);
+        restored.rawAccelerometerFailed = true;
       }
+    }
 
-      // Add disconnect event listener
-      this.device.addEventListener('gattserverdisconnected', this.handleDisconnection.bind(this));
+    this.events.emit('modesRestored', restored);
+  }
 
-      // Connect to GATT server
-      this.server = await this.device.gatt!.connect();
+  /**
+   * Waits between reconnect attempts; cut short by cancelReconnect()
+   */
+  private waitBeforeReconnect(delayMs: number): Promise<void> {
+    if (delayMs <= 0) {
+      return Promise.resolve();
+    }
 
-      // Get the primary service
-      this.service = await this.server.getPrimaryService(COLMI_BLE_CONFIG.serviceUUID);
+    return new Promise(resolve => {
+      this.reconnectWait = {
+        timer: setTimeout(() => {
+          this.reconnectWait = null;
+          resolve();
+        }, delayMs),
+        resolve,
+      };
+    });
+  }
 
-      // Get characteristics for communication
-      this.writeCharacteristic = await this.service.getCharacteristic(
-        COLMI_BLE_CONFIG.writeCharacteristicUUID
-      );
+  /**
+   * Opens the link with the given transport call and sets up the connection
+   * @param open - transport.connect() or transport.reconnect()
+   * @returns Promise<boolean> - true if connection successful, false otherwise
+   */
+  private async openConnection(open: () => Promise<void>): Promise<boolean> {
+    // connect(), disconnect() and cancelReconnect() supersede an attempt still opening
+    const generation = this.reconnectGeneration;
 
-      this.notifyCharacteristic = await this.service.getCharacteristic(
-        COLMI_BLE_CONFIG.notifyCharacteristicUUID
-      );
+    try {
+      // Listen for link drops before connecting so none are missed
+      this.connectionEventUnsubscribe?.();
+      this.connectionEventUnsubscribe = this.transport.onConnectionEvent((event) => {
+        if (event === 'disconnected') {
+          this.handleDisconnection();
+        }
+      });
+
+      await open();
+
+      // The newer connection owns the subscriptions; leave them to it
+      if (generation !== this.reconnectGeneration) {
+        console.log('Dropping a superseded connection attempt');
+        return false;
+      }
+
+      // Single frame subscription for the whole connection: replies to
+      // correlated requests and unsolicited notifications both arrive here
+      this.frameUnsubscribe = await this.transport.subscribe((frame, channel) => this.handleFrame(frame, channel));
 
       this.connected = true;
+
+      // Identify the exact model and firmware for diagnostics
+      try {
+        this.deviceInfo = await this.transport.readDeviceInfo();
+        this.events.emit('deviceInfo', this.deviceInfo);
+      } catch (error) {
+        console.warn('Failed to read device information:', error);
+      }
+
+      // Keep the ring's RTC on UTC so history timestamps can be trusted
+      try {
+        await this.syncTime();
+      } catch (error) {
+        console.warn('Failed to sync ring clock:', error);
+      }
+
+      this.startBatteryPolling();
+      this.startSignalMonitoring();
+
       return true;
 
     } catch (error) {
@@ -118,7 +419,9 @@ export class ColmiRingService {
         }
       }
 
-      this.cleanup();
+      if (generation === this.reconnectGeneration) {
+        this.cleanup();
+      }
       return false;
     }
   }
@@ -128,9 +431,21 @@ export class ColmiRingService {
    * @returns Promise<void>
    */
   async disconnect(): Promise<void> {
+    const reconnectRun = this.reconnectRun;
+    this.cancelReconnect();
+    this.modesToRestore = null;
+
+    // A requested disconnect must not trigger a silent reconnect
+    this.connectionEventUnsubscribe?.();
+    this.connectionEventUnsubscribe = null;
+
     try {
-      if (this.server && this.server.connected) {
-        this.server.disconnect();
+      // Let a reconnect attempt that is still opening finish, so its link is closed too
+      if (reconnectRun) {
+        await reconnectRun.catch(() => false);
+      }
+      if (this.transport.isConnected()) {
+        await this.transport.disconnect();
       }
     } catch (error) {
       console.error('Error during disconnect:', error);
@@ -144,7 +459,7 @@ export class ColmiRingService {
    * @returns boolean - true if connected, false otherwise
    */
   isConnected(): boolean {
-    return this.connected && this.server?.connected === true;
+    return this.connected && this.transport.isConnected();
   }
 
   /**
@@ -152,7 +467,7 @@ export class ColmiRingService {
    * @returns boolean - true if monitoring, false otherwise
    */
   isHeartRateMonitoring(): boolean {
-    return this.isPollingHeartRate;
+    return this.realTimeSessions.has(REAL_TIME_READINGS.HEART_RATE);
   }
 
   /**
@@ -160,7 +475,7 @@ export class ColmiRingService {
    * @returns boolean - true if monitoring, false otherwise
    */
   isSpO2Monitoring(): boolean {
-    return this.isPollingSpO2;
+    return this.realTimeSessions.has(REAL_TIME_READINGS.SPO2);
   }
 
   /**
@@ -171,206 +486,741 @@ export class ColmiRingService {
     return this.isRawDataMode;
   }
 
+  /**
+   * Subscribes to a typed ring event
+   * Subscriptions survive reconnects; call the returned function to remove them.
+   * @param event - Event name (heartRate, spO2, battery, steps, stepsInterval, accelerometer, ppg, ppgBeat, spO2Raw, rawPacket, disconnected, reconnecting, ...)
+   * @param handler - Function called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof RingEventMap>(event: K, handler: EventHandler<RingEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a handler registered with on()
+   * @param event - Event name
+   * @param handler - Handler passed to on()
+   */
+  off<K extends keyof RingEventMap>(event: K, handler: EventHandler<RingEventMap[K]>): void {
+    this.events.off(event, handler);
+  }
+
   /**
    * Enables data notifications from the ring
+   * Calling this again replaces the previous callbacks instead of adding more.
+   * @deprecated Use on() to subscribe to individual events
    * @param callback - Function to call when new data is received
    * @param accelerometerCallback - Optional function to call when accelerometer data is received
    * @returns Promise<void>
    */
   async startNotifications(
     callback: (data: RingData) => void,
-    accelerometerCallback?: (data: any) => void
+    accelerometerCallback?: (data: AccelerometerData) => void
   ): Promise<void> {
-    if (!this.notifyCharacteristic) {
+    if (!this.isConnected()) {
       throw new Error('Not connected to ring or notification characteristic not available');
     }
 
-    // Store the accelerometer callback for use in parseData
+    // Frames already flow from the transport subscription opened in connect()
+    this.dataCallback = callback;
     this.accelerometerCallback = accelerometerCallback;
+  }
 
-    // Set up notification handler
-    this.notifyCharacteristic.addEventListener('characteristicvaluechanged', (event) => {
-      const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
-      const data = this.parseData(characteristic.value!);
-      if (data) {
-        callback(data);
+  /**
+   * Reads the battery level and charging state from the ring
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<BatteryInfo> - Resolves when the ring answers
+   */
+  async getBattery(options?: RequestOptions): Promise<BatteryInfo> {
+    let battery: BatteryInfo | null = null;
+
+    await this.request(BATTERY_PACKET, 'battery request', (packet) => {
+      const decoded = decodePacket(packet);
+      if (decoded.kind !== 'battery') {
+        throw new Error('Invalid battery response');
       }
-    });
+      battery = decoded.battery;
+      return true;
+    }, options);
 
-    // Start notifications
-    await this.notifyCharacteristic.startNotifications();
+    return battery!;
   }
 
   /**
-   * Requests battery information from the ring
-   * @returns Promise<void>
+   * Returns the battery readings recorded since the app started, oldest first
+   * @returns BatterySample[] - Level, charging flag and usage mode per reading
    */
-  async requestBattery(): Promise<void> {
-    if (!this.isConnected()) {
-      throw new Error('Ring is not connected');
+  getBatteryHistory(): BatterySample[] {
+    return this.batteryTracker.getHistory();
+  }
+
+  /**
+   * Estimates drain rates, charge sessions and time-to-empty/full
+   * @returns BatteryAnalytics - Predictions for the current usage mode
+   */
+  getBatteryAnalytics(): BatteryAnalytics {
+    return this.batteryTracker.getAnalytics(this.getUsageMode());
+  }
+
+  /**
+   * Returns the usage mode that currently dominates battery drain
+   * @returns UsageMode - Raw accelerometer streaming outranks live optical readings
+   */
+  getUsageMode(): UsageMode {
+    if (this.isRawDataMode) {
+      return 'rawAccelerometer';
+    }
+    if (this.realTimeSessions.size > 0) {
+      return 'liveHeartRate';
+    }
+    return 'idle';
+  }
+
+  /**
+   * Returns the buffer raw accelerometer samples are written to
+   * Read it in batches (e.g. once per animation frame) instead of
+   * subscribing to every 'accelerometer' event when rendering.
+   * @returns AccelerometerBuffer - The same buffer for the life of the service
+   */
+  getAccelerometerBuffer(): AccelerometerBuffer {
+    return this.accelerometerBuffer;
+  }
+
+  /**
+   * Returns the measured timing of the raw accelerometer stream
+   * @returns SampleRateStats - Rate, jitter and gaps since raw data mode started
+   */
+  getSampleRateStats(): SampleRateStats {
+    return { ...this.sampleRateMonitor.getStats(performance.now()), resampleRateHz: this.resampler?.rateHz ?? null };
+  }
+
+  /**
+   * Returns heart rate and HRV from beats detected in the raw PPG waveform
+   * Compare with the ring's own 'heartRate' readings; the ring does not report RMSSD or SDNN.
+   * @returns PpgHeartRateStats - Figures are null until enough beats arrive
+   */
+  getPpgHeartRateStats(): PpgHeartRateStats {
+    return this.beatDetector.getStats();
+  }
+
+  /**
+   * Resamples raw accelerometer samples to a fixed rate before they reach
+   * the buffer and 'accelerometer' listeners, by linear interpolation
+   * @param rateHz - Output rate, or null to pass samples through as received
+   */
+  setAccelerometerResampleRate(rateHz: number | null): void {
+    this.resampler = rateHz === null ? null : new AccelerometerResampler(rateHz);
+    this.events.emit('sampleRate', this.getSampleRateStats());
+  }
+
+  /**
+   * Returns the smoothed signal strength of the ring
+   * @returns SignalStrength - RSSI is null while unknown or unsupported
+   */
+  getSignalStrength(): SignalStrength {
+    return this.signalStrength;
+  }
+
+  /**
+   * Starts following advertisement RSSI where the transport supports it
+   */
+  private async startSignalMonitoring(): Promise<void> {
+    this.stopSignalMonitoring();
+
+    if (!this.transport.watchRssi) {
+      this.updateSignalStrength(false);
+      return;
     }
 
     try {
-      await this.sendCommand(BATTERY_PACKET, 'battery request');
+      const unwatch = await this.transport.watchRssi(rssi => this.handleRssi(rssi));
+      if (!this.connected) {
+        unwatch();
+        return;
+      }
+      this.rssiUnwatch = unwatch;
+      this.updateSignalStrength(true);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to request battery: ${errorMessage}`);
+      console.log('Signal strength unavailable:', error);
+      this.updateSignalStrength(false);
     }
   }
 
   /**
-   * Starts real-time heart rate monitoring
-   * Based on Python client approach - no continue commands needed
-   * @returns Promise<void>
+   * Smooths a new RSSI reading and forgets it if no other follows in time
    */
-  async startRealTimeHeartRate(): Promise<void> {
-    if (!this.isConnected()) {
-      throw new Error('Ring is not connected');
+  private handleRssi(rssi: number): void {
+    this.rssiSmoother.add(rssi);
+
+    if (this.rssiStaleTimer) {
+      clearTimeout(this.rssiStaleTimer);
     }
+    this.rssiStaleTimer = setTimeout(() => {
+      this.rssiStaleTimer = null;
+      this.rssiSmoother.reset();
+      this.updateSignalStrength(this.signalStrength.supported);
+    }, RSSI_STALE_AFTER);
 
-    if (this.isPollingHeartRate) {
-      return; // Already polling
+    this.updateSignalStrength(true);
+  }
+
+  /**
+   * Stops following RSSI and forgets the last readings
+   */
+  private stopSignalMonitoring(): void {
+    this.rssiUnwatch?.();
+    this.rssiUnwatch = null;
+    if (this.rssiStaleTimer) {
+      clearTimeout(this.rssiStaleTimer);
+      this.rssiStaleTimer = null;
     }
+    this.rssiSmoother.reset();
+  }
 
-    try {
-      const startPacket = createRealTimeHeartRatePacket();
-      await this.sendCommand(startPacket, 'start real-time heart rate');
-      this.isPollingHeartRate = true;
-      this.lastHeartRatePacketTime = Date.now();
+  /**
+   * Stores and reports the current signal strength
+   */
+  private updateSignalStrength(supported: boolean): void {
+    this.signalStrength = toSignalStrength(supported, this.rssiSmoother.get());
+    this.events.emit('signalStrength', this.signalStrength);
+  }
 
-      // Start monitoring for timeout (if no packets received for 10 seconds)
-      this.startHeartRateTimeoutMonitoring();
+  /**
+   * Reads the battery now and then periodically while connected
+   */
+  private startBatteryPolling(): void {
+    this.stopBatteryPolling();
 
-      console.log('Heart rate monitoring started - ring will send readings automatically');
-      console.log('Make sure ring is properly positioned on your finger for best results');
+    const poll = () => {
+      this.getBattery({ retries: 0 }).catch(error => {
+        console.warn('Battery poll failed:', error);
+      });
+    };
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to start real-time heart rate: ${errorMessage}`);
-    }
+    poll();
+    this.batteryPollingInterval = setInterval(poll, BATTERY_POLLING_INTERVAL);
   }
 
   /**
-   * Monitors for heart rate timeout and provides feedback
+   * Stops periodic battery reads
    */
-  private startHeartRateTimeoutMonitoring(): void {
-    if (this.heartRateTimeoutCheck) {
-      clearInterval(this.heartRateTimeoutCheck);
+  private stopBatteryPolling(): void {
+    if (this.batteryPollingInterval) {
+      clearInterval(this.batteryPollingInterval);
+      this.batteryPollingInterval = null;
     }
+  }
 
-    this.heartRateTimeoutCheck = setInterval(() => {
-      if (!this.isPollingHeartRate) {
-        this.stopHeartRateTimeoutMonitoring();
-        return;
+  /**
+   * Reads the 15-minute step intervals stored on the ring for one day
+   * @param dayOffset - Days back from today (0 = today, 1 = yesterday, etc.)
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<ActivityData[]> - Intervals for that day, empty if none
+   */
+  async getSteps(dayOffset: number = 0, options?: RequestOptions): Promise<ActivityData[]> {
+    this.lastStepsDayOffset = dayOffset;
+    return this.readStepIntervals(dayOffset, options);
+  }
+
+  /**
+   * Requests and collects the step intervals for one day
+   */
+  private async readStepIntervals(dayOffset: number, options?: InternalRequestOptions): Promise<ActivityData[]> {
+    let intervals: ActivityData[] = [];
+    let newCalorieProtocol = false;
+
+    await this.request(createStepsPacket(dayOffset), `steps request (${dayOffset} days back)`, (packet) => {
+      const decoded = decodePacket(packet, { newCalorieProtocol });
+
+      switch (decoded.kind) {
+        case 'stepsNoData':
+          return true;
+
+        // Metadata packet precedes the interval packets
+        case 'stepsHeader':
+          intervals = [];
+          newCalorieProtocol = decoded.newCalorieProtocol;
+          return false;
+
+        case 'stepsInterval':
+          intervals.push(decoded.interval);
+          return decoded.packetIndex >= decoded.packetCount - 1;
+
+        default:
+          return false;
       }
+    }, options);
 
-      const timeSinceLastPacket = Date.now() - this.lastHeartRatePacketTime;
+    return intervals;
+  }
+
+  /**
+   * Downloads the background heart-rate log the ring recorded for one day
+   * Based on Python client's HeartRateLogParser. The response spans several
+   * packets: a header (sub-type 0) with packet count and logging interval,
+   * a first data packet (sub-type 1) carrying the log's start timestamp and
+   * 9 readings, then packets of 13 readings each.
+   * @param date - Any time within the requested UTC day, defaults to today
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<HeartRateLog> - Timestamped samples, empty if the ring has none
+   */
+  async getHeartRateLog(date: Date = new Date(), options?: RequestOptions): Promise<HeartRateLog> {
+    const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    let packetCount = 0;
+    let intervalMinutes = 5;
+    let logStart = dayStart;
+    let readings: number[] = [];
+
+    await this.request(createHeartRateLogPacket(dayStart), 'heart rate log request', (packet) => {
+      const decoded = decodePacket(packet);
+
+      switch (decoded.kind) {
+        // No log stored for the requested day
+        case 'heartRateLogNoData':
+          readings = [];
+          return true;
+
+        case 'heartRateLogHeader':
+          packetCount = decoded.packetCount;
+          intervalMinutes = decoded.intervalMinutes || intervalMinutes;
+          readings = [];
+          return packetCount === 0;
+
+        case 'heartRateLogData':
+          if (decoded.startTime) {
+            logStart = decoded.startTime;
+          }
+          readings.push(...decoded.readings);
+          return decoded.packetIndex >= packetCount - 1;
 
-      if (timeSinceLastPacket > 10000) { // 10 seconds without packets
-        console.warn('⚠️ Heart rate monitoring may have stopped - no packets received for 10 seconds');
-        console.log('💡 Try repositioning the ring or restart monitoring if needed');
+        default:
+          return false;
       }
-    }, 5000); // Check every 5 seconds
+    }, options);
+
+    // The last packet is padded past the end of the day
+    const slotsPerDay = Math.floor((24 * 60) / intervalMinutes);
+    const samples = readings
+      .slice(0, slotsPerDay)
+      .map((heartRate, index) => ({
+        timestamp: new Date(logStart.getTime() + index * intervalMinutes * 60000),
+        heartRate,
+      }))
+      .filter(sample => sample.heartRate > 0 && sample.heartRate < 255);
+
+    return { date: dayStart, intervalMinutes, samples };
   }
 
   /**
-   * Stops heart rate timeout monitoring
+   * Reads the background heart-rate logging configuration
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<HeartRateLogSettings> - Current enabled flag and interval
    */
-  private stopHeartRateTimeoutMonitoring(): void {
-    if (this.heartRateTimeoutCheck) {
-      clearInterval(this.heartRateTimeoutCheck);
-      this.heartRateTimeoutCheck = null;
+  async getHeartRateLogSettings(options?: RequestOptions): Promise<HeartRateLogSettings> {
+    let settings: HeartRateLogSettings | null = null;
+
+    await this.request(createReadHeartRateLogSettingsPacket(), 'heart rate log settings request', (packet) => {
+      const decoded = decodePacket(packet);
+      if (decoded.kind === 'heartRateLogSettings') {
+        settings = decoded.settings;
+      }
+      return true;
+    }, options);
+
+    if (!settings) {
+      throw new Error('Ring returned no heart rate log settings');
     }
+    return settings;
   }
 
   /**
-   * Stops real-time heart rate monitoring
-   * @returns Promise<void>
+   * Changes the background heart-rate logging configuration
+   * The ring only fills its heart-rate log while logging is enabled.
+   * @param settings - Enabled flag and interval in minutes (1-255)
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<HeartRateLogSettings> - Settings as confirmed by the ring
    */
-  async stopRealTimeHeartRate(): Promise<void> {
+  async setHeartRateLogSettings(settings: HeartRateLogSettings, options?: RequestOptions): Promise<HeartRateLogSettings> {
+    const packet = createWriteHeartRateLogSettingsPacket(settings.enabled, settings.intervalMinutes);
+    let confirmed: HeartRateLogSettings = settings;
+
+    await this.request(packet, 'heart rate log settings update', (response) => {
+      // Some firmwares answer the write with an empty acknowledgement
+      const decoded = decodePacket(response);
+      if (decoded.kind === 'heartRateLogSettings' && decoded.settings) {
+        confirmed = decoded.settings;
+      }
+      return true;
+    }, options);
+
+    return confirmed;
+  }
+
+  /**
+   * Downloads the sleep sessions stored on the ring
+   * Uses the big data exchange, so the ring must expose the V2 service.
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<SleepSession[]> - Sessions oldest first, empty if none are stored
+   */
+  async getSleepHistory(options?: RequestOptions): Promise<SleepSession[]> {
+    let sessions: SleepSession[] = [];
+
+    await this.request(createBigDataRequestPacket(BIG_DATA_TYPES.SLEEP), 'sleep history request', (frame) => {
+      const decoded = decodePacket(frame);
+      if (decoded.kind !== 'sleepHistory') {
+        return false;
+      }
+      sessions = decoded.sessions;
+      return true;
+    }, options);
+
+    return sessions;
+  }
+
+  /**
+   * Downloads the hourly SpO2 ranges stored on the ring
+   * Uses the big data exchange, so the ring must expose the V2 service.
+   * @param options - Optional timeout/retry overrides
+   * @returns Promise<SpO2HistorySample[]> - Samples oldest first, empty if none are stored
+   */
+  async getSpO2History(options?: RequestOptions): Promise<SpO2HistorySample[]> {
+    let samples: SpO2HistorySample[] = [];
+
+    await this.request(createBigDataRequestPacket(BIG_DATA_TYPES.SPO2), 'SpO2 history request', (frame) => {
+      const decoded = decodePacket(frame);
+      if (decoded.kind !== 'spO2History') {
+        return false;
+      }
+      samples = decoded.samples;
+      return true;
+    }, options);
+
+    return samples;
+  }
+
+  /**
+   * Sets the ring's clock to the current time (UTC)
+   * Runs automatically after connect(). Before writing, the newest step
+   * interval stored on the ring is compared with the host clock to estimate
+   * how far the ring had drifted.
+   * @returns Promise<TimeSyncResult> - Sync time and measured drift
+   */
+  async syncTime(): Promise<TimeSyncResult> {
     if (!this.isConnected()) {
-      return;
+      throw new Error('Ring is not connected');
     }
 
-    if (!this.isPollingHeartRate) {
-      return; // Not polling
+    const driftMs = await this.measureClockDrift();
+    const syncedAt = new Date();
+
+    try {
+      await this.sendCommand(createSetTimePacket(syncedAt), 'set time');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to sync ring time: ${errorMessage}`);
     }
 
+    // An old newest interval may only mean the ring saw no steps since, so only drift ahead is flagged
+    const result: TimeSyncResult = {
+      syncedAt,
+      driftMs,
+      driftDetected: driftMs !== null && driftMs > CLOCK_DRIFT_THRESHOLD,
+    };
+
+    if (result.driftDetected) {
+      console.warn(`⏰ Ring clock was ahead by ~${Math.round(driftMs! / 60000)} minutes - corrected`);
+    }
+
+    this.lastTimeSync = result;
+    this.events.emit('timeSync', result);
+    return result;
+  }
+
+  /**
+   * Returns the result of the most recent clock sync
+   * @returns TimeSyncResult | null - null if the clock has not been synced yet
+   */
+  getLastTimeSync(): TimeSyncResult | null {
+    return this.lastTimeSync;
+  }
+
+  /**
+   * Returns the model and firmware information read when connecting
+   * Kept after disconnecting so bug reports still identify the last ring.
+   * @returns DeviceInfo | null - null if it has not been read yet
+   */
+  getDeviceInfo(): DeviceInfo | null {
+    return this.deviceInfo;
+  }
+
+  /**
+   * Returns every frame captured since the capture was last cleared
+   * @returns CapturedPacket[] - Sent and received frames, oldest first
+   */
+  getCapturedPackets(): CapturedPacket[] {
+    return this.packetCapture.getPackets();
+  }
+
+  /**
+   * Starts or pauses the packet capture, which is off until started
+   */
+  setPacketCaptureEnabled(enabled: boolean): void {
+    this.packetCapture.setEnabled(enabled);
+  }
+
+  /**
+   * Whether sent and received frames are currently being captured
+   */
+  isPacketCaptureEnabled(): boolean {
+    return this.packetCapture.isEnabled();
+  }
+
+  /**
+   * Drops all captured frames
+   */
+  clearPacketCapture(): void {
+    this.packetCapture.clear();
+  }
+
+  /**
+   * Builds a capture file of all captured frames, tagged with the device info
+   * @returns PacketCaptureFile - Serialize with JSON.stringify to save it
+   */
+  exportPacketCapture(): PacketCaptureFile {
+    return this.packetCapture.export(this.deviceInfo);
+  }
+
+  /**
+   * Feeds the received frames of a capture into the parser as if they came from the ring
+   * Events and data callbacks fire as they would live; replayed frames are not
+   * captured again and no ring connection is needed. Replay is safe while
+   * connected: it never answers a pending request or touches the battery
+   * history, step history or a big data transfer in progress.
+   * @param capture - Capture file, e.g. from PacketCapture.parse()
+   * @param options - Replay at once (default) or with the original timing
+   * @returns Promise<number> - Number of frames replayed
+   */
+  async replayCapture(capture: PacketCaptureFile, options: ReplayOptions = {}): Promise<number> {
+    const speed = options.speed ?? 1;
+    if (speed <= 0) {
+      throw new Error('Replay speed must be greater than 0');
+    }
+
+    const received = capture.packets.filter(packet => packet.direction === 'rx');
+    const state: ReplayState = {
+      bigData: { buffer: null, received: 0 },
+      newCalorieProtocol: false,
+      beatDetector: new PpgBeatDetector(),
+      ppgClock: new SampleClock(),
+    };
+    let previousTime = received[0]?.time ?? 0;
+
+    for (const packet of received) {
+      if (options.preserveTiming) {
+        const delay = (packet.time - previousTime) / speed;
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        previousTime = packet.time;
+      }
+      this.replayFrame(hexToBytes(packet.hex), packet.channel, state);
+    }
+
+    return received.length;
+  }
+
+  /**
+   * Estimates the offset of the ring's clock from the host clock
+   * Compares the newest step interval the ring has recorded with the host's
+   * current interval. The read is silent: it emits no steps events and leaves
+   * the step state alone.
+   * @returns Promise<number | null> - Signed drift in milliseconds, positive when the ring is ahead; null if it could not be measured
+   */
+  private async measureClockDrift(): Promise<number | null> {
     try {
-      // Stop timeout monitoring first
-      this.stopHeartRateTimeoutMonitoring();
+      const intervals = await this.readStepIntervals(0, { timeoutMs: CLOCK_DRIFT_PROBE_TIMEOUT, retries: 0, silent: true });
+      if (intervals.length === 0) {
+        return null;
+      }
 
-      const stopPacket = createRealTimeHeartRateStopPacket();
-      await this.sendCommand(stopPacket, 'stop real-time heart rate');
-      this.isPollingHeartRate = false;
-      console.log('Heart rate monitoring stopped');
+      const newest = Math.max(...intervals.map(interval => interval.timestamp.getTime()));
+      const currentInterval = Math.floor(Date.now() / STEPS_INTERVAL) * STEPS_INTERVAL;
+      return newest - currentInterval;
     } catch (error) {
-      console.error('Failed to stop real-time heart rate:', error);
+      console.log('Could not measure ring clock drift:', error);
+      return null;
     }
   }
 
   /**
-   * Starts real-time SpO2 monitoring
-   * Based on Python client approach for SPO2 readings
+   * Requests battery information from the ring
    * @returns Promise<void>
    */
-  async startRealTimeSpO2(): Promise<void> {
+  async requestBattery(): Promise<void> {
     if (!this.isConnected()) {
       throw new Error('Ring is not connected');
     }
 
-    if (this.isPollingSpO2) {
+    try {
+      await this.sendCommand(BATTERY_PACKET, 'battery request');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to request battery: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Starts real-time monitoring for any reading type
+   * The ring keeps sending readings until stopped; a watchdog warns when
+   * they stop arriving.
+   * @param type - One of REAL_TIME_READINGS
+   * @returns Promise<void>
+   */
+  async startRealTimeReading(type: RealTimeReadingType): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Ring is not connected');
+    }
+
+    if (this.realTimeSessions.has(type)) {
       return; // Already polling
     }
 
+    const name = REAL_TIME_READING_NAMES[type];
+
     try {
-      const startPacket = createRealTimeSpO2Packet();
-      await this.sendCommand(startPacket, 'start real-time SpO2');
-      this.isPollingSpO2 = true;
-      this.lastSpO2PacketTime = Date.now();
+      await this.sendCommand(createRealTimeStartPacket(type), `start real-time ${name}`);
+      this.realTimeSessions.set(type, { lastPacketTime: Date.now(), timeoutCheck: null });
 
-      // Start monitoring for timeout
-      this.startSpO2TimeoutMonitoring();
+      // Start monitoring for timeout (if no packets received for a while)
+      this.startRealTimeTimeoutMonitoring(type);
 
-      console.log('SpO2 monitoring started - ring will send readings automatically');
-      console.log('Keep ring still on finger for accurate SpO2 readings');
+      console.log(`Real-time ${name} monitoring started - ring will send readings automatically`);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to start real-time SpO2: ${errorMessage}`);
+      throw new Error(`Failed to start real-time ${name}: ${errorMessage}`);
     }
   }
 
   /**
-   * Monitors for SpO2 timeout and provides feedback
+   * Stops real-time monitoring for a reading type
+   * @param type - One of REAL_TIME_READINGS
+   * @returns Promise<void>
    */
-  private startSpO2TimeoutMonitoring(): void {
-    if (this.spO2TimeoutCheck) {
-      clearInterval(this.spO2TimeoutCheck);
+  async stopRealTimeReading(type: RealTimeReadingType): Promise<void> {
+    if (!this.isConnected()) {
+      return;
     }
 
-    this.spO2TimeoutCheck = setInterval(() => {
-      if (!this.isPollingSpO2) {
-        this.stopSpO2TimeoutMonitoring();
+    if (!this.realTimeSessions.has(type)) {
+      return; // Not polling
+    }
+
+    const name = REAL_TIME_READING_NAMES[type];
+
+    try {
+      // Stop timeout monitoring first
+      this.stopRealTimeTimeoutMonitoring(type);
+
+      await this.sendCommand(createRealTimeStopPacket(type), `stop real-time ${name}`);
+      this.realTimeSessions.delete(type);
+      console.log(`Real-time ${name} monitoring stopped`);
+    } catch (error) {
+      console.error(`Failed to stop real-time ${name}:`, error);
+    }
+  }
+
+  /**
+   * Returns whether real-time monitoring is active for a reading type
+   * @param type - One of REAL_TIME_READINGS
+   * @returns boolean - true if monitoring, false otherwise
+   */
+  isRealTimeReadingActive(type: RealTimeReadingType): boolean {
+    return this.realTimeSessions.has(type);
+  }
+
+  /**
+   * Returns every reading type currently being monitored
+   * @returns RealTimeReadingType[] - Active reading types
+   */
+  getActiveRealTimeReadings(): RealTimeReadingType[] {
+    return Array.from(this.realTimeSessions.keys());
+  }
+
+  /**
+   * Monitors a real-time reading for timeouts and provides feedback
+   */
+  private startRealTimeTimeoutMonitoring(type: RealTimeReadingType): void {
+    const session = this.realTimeSessions.get(type);
+    if (!session) {
+      return;
+    }
+
+    if (session.timeoutCheck) {
+      clearInterval(session.timeoutCheck);
+    }
+
+    const timeout = REAL_TIME_READING_TIMEOUTS[type] ?? REAL_TIME_READING_TIMEOUT;
+    const name = REAL_TIME_READING_NAMES[type];
+
+    session.timeoutCheck = setInterval(() => {
+      if (!this.realTimeSessions.has(type)) {
+        this.stopRealTimeTimeoutMonitoring(type);
         return;
       }
 
-      const timeSinceLastPacket = Date.now() - this.lastSpO2PacketTime;
+      const timeSinceLastPacket = Date.now() - session.lastPacketTime;
+
+      if (timeSinceLastPacket > timeout) {
+        console.warn(`⚠️ Real-time ${name} monitoring may have stopped - no packets received for ${timeout / 1000} seconds`);
+        console.log(`💡 ${REAL_TIME_TIMEOUT_HINTS[type] ?? 'Keep the ring still on your finger or restart monitoring if needed'}`);
+      }
+    }, 5000); // Check every 5 seconds
+  }
+
+  /**
+   * Stops timeout monitoring for a real-time reading
+   */
+  private stopRealTimeTimeoutMonitoring(type: RealTimeReadingType): void {
+    const session = this.realTimeSessions.get(type);
+    if (session?.timeoutCheck) {
+      clearInterval(session.timeoutCheck);
+      session.timeoutCheck = null;
+    }
+  }
+
+  /**
+   * Starts real-time heart rate monitoring
+   * Based on Python client approach - no continue commands needed
+   * @returns Promise<void>
+   */
+  async startRealTimeHeartRate(): Promise<void> {
+    const wasMonitoring = this.isHeartRateMonitoring();
+    await this.startRealTimeReading(REAL_TIME_READINGS.HEART_RATE);
+    if (!wasMonitoring) {
+      console.log('Make sure ring is properly positioned on your finger for best results');
+    }
+  }
 
-      if (timeSinceLastPacket > 15000) { // 15 seconds without packets
-        console.warn('⚠️ SpO2 monitoring may have stopped - no packets received for 15 seconds');
-        console.log('💡 SpO2 readings take longer than heart rate - keep ring still');
-      }
-    }, 5000); // Check every 5 seconds
+  /**
+   * Stops real-time heart rate monitoring
+   * @returns Promise<void>
+   */
+  async stopRealTimeHeartRate(): Promise<void> {
+    await this.stopRealTimeReading(REAL_TIME_READINGS.HEART_RATE);
   }
 
   /**
-   * Stops SpO2 timeout monitoring
+   * Starts real-time SpO2 monitoring
+   * Based on Python client approach for SPO2 readings
+   * @returns Promise<void>
    */
-  private stopSpO2TimeoutMonitoring(): void {
-    if (this.spO2TimeoutCheck) {
-      clearInterval(this.spO2TimeoutCheck);
-      this.spO2TimeoutCheck = null;
+  async startRealTimeSpO2(): Promise<void> {
+    const wasMonitoring = this.isSpO2Monitoring();
+    await this.startRealTimeReading(REAL_TIME_READINGS.SPO2);
+    if (!wasMonitoring) {
+      console.log('Keep ring still on finger for accurate SpO2 readings');
     }
   }
 
@@ -379,25 +1229,7 @@ export class ColmiRingService {
    * @returns Promise<void>
    */
   async stopRealTimeSpO2(): Promise<void> {
-    if (!this.isConnected()) {
-      return;
-    }
-
-    if (!this.isPollingSpO2) {
-      return; // Not polling
-    }
-
-    try {
-      // Stop timeout monitoring first
-      this.stopSpO2TimeoutMonitoring();
-
-      const stopPacket = createRealTimeSpO2StopPacket();
-      await this.sendCommand(stopPacket, 'stop real-time SpO2');
-      this.isPollingSpO2 = false;
-      console.log('SpO2 monitoring stopped');
-    } catch (error) {
-      console.error('Failed to stop real-time SpO2:', error);
-    }
+    await this.stopRealTimeReading(REAL_TIME_READINGS.SPO2);
   }
 
   /**
@@ -412,8 +1244,16 @@ export class ColmiRingService {
 
     try {
       const enablePacket = createRawDataEnablePacket();
+      // Readers should not mistake samples from an earlier session for live ones
+      this.accelerometerBuffer.clear();
+      this.sampleRateMonitor.reset();
+      this.resampler?.reset();
+      this.beatDetector.reset();
+      this.ppgClock.reset();
+      this.reportSampleRate();
       await this.sendCommand(enablePacket, 'enable raw data mode');
       this.isRawDataMode = true;
+      this.startSampleRateReports();
       console.log('Raw data mode enabled - ring will send accelerometer data');
       console.log('Data type 3 packets will contain X/Y/Z accelerometer values');
     } catch (error) {
@@ -439,6 +1279,7 @@ export class ColmiRingService {
       const disablePacket = createRawDataDisablePacket();
       await this.sendCommand(disablePacket, 'disable raw data mode');
       this.isRawDataMode = false;
+      this.stopSampleRateReports();
       console.log('Raw data mode disabled');
     } catch (error) {
       console.error('Failed to disable raw data mode:', error);
@@ -457,6 +1298,7 @@ export class ColmiRingService {
 
     try {
       const stepsPacket = createStepsPacket(0); // 0 = today
+      this.lastStepsDayOffset = 0;
       await this.sendCommand(stepsPacket, 'steps request');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -479,6 +1321,7 @@ export class ColmiRingService {
 
     try {
       const stepsPacket = createStepsPacket(dayOffset);
+      this.lastStepsDayOffset = dayOffset;
       await this.sendCommand(stepsPacket, `detailed steps request (${dayOffset} days back)`);
       console.log(`Requesting detailed step data for ${dayOffset === 0 ? 'today' : `${dayOffset} days ago`}`);
       console.log('This will return multiple packets with 15-minute interval data');
@@ -490,7 +1333,8 @@ export class ColmiRingService {
 
   /**
    * Reboots the ring (restarts the device)
-   * Based on Python client's reboot() method
+   * Based on Python client's reboot() method. The ring drops the link while
+   * it restarts and the silent reconnect picks it up again once it is back.
    * @returns Promise<void>
    */
   async rebootRing(): Promise<void> {
@@ -503,18 +1347,27 @@ export class ColmiRingService {
       await this.sendCommand(rebootPacket, 'ring reboot');
       console.log('🔄 Ring reboot command sent - device will restart');
       console.log('⚠️ Ring will disconnect and may take 10-30 seconds to become available again');
-
-      // The ring will disconnect after reboot, so clean up our connection state
-      setTimeout(() => {
-        this.cleanup();
-      }, 2000); // Give the command time to be processed before cleanup
-
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to reboot ring: ${errorMessage}`);
     }
   }
 
+  /**
+   * Sends an arbitrary frame without waiting for a response
+   * Intended for protocol exploration; responses arrive as 'rawPacket' events,
+   * and as 'packetCaptured' events while capturing. Frames starting with 0xBC go to the big data channel.
+   * @param frame - Complete frame, e.g. from makePacket()
+   * @returns Promise<void>
+   */
+  async sendRawPacket(frame: Uint8Array): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Ring is not connected');
+    }
+
+    await this.sendCommand(frame, `raw command 0x${frame[0].toString(16).padStart(2, '0')}`);
+  }
+
   /**
    * Sends a command to the ring with error handling and timeout protection
    * @param command - Command bytes to send
@@ -523,10 +1376,6 @@ export class ColmiRingService {
    * @throws Error if command transmission fails
    */
   private async sendCommand(command: Uint8Array, commandName: string): Promise<void> {
-    if (!this.writeCharacteristic) {
-      throw new Error('Write characteristic not available');
-    }
-
     try {
       // Validate command format
       if (!command) {
@@ -544,18 +1393,11 @@ export class ColmiRingService {
       }
 
       // Send command with proper error handling
-      // Create a new Uint8Array with proper ArrayBuffer to satisfy TypeScript
-      const buffer = new ArrayBuffer(command.length);
-      const view = new Uint8Array(buffer);
-      view.set(command);
-      await this.writeCharacteristic.writeValue(view);
-
-      // Log successful command transmission
-      console.log(`Successfully sent ${commandName} command:`, Array.from(command).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' '));
+      await this.enqueueWrite(command);
 
     } catch (error) {
       // Handle different types of BLE errors
-      if (error instanceof DOMException) {
+      if (typeof DOMException !== 'undefined' && error instanceof DOMException) {
         switch (error.name) {
           case 'NetworkError':
             throw new Error(`Network error while sending ${commandName}: Device may be out of range`);
@@ -575,290 +1417,563 @@ export class ColmiRingService {
   }
 
   /**
-   * Parses raw data received from the ring into RingData format
-   * @param dataView - Raw data from BLE characteristic
-   * @returns RingData | null - Parsed data or null if parsing fails
+   * Serializes writes so concurrent commands never overlap on the link
+   * @param frame - Bytes to write
+   * @returns Promise<void> - Resolves once this frame has been written
    */
-  private parseData(dataView: DataView): RingData | null {
-    try {
-      if (dataView.byteLength !== 16) {
-        console.warn('Invalid packet length:', dataView.byteLength);
-        return null;
-      }
+  private enqueueWrite(frame: Uint8Array): Promise<void> {
+    // Big data requests go to the V2 characteristic, everything else to the UART one
+    const channel: TransportChannel = frame[0] === COLMI_COMMANDS.BIG_DATA ? 'bigData' : 'command';
+    const write = this.writeQueue.then(() => {
+      this.capturePacket('tx', frame, channel);
+      return this.transport.write(frame, channel);
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
 
-      // Convert DataView to Uint8Array for easier processing
-      const packet = new Uint8Array(dataView.buffer, dataView.byteOffset, dataView.byteLength);
+  /**
+   * Sends a command and waits for the matching response
+   * Responses are matched by command byte, so exchanges for the same command
+   * run one at a time; timed-out requests are re-sent up to `retries` times.
+   * @param frame - Command frame to send
+   * @param commandName - Human-readable command name for error messages
+   * @param onPacket - Receives each response packet, returns true when complete
+   * @param options - Optional timeout/retry overrides; silent requests keep their responses from parseData
+   * @returns Promise<void> - Resolves once onPacket reports completion
+   */
+  private async request(
+    frame: Uint8Array,
+    commandName: string,
+    onPacket: (packet: Uint8Array) => boolean,
+    options: InternalRequestOptions = {}
+  ): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Ring is not connected');
+    }
 
-      // Validate packet checksum
-      if (!this.validatePacket(packet)) {
-        console.warn('Invalid packet checksum:', packet);
-        return null;
-      }
+    const command = frame[0];
+    const timeoutMs = options.timeoutMs ?? COMMAND_TIMEOUTS[command] ?? REQUEST_TIMEOUT;
+    const retries = options.retries ?? REQUEST_RETRIES;
 
-      const command = packet[0];
+    const runExchange = async (): Promise<void> => {
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        const completed = await this.exchange(frame, commandName, onPacket, timeoutMs, options.silent);
+        if (completed) {
+          return;
+        }
+        if (attempt < retries) {
+          console.warn(`No response to ${commandName} after ${timeoutMs}ms, retrying (${attempt + 1}/${retries})`);
+        }
+      }
+      throw new Error(`Timed out waiting for ${commandName} response`);
+    };
 
-      // Log received packet for debugging
-      console.log('Received packet:', Array.from(packet).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' '));
+    // Wait for any earlier exchange on the same command byte
+    const previous = this.commandLocks.get(command) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(runExchange);
+    this.commandLocks.set(command, current);
 
-      // Note: 0xA1 (161) is NOT an error - it's raw data mode!
-      // Only commands with bit 7 set AND not 0xA1 are errors
-      if (command >= 127 && command !== 0xA1) {
-        console.warn('Error response from ring:', packet);
-        return null;
+    try {
+      await current;
+    } finally {
+      if (this.commandLocks.get(command) === current) {
+        this.commandLocks.delete(command);
       }
+    }
+  }
 
-      const data: RingData = {
-        heartRate: null,
-        steps: null,
-        battery: null,
-        spO2: null,
-        accelerometer: null,
-        timestamp: Date.now()
+  /**
+   * Performs a single send/await-response attempt
+   * @returns Promise<boolean> - true if the response completed, false on timeout
+   */
+  private exchange(
+    frame: Uint8Array,
+    commandName: string,
+    onPacket: (packet: Uint8Array) => boolean,
+    timeoutMs: number,
+    silent: boolean = false
+  ): Promise<boolean> {
+    const command = frame[0];
+
+    return new Promise<boolean>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (this.pendingRequests.get(command) === pending) {
+          this.pendingRequests.delete(command);
+        }
       };
 
-      switch (command) {
-        case COLMI_COMMANDS.BATTERY:
-          data.battery = this.parseBattery(packet);
-          break;
+      // Multi-packet responses restart the timer on every packet
+      const armTimer = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => {
+          settle();
+          resolve(false);
+        }, timeoutMs);
+      };
 
-        case COLMI_COMMANDS.REAL_TIME_START:
-          const realTimeData = this.parseRealTimeReading(packet);
-          if (realTimeData !== null) {
-            if (realTimeData.type === 'heartRate') {
-              data.heartRate = realTimeData.value;
-            } else if (realTimeData.type === 'spO2') {
-              data.spO2 = realTimeData.value;
+      const pending: PendingRequest = {
+        onPacket: (packet) => {
+          try {
+            if (onPacket(packet)) {
+              settle();
+              resolve(true);
+            } else {
+              armTimer();
             }
+          } catch (error) {
+            settle();
+            reject(error);
           }
-          break;
+        },
+        onError: (error) => {
+          settle();
+          reject(error);
+        },
+        silent,
+      };
 
-        case COLMI_COMMANDS.STEPS:
-          const steps = this.parseSteps(packet);
-          if (steps !== null) {
-            data.steps = steps;
-          }
-          break;
+      this.pendingRequests.set(command, pending);
+      armTimer();
 
-        case 0xA1: // Raw data packets (from MIDI Ring demo)
-          const rawData = this.parseRawAccelerometerData(packet);
-          if (rawData) {
-            // Add raw accelerometer data to the response
-            data.accelerometer = rawData;
+      this.sendCommand(frame, commandName).catch(pending.onError);
+    });
+  }
 
-            // Also call the dedicated accelerometer callback if provided
-            if (this.accelerometerCallback) {
-              this.accelerometerCallback(rawData);
-            }
+  /**
+   * Routes an incoming frame to its pending request and to data callbacks
+   * @param frame - Raw frame delivered by the transport
+   * @param channel - Characteristic pair the frame arrived on
+   */
+  private handleFrame(frame: Uint8Array, channel: TransportChannel = 'command'): void {
+    this.capturePacket('rx', frame, channel);
+    this.processFrame(frame, channel);
+  }
 
-            console.log('Raw accelerometer data:', rawData);
-          }
-          break;
+  /**
+   * Parses a frame received from the ring
+   * @param frame - Raw frame from the ring
+   * @param channel - Characteristic pair the frame arrived on
+   */
+  private processFrame(frame: Uint8Array, channel: TransportChannel): void {
+    this.events.emit('rawPacket', frame);
+
+    if (channel === 'bigData') {
+      const bigDataFrame = this.reassembleBigData(frame, this.bigData);
+      if (bigDataFrame) {
+        this.pendingRequests.get(COLMI_COMMANDS.BIG_DATA)?.onPacket(bigDataFrame);
+        this.parseBigData(bigDataFrame);
+      }
+      return;
+    }
 
-        default:
-          console.log('Unhandled command:', command, 'packet:', packet);
-          return null;
+    if (validatePacket(frame)) {
+      const command = frame[0];
+      const pending = this.pendingRequests.get(command);
+
+      if (pending) {
+        pending.onPacket(frame);
+        if (pending.silent) {
+          return;
+        }
+      } else if (command & 0x80) {
+        // Error responses echo the command byte with bit 7 set
+        const failed = this.pendingRequests.get(command & 0x7f);
+        failed?.onError(new Error(`Ring returned an error for command ${command & 0x7f}`));
       }
+    }
 
-      return data;
+    const data = this.parseData(frame);
+    if (data) {
+      this.dataCallback?.(data);
+    }
+  }
 
-    } catch (error) {
-      console.error('Error parsing ring data:', error);
-      return null;
+  /**
+   * Parses a frame from a capture file; only emits events and data callbacks
+   * @param frame - Raw frame from the capture
+   * @param channel - Characteristic pair the frame was captured on
+   * @param state - Decoder state of this replay
+   */
+  private replayFrame(frame: Uint8Array, channel: TransportChannel, state: ReplayState): void {
+    this.events.emit('rawPacket', frame);
+
+    if (channel === 'bigData') {
+      const bigDataFrame = this.reassembleBigData(frame, state.bigData);
+      if (bigDataFrame) {
+        this.parseBigData(bigDataFrame);
+      }
+      return;
+    }
+
+    const data = this.parseData(frame, state);
+    if (data) {
+      this.dataCallback?.(data);
     }
   }
 
   /**
-   * Validates a received packet's checksum
+   * Adds a frame to the packet capture and announces it
    */
-  private validatePacket(packet: Uint8Array): boolean {
-    if (packet.length !== 16) {
-      return false;
+  private capturePacket(direction: PacketDirection, frame: Uint8Array, channel: TransportChannel): void {
+    const packet = this.packetCapture.record(direction, frame, channel);
+    if (packet) {
+      this.events.emit('packetCaptured', packet);
     }
+  }
+
+  /**
+   * Measures raw accelerometer timing and reports it at most once per SAMPLE_RATE_REPORT_INTERVAL
+   */
+  private recordSampleArrival(arrival: number): void {
+    this.sampleRateMonitor.record(arrival);
 
-    let checksum = 0;
-    for (let i = 0; i < 15; i++) {
-      checksum += packet[i];
+    if (this.lastSampleRateReport === null || arrival - this.lastSampleRateReport >= SAMPLE_RATE_REPORT_INTERVAL) {
+      this.reportSampleRate();
     }
+  }
 
-    return (checksum & 255) === packet[15];
+  /**
+   * Emits the current raw accelerometer timing
+   */
+  private reportSampleRate(): void {
+    this.lastSampleRateReport = performance.now();
+    this.events.emit('sampleRate', this.getSampleRateStats());
   }
 
   /**
-   * Parses battery data from packet
-   * Based on Python client: battery.py parse_battery()
-   * Format: [CMD, BATTERY_LEVEL, CHARGING_STATUS, ...]
+   * Reports timing every SAMPLE_RATE_REPORT_INTERVAL while raw data mode is on,
+   * so a stalled stream shows up even though no samples arrive
    */
-  private parseBattery(packet: Uint8Array): number | null {
-    try {
-      // Battery level is in byte 1 (0-100) - Python client: packet[1]
-      const batteryLevel = packet[1];
-      // Charging status in byte 2 - Python client: bool(packet[2])
-      const charging = packet[2] !== 0;
+  private startSampleRateReports(): void {
+    this.stopSampleRateReports();
+    this.sampleRateTimer = setInterval(() => this.reportSampleRate(), SAMPLE_RATE_REPORT_INTERVAL);
+  }
 
-      console.log(`Battery info - Level: ${batteryLevel}%, Charging: ${charging}`);
+  /**
+   * Stops the periodic timing reports
+   */
+  private stopSampleRateReports(): void {
+    if (this.sampleRateTimer) {
+      clearInterval(this.sampleRateTimer);
+      this.sampleRateTimer = null;
+    }
+  }
 
-      // Validate battery level range (0-100%)
-      if (batteryLevel < 0 || batteryLevel > 100) {
-        console.warn('Invalid battery level received:', batteryLevel);
+  /**
+   * Collects big data notification chunks into one complete frame
+   * Frame layout: [0xBC, type, length_lo, length_hi, crc_lo, crc_hi, payload...]
+   * where length counts payload bytes only.
+   * @param chunk - One notification from the big data characteristic
+   * @param assembly - Frame being reassembled, updated in place
+   * @returns Uint8Array | null - The complete frame, or null while more chunks are expected
+   */
+  private reassembleBigData(chunk: Uint8Array, assembly: BigDataAssembly): Uint8Array | null {
+    if (!assembly.buffer) {
+      if (chunk.length < 6 || chunk[0] !== COLMI_COMMANDS.BIG_DATA) {
+        console.warn('Ignoring big data chunk without a frame header:', chunk);
         return null;
       }
 
-      return batteryLevel;
-    } catch (error) {
-      console.error('Error parsing battery data:', error);
+      const payloadLength = chunk[2] | (chunk[3] << 8);
+      assembly.buffer = new Uint8Array(payloadLength + 6);
+      assembly.received = 0;
+    }
+
+    const buffer = assembly.buffer;
+    const bytesToCopy = Math.min(chunk.length, buffer.length - assembly.received);
+    buffer.set(chunk.subarray(0, bytesToCopy), assembly.received);
+    assembly.received += bytesToCopy;
+
+    if (assembly.received < buffer.length) {
       return null;
     }
+
+    assembly.buffer = null;
+    assembly.received = 0;
+    return buffer;
+  }
+
+  /**
+   * Emits the history event for a complete big data frame
+   * @param frame - Reassembled big data frame
+   */
+  private parseBigData(frame: Uint8Array): void {
+    const decoded = decodePacket(frame);
+
+    switch (decoded.kind) {
+      case 'sleepHistory':
+        this.events.emit('sleepHistory', decoded.sessions);
+        break;
+      case 'spO2History':
+        this.events.emit('spO2History', decoded.samples);
+        break;
+      case 'invalid':
+        console.warn('Invalid big data frame:', decoded.reason);
+        break;
+      default:
+        console.log('Unhandled big data type:', frame[1], 'length:', frame.length);
+    }
   }
 
   /**
-   * Parses real-time reading data from packet
-   * Format: [CMD, READING_TYPE, ERROR_CODE, VALUE, ...]
-   * Based on Python client: real_time.py parse_real_time_reading()
+   * Parses raw data received from the ring into RingData format
+   * Decoding is done by decodePacket(); this applies the result to service
+   * state and emits the matching events. Replayed frames only emit events
+   * and keep their decoder state in the replay.
+   * @param packet - Raw frame delivered by the transport
+   * @param replay - Decoder state when the frame comes from a capture replay
+   * @returns RingData | null - Parsed data or null if parsing fails
    */
-  private parseRealTimeReading(packet: Uint8Array): { type: 'heartRate' | 'spO2', value: number } | null {
+  private parseData(packet: Uint8Array, replay?: ReplayState): RingData | null {
     try {
-      const readingType = packet[1];
-      const errorCode = packet[2];
-      const value = packet[3];
+      // Monotonic arrival time, so sample intervals are not skewed by wall clock adjustments
+      const arrival = performance.now();
+      const decoded = decodePacket(packet, {
+        newCalorieProtocol: replay ? replay.newCalorieProtocol : this.stepsNewCalorieProtocol,
+        receivedAt: performance.timeOrigin + arrival,
+      });
 
-      // Log additional bytes that might contain sensor data
-      const sensorData1 = packet[6];
-      const sensorData2 = packet[7];
+      const data: RingData = {
+        heartRate: null,
+        steps: null,
+        battery: null,
+        spO2: null,
+        accelerometer: null,
+        timestamp: Date.now()
+      };
 
-      console.log(`Real-time reading - Type: ${readingType}, Error: ${errorCode}, Value: ${value}, SensorData: [${sensorData1}, ${sensorData2}]`);
+      switch (decoded.kind) {
+        case 'invalid':
+          console.warn(`${decoded.reason}:`, packet);
+          return null;
 
-      // Check for errors first
-      if (errorCode !== 0) {
-        console.warn('Real-time reading error code:', errorCode, 'for type:', readingType);
-        return null;
-      }
+        case 'error':
+          console.warn('Error response from ring:', packet);
+          return null;
+
+        case 'battery':
+          data.battery = decoded.battery.level;
+          if (!replay) {
+            this.batteryTracker.record(decoded.battery, this.getUsageMode());
+          }
+          this.events.emit('battery', decoded.battery);
+          break;
+
+        case 'realTime': {
+          // Any packet for a monitored type proves the stream is alive
+          const session = this.realTimeSessions.get(decoded.readingType as RealTimeReadingType);
+          if (session && !replay) {
+            session.lastPacketTime = Date.now();
+          }
+
+          if (decoded.errorCode !== 0) {
+            console.warn('Real-time reading error code:', decoded.errorCode, 'for type:', decoded.readingType);
+          }
+
+          const reading = decoded.reading;
+          switch (reading?.type) {
+            case 'heartRate':
+              data.heartRate = reading.value;
+              this.events.emit('heartRate', reading.value);
+              break;
+            case 'spO2':
+              data.spO2 = reading.value;
+              this.events.emit('spO2', reading.value);
+              break;
+            case 'hrv':
+              this.events.emit('hrv', reading.value);
+              break;
+            case 'bloodPressure':
+              this.events.emit('bloodPressure', reading.value);
+              break;
+            case 'stress':
+              this.events.emit('stress', reading.value);
+              break;
+          }
+          break;
+        }
+
+        case 'stepsNoData':
+          // Report 0 to show in the UI, but only when today was requested
+          if (!replay && this.lastStepsDayOffset === 0) {
+            data.steps = 0;
+            this.events.emit('steps', 0);
+          }
+          break;
 
-      // Process heart rate readings
-      if (readingType === REAL_TIME_READINGS.HEART_RATE) {
-        // Update last packet time for timeout monitoring
-        this.lastHeartRatePacketTime = Date.now();
-
-        // The Python client accepts any non-zero value as valid
-        if (value > 0 && value < 255) {
-          console.log(`✅ Heart rate detected: ${value} BPM (sensor locked on)`);
-          return { type: 'heartRate', value };
-        } else if (value === 0) {
-          // Check sensor mode based on byte 7 pattern observed
-          if (sensorData2 === 3) {
-            console.log(`🔍 HR sensor in pulse detection mode but reading 0 - may have lost contact`);
-          } else if (sensorData2 === 2) {
-            console.log(`🔍 HR sensor searching for pulse (data: ${sensorData1}) - keep ring still`);
+        case 'stepsHeader':
+          // Calorie units for the interval packets that follow
+          if (replay) {
+            replay.newCalorieProtocol = decoded.newCalorieProtocol;
           } else {
-            console.log('💤 HR sensor initializing - make sure ring is on finger with good contact');
+            this.stepsNewCalorieProtocol = decoded.newCalorieProtocol;
+          }
+          break;
+
+        case 'stepsInterval': {
+          if (replay) {
+            this.events.emit('stepsInterval', decoded.interval);
+            break;
+          }
+
+          const steps = this.applyStepsInterval(decoded.interval);
+          if (steps !== null) {
+            data.steps = steps;
+            this.events.emit('steps', steps);
+          }
+          break;
+        }
+
+        case 'accelerometer': {
+          data.accelerometer = decoded.data;
+          if (replay) {
+            this.events.emit('accelerometer', decoded.data);
+            this.accelerometerCallback?.(decoded.data);
+            break;
+          }
+
+          this.recordSampleArrival(arrival);
+
+          const samples = this.resampler ? this.resampler.push(decoded.data) : [decoded.data];
+          for (const sample of samples) {
+            this.accelerometerBuffer.push(sample);
+            this.events.emit('accelerometer', sample);
+            this.accelerometerCallback?.(sample);
+          }
+          break;
+        }
+
+        // Raw optical streams have no RingData field
+        case 'ppg': {
+          const ppgClock = replay ? replay.ppgClock : this.ppgClock;
+          const sample = { ...decoded.data, timestamp: performance.timeOrigin + ppgClock.stamp(arrival) };
+          this.events.emit('ppg', sample);
+
+          const { filtered, beat } = (replay ? replay.beatDetector : this.beatDetector).push(sample);
+          this.events.emit('ppgFiltered', filtered);
+          if (beat) {
+            this.events.emit('ppgBeat', beat);
           }
-          return null;
-        } else {
-          console.warn('Invalid heart rate value:', value);
           return null;
         }
-      }
 
-      // Process SpO2 readings
-      else if (readingType === REAL_TIME_READINGS.SPO2) {
-        // Update last packet time for timeout monitoring
-        this.lastSpO2PacketTime = Date.now();
+        case 'spO2Raw':
+          this.events.emit('spO2Raw', decoded.data);
+          return null;
 
-        // SpO2 values should be between 70-100% typically
-        if (value > 0 && value <= 100) {
-          console.log(`✅ SpO2 detected: ${value}% (oxygen saturation)`);
-          return { type: 'spO2', value };
-        } else if (value === 0) {
-          console.log('🔍 SpO2 sensor measuring - readings may take 10-30 seconds');
+        case 'unknown':
+          console.log('Unhandled command:', decoded.command, 'packet:', packet);
           return null;
-        } else {
-          console.warn('Invalid SpO2 value:', value);
+
+        default:
+          // Request responses (heart rate log, settings, acks) are handled by their pending request
           return null;
-        }
       }
 
-      else {
-        console.log('Unhandled reading type:', readingType, 'value:', value);
-        return null;
-      }
+      return data;
 
     } catch (error) {
-      console.error('Error parsing real-time reading:', error);
+      console.error('Error parsing ring data:', error);
       return null;
     }
   }
 
-  // Store daily step intervals for accumulation
-  private dailyStepIntervals: Map<number, { steps: number; calories: number; distance: number }> = new Map();
-
   /**
-   * Parses steps data from packet
-   * Based on Python client: steps.py SportDetailParser
-   * Steps data comes in multiple packets - this accumulates daily total
+   * Stores a steps interval from the ring and reports it
+   * Each interval is kept under its own date, whether it answers getSteps()
+   * or arrived unsolicited.
+   * @returns number | null - Today's accumulated total, or null for other days
    */
-  private parseSteps(packet: Uint8Array): number | null {
-    try {
-      console.log('Steps packet received:', Array.from(packet).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' '));
+  private applyStepsInterval(interval: ActivityData): number | null {
+    if (interval.steps >= 65535) {
+      return null;
+    }
 
-      // Check for "no data" response (Python client checks packet[1] === 255)
-      if (packet[1] === 255) {
-        console.log('No steps data available for requested day');
-        return 0; // Return 0 instead of null to show in UI
-      }
+    this.storeActivityInterval(interval);
+    this.events.emit('stepsInterval', interval);
 
-      // Check for initial metadata packet (Python client checks packet[1] === 240)
-      if (packet[1] === 240) {
-        console.log('Steps metadata packet received - waiting for data packets');
-        return null; // Wait for actual data packets
-      }
+    // Only today's intervals feed the live daily total
+    const dateKey = this.formatDateKey(interval.year, interval.month, interval.day);
+    if (dateKey !== this.getTodayKey()) {
+      return null;
+    }
 
-      // Parse actual step data packet
-      // Format from Python client: [CMD, year_bcd, month_bcd, day_bcd, time_index, ?, ?, calories_low, calories_high, steps_low, steps_high, distance_low, distance_high, ?, ?, checksum]
-      try {
-        // Convert BCD to decimal for date (Python client: bcd_to_decimal)
-        const year = this.bcdToDecimal(packet[1]) + 2000;
-        const month = this.bcdToDecimal(packet[2]);
-        const day = this.bcdToDecimal(packet[3]);
-        const timeIndex = packet[4]; // 15-minute intervals within a day
-
-        // Extract step count (little-endian 16-bit)
-        const steps = packet[9] | (packet[10] << 8);
-        const calories = packet[7] | (packet[8] << 8);
-        const distance = packet[11] | (packet[12] << 8);
-
-        console.log(`Steps data - Date: ${year}-${month}-${day}, Time: ${timeIndex}, Steps: ${steps}, Calories: ${calories}, Distance: ${distance}m`);
-
-        if (steps >= 0 && steps < 65535) {
-          // Store this interval's data
-          this.dailyStepIntervals.set(timeIndex, { steps, calories, distance });
-
-          // Calculate total daily steps by summing all intervals
-          let totalDailySteps = 0;
-          for (const intervalData of this.dailyStepIntervals.values()) {
-            totalDailySteps += intervalData.steps;
-          }
+    return this.getTotalDailySteps();
+  }
 
-          console.log(`📊 Daily step accumulation: ${totalDailySteps} total steps from ${this.dailyStepIntervals.size} intervals`);
+  /**
+   * Downloads step intervals for several days, one day offset at a time
+   * Intervals are kept per date, so older days never overwrite today and
+   * the history survives disconnects.
+   * @param days - Number of days to fetch, starting with today
+   * @returns Promise<DailyStepSummary[]> - Per-day breakdown, newest first
+   */
+  async syncSteps(days: number = 7): Promise<DailyStepSummary[]> {
+    if (!this.isConnected()) {
+      throw new Error('Ring is not connected');
+    }
 
-          // Return the accumulated daily total
-          return totalDailySteps;
+    for (let dayOffset = 0; dayOffset < days; dayOffset++) {
+      try {
+        const intervals = await this.getSteps(dayOffset);
+        intervals.forEach(interval => this.storeActivityInterval(interval));
+      } catch (error) {
+        if (!this.isConnected()) {
+          throw error;
         }
-      } catch (parseError) {
-        console.log('Could not parse step count from packet:', parseError);
+        console.warn(`Failed to sync steps for ${dayOffset} days back:`, error);
       }
-
-      return null;
-    } catch (error) {
-      console.error('Error parsing steps data:', error);
-      return null;
     }
+
+    const history = this.getStepHistory();
+    this.events.emit('stepHistory', history);
+    return history;
+  }
+
+  /**
+   * Gets the per-day step breakdown collected so far
+   * @returns Daily summaries, newest first
+   */
+  getStepHistory(): DailyStepSummary[] {
+    return Array.from(this.stepHistory.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, intervalMap]) => {
+        const intervals = Array.from(intervalMap.values()).sort((a, b) => a.timeIndex - b.timeIndex);
+        const { year, month, day } = intervals[0];
+
+        return {
+          date,
+          year,
+          month,
+          day,
+          totalSteps: intervals.reduce((sum, interval) => sum + interval.steps, 0),
+          totalCalories: intervals.reduce((sum, interval) => sum + interval.calories, 0),
+          totalDistance: intervals.reduce((sum, interval) => sum + interval.distance, 0),
+          intervals,
+        };
+      });
   }
 
   /**
    * Gets the current daily step breakdown
-   * @returns Map of time intervals to step data
+   * @returns Map of today's time intervals to step data
    */
   getDailyStepBreakdown(): Map<number, { steps: number; calories: number; distance: number }> {
-    return new Map(this.dailyStepIntervals);
+    const breakdown = new Map<number, { steps: number; calories: number; distance: number }>();
+    for (const interval of this.stepHistory.get(this.getTodayKey())?.values() ?? []) {
+      const { steps, calories, distance } = interval;
+      breakdown.set(interval.timeIndex, { steps, calories, distance });
+    }
+    return breakdown;
   }
 
   /**
@@ -867,76 +1982,38 @@ export class ColmiRingService {
    */
   getTotalDailySteps(): number {
     let total = 0;
-    for (const intervalData of this.dailyStepIntervals.values()) {
-      total += intervalData.steps;
+    for (const interval of this.stepHistory.get(this.getTodayKey())?.values() ?? []) {
+      total += interval.steps;
     }
     return total;
   }
 
   /**
-   * Parses raw accelerometer data from packet
-   * Based on @atc1441's MIDI Ring implementation
-   * @param packet Raw data packet from ring
-   * @returns Parsed accelerometer data or null
+   * Stores an interval under its date, replacing any earlier copy
    */
-  private parseRawAccelerometerData(packet: Uint8Array): any | null {
-    try {
-      // Check if this is accelerometer data (data type 3)
-      if (packet.length < 8 || packet[1] !== 3) {
-        return null;
-      }
-
-      // Convert 12-bit signed integer (from @atc1441's code)
-      const int12 = (uint12: number): number => {
-        return uint12 > 2047 ? uint12 - 4096 : uint12;
-      };
-
-      // Extract 12-bit values using bit shifting (from @atc1441)
-      const rawY = int12((((packet[2] << 4) | (packet[3] & 0xf)) & 0xfff));
-      const rawZ = int12((((packet[4] << 4) | (packet[5] & 0xf)) & 0xfff));
-      const rawX = int12((((packet[6] << 4) | (packet[7] & 0xf)) & 0xfff));
-
-      // Convert to G-force values (±4G accelerometer)
-      const convertRawToG = (rawValue: number): number => {
-        const rangeG = 4; // ±4G
-        return (rawValue / 2048) * rangeG;
-      };
-
-      const gX = convertRawToG(rawX);
-      const gY = convertRawToG(rawY);
-      const gZ = convertRawToG(rawZ);
-
-      // Calculate rotation angles (orientation)
-      const rotateX = Math.atan2(gX, Math.sqrt(gY * gY + gZ * gZ));
-      const rotateY = Math.atan2(gY, Math.sqrt(gX * gX + gZ * gZ));
-      const rotateZ = Math.atan2(gZ, Math.sqrt(gX * gX + gY * gY));
-
-      console.log(`🎯 Raw accelerometer - X:${rawX} Y:${rawY} Z:${rawZ} | G-force X:${gX.toFixed(2)} Y:${gY.toFixed(2)} Z:${gZ.toFixed(2)} | Rotation X:${(rotateX * 180/Math.PI).toFixed(1)}° Y:${(rotateY * 180/Math.PI).toFixed(1)}° Z:${(rotateZ * 180/Math.PI).toFixed(1)}°`);
-
-      return {
-        rawX,
-        rawY,
-        rawZ,
-        gX,
-        gY,
-        gZ,
-        rotateX,
-        rotateY,
-        rotateZ,
-        timestamp: Date.now()
-      };
-    } catch (error) {
-      console.error('Error parsing raw accelerometer data:', error);
-      return null;
+  private storeActivityInterval(interval: ActivityData): void {
+    const dateKey = this.formatDateKey(interval.year, interval.month, interval.day);
+    let day = this.stepHistory.get(dateKey);
+    if (!day) {
+      day = new Map();
+      this.stepHistory.set(dateKey, day);
     }
+    day.set(interval.timeIndex, interval);
+  }
+
+  /**
+   * Formats a ring date as a sortable 'YYYY-MM-DD' key
+   */
+  private formatDateKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
   }
 
   /**
-   * Converts BCD (Binary Coded Decimal) to decimal
-   * Used for date parsing in steps data
+   * Key of the ring's current day (the ring clock runs on UTC)
    */
-  private bcdToDecimal(bcd: number): number {
-    return (((bcd >> 4) & 15) * 10) + (bcd & 15);
+  private getTodayKey(): string {
+    const now = new Date();
+    return this.formatDateKey(now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate());
   }
 
   /**
@@ -944,19 +2021,33 @@ export class ColmiRingService {
    */
   private handleDisconnection(): void {
     console.log('Ring disconnected');
+    const wasConnected = this.connected;
+    if (wasConnected) {
+      this.modesToRestore = {
+        realTimeReadings: this.getActiveRealTimeReadings(),
+        rawAccelerometer: this.isRawDataMode,
+      };
+    }
     this.cleanup();
+
+    // Rings drop the link when idle or briefly out of range - get it back
+    if (wasConnected) {
+      this.reconnect().catch(error => {
+        console.error('Reconnect failed:', error);
+      });
+    }
   }
 
   /**
    * Cleans up connection resources
    */
   private cleanup(): void {
+    // Drop any half-received big data frame
+    this.bigData = { buffer: null, received: 0 };
+
     // Stop any ongoing monitoring
-    if (this.isPollingHeartRate) {
-      this.stopRealTimeHeartRate().catch(console.error);
-    }
-    if (this.isPollingSpO2) {
-      this.stopRealTimeSpO2().catch(console.error);
+    for (const type of this.realTimeSessions.keys()) {
+      this.stopRealTimeReading(type).catch(console.error);
     }
 
     // Clear any polling intervals
@@ -964,20 +2055,39 @@ export class ColmiRingService {
       clearInterval(this.heartRatePollingInterval);
       this.heartRatePollingInterval = null;
     }
+    this.stopBatteryPolling();
+    this.stopSignalMonitoring();
+    this.stopSampleRateReports();
+    if (this.signalStrength.rssi !== null) {
+      this.updateSignalStrength(this.signalStrength.supported);
+    }
 
     // Clear timeout monitoring
-    this.stopHeartRateTimeoutMonitoring();
-    this.stopSpO2TimeoutMonitoring();
+    for (const type of this.realTimeSessions.keys()) {
+      this.stopRealTimeTimeoutMonitoring(type);
+    }
+
+    // Fail any request still waiting for a response
+    const pending = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    for (const request of pending) {
+      request.onError(new Error('Ring disconnected before responding'));
+    }
+
+    // Detach notification handlers from the transport
+    this.frameUnsubscribe?.();
+    this.frameUnsubscribe = null;
+    this.connectionEventUnsubscribe?.();
+    this.connectionEventUnsubscribe = null;
 
+    const wasConnected = this.connected;
     this.connected = false;
-    this.isPollingHeartRate = false;
-    this.isPollingSpO2 = false;
-    // Clear daily step data on disconnect
-    this.dailyStepIntervals.clear();
-    this.device = null;
-    this.server = null;
-    this.service = null;
-    this.writeCharacteristic = null;
-    this.notifyCharacteristic = null;
+    this.realTimeSessions.clear();
+    // Streaming ends with the link; restoreModes() resumes it after a reconnect
+    this.isRawDataMode = false;
+
+    if (wasConnected) {
+      this.events.emit('disconnected', undefined);
+    }
   }
 }
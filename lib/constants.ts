@@ -3,7 +3,7 @@
  * Based on the actual Colmi R02 protocol implementation from Python client
  */
 
-import { BLEConfig } from './types';
+import { BLEConfig, MotionPipelineConfig } from './types';
 
 /**
  * Bluetooth Low Energy configuration for Colmi R02/R09 rings
@@ -16,12 +16,23 @@ export const COLMI_BLE_CONFIG: BLEConfig = {
   notifyCharacteristicUUID: '6e400003-b5a3-f393-e0a9-e50e24dcca9e',
 };
 
+/**
+ * V2 service used for multi-packet "big data" history transfers (from Gadgetbridge)
+ * Note: UUIDs must be lowercase for Web Bluetooth API
+ */
+export const BIG_DATA_BLE_CONFIG = {
+  serviceUUID: 'de5bf728-d711-4e47-af26-65e3012a5dc7',
+  writeCharacteristicUUID: 'de5bf72a-d711-4e47-af26-65e3012a5dc7',
+  notifyCharacteristicUUID: 'de5bf729-d711-4e47-af26-65e3012a5dc7',
+};
+
 /**
  * Device Info Service UUIDs for hardware/firmware information
  * Note: UUIDs must be lowercase for Web Bluetooth API
  */
 export const DEVICE_INFO_CONFIG = {
   serviceUUID: '0000180a-0000-1000-8000-00805f9b34fb',
+  modelNumberUUID: '00002a24-0000-1000-8000-00805f9b34fb',
   hardwareRevisionUUID: '00002a27-0000-1000-8000-00805f9b34fb',
   firmwareRevisionUUID: '00002a26-0000-1000-8000-00805f9b34fb',
 };
@@ -30,12 +41,43 @@ export const DEVICE_INFO_CONFIG = {
  * Colmi Protocol Commands (from Python client)
  */
 export const COLMI_COMMANDS = {
+  SET_TIME: 1,
   BATTERY: 3,
   REBOOT: 8,
   HEART_RATE_LOG: 21,
+  HEART_RATE_LOG_SETTINGS: 22,
   REAL_TIME_START: 105,
   REAL_TIME_STOP: 106,
   STEPS: 67,
+  BIG_DATA: 0xBC,
+  FACTORY_RESET: 0xFF,
+} as const;
+
+/**
+ * Commands the Protocol Lab blocks unless armed, with what they do
+ * Factory reset is 0xFF 0x66 0x66 in Gadgetbridge; the whole command byte is blocked.
+ */
+export const PROTOCOL_LAB_DENYLIST: Record<number, string> = {
+  [COLMI_COMMANDS.REBOOT]: 'Reboot',
+  [COLMI_COMMANDS.FACTORY_RESET]: 'Factory reset',
+};
+
+/**
+ * Big data transfer types (from Gadgetbridge)
+ */
+export const BIG_DATA_TYPES = {
+  SLEEP: 0x27,
+  SPO2: 0x2A,
+} as const;
+
+/**
+ * Sleep stage codes used in big data sleep records
+ */
+export const SLEEP_STAGES = {
+  LIGHT: 2,
+  DEEP: 3,
+  REM: 4,
+  AWAKE: 5,
 } as const;
 
 /**
@@ -53,6 +95,26 @@ export const REAL_TIME_READINGS = {
   HRV: 10,
 } as const;
 
+/**
+ * A real-time reading type code
+ */
+export type RealTimeReadingType = typeof REAL_TIME_READINGS[keyof typeof REAL_TIME_READINGS];
+
+/**
+ * Human-readable names of real-time reading types, used in logs and errors
+ */
+export const REAL_TIME_READING_NAMES: Record<RealTimeReadingType, string> = {
+  [REAL_TIME_READINGS.HEART_RATE]: 'heart rate',
+  [REAL_TIME_READINGS.BLOOD_PRESSURE]: 'blood pressure',
+  [REAL_TIME_READINGS.SPO2]: 'SpO2',
+  [REAL_TIME_READINGS.FATIGUE]: 'fatigue',
+  [REAL_TIME_READINGS.HEALTH_CHECK]: 'health check',
+  [REAL_TIME_READINGS.ECG]: 'ECG',
+  [REAL_TIME_READINGS.PRESSURE]: 'stress',
+  [REAL_TIME_READINGS.BLOOD_SUGAR]: 'blood sugar',
+  [REAL_TIME_READINGS.HRV]: 'HRV',
+};
+
 /**
  * Real-time actions
  */
@@ -68,11 +130,204 @@ export const REAL_TIME_ACTIONS = {
  */
 export const DATA_POLLING_INTERVAL = 15000;
 
+/**
+ * Battery polling interval in milliseconds, feeds the battery time series
+ */
+export const BATTERY_POLLING_INTERVAL = 60000;
+
+/**
+ * Maximum frames kept in the packet capture, oldest are dropped first
+ */
+export const PACKET_CAPTURE_LIMIT = 10000;
+
 /**
  * Connection timeout in milliseconds
  */
 export const CONNECTION_TIMEOUT = 10000;
 
+/**
+ * Attempts made to silently reconnect after the link drops
+ */
+export const RECONNECT_MAX_ATTEMPTS = 6;
+
+/**
+ * Delay before the second reconnect attempt, doubled for each one after (ms)
+ * The first attempt is made immediately.
+ */
+export const RECONNECT_BASE_DELAY = 1000;
+
+/**
+ * Longest wait between reconnect attempts (ms)
+ */
+export const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Weight of each new RSSI reading in the exponential moving average (0-1)
+ */
+export const RSSI_SMOOTHING = 0.25;
+
+/**
+ * Smoothed RSSI (dBm) mapped to 0% and 100% signal strength
+ */
+export const RSSI_RANGE = { min: -100, max: -55 } as const;
+
+/**
+ * Smoothed RSSI (dBm) below which the ring is reported as out of range
+ * The R02 has a very small antenna; the link usually drops soon after this.
+ */
+export const RSSI_OUT_OF_RANGE = -90;
+
+/**
+ * Time without advertisements after which the RSSI is treated as unknown (ms)
+ */
+export const RSSI_STALE_AFTER = 15000;
+
+/**
+ * Lowest signal percent of each proximity level in the ring finder
+ */
+export const PROXIMITY_LEVELS = { hot: 75, warm: 50, cool: 25 } as const;
+
+/**
+ * Time between finder beeps when the ring is furthest and nearest (ms)
+ */
+export const FINDER_BEEP_INTERVAL = { max: 1500, min: 120 } as const;
+
+/**
+ * localStorage key holding the Web Bluetooth id of the last connected ring
+ */
+export const LAST_DEVICE_STORAGE_KEY = 'colmi-last-ring-id';
+
+/**
+ * sessionStorage key set when the user disconnects, so the ring is not silently reconnected on reload
+ */
+export const DISCONNECT_REQUESTED_STORAGE_KEY = 'colmi-ring-disconnect-requested';
+
+/**
+ * Default time to wait for a ring response before re-sending a request (ms)
+ */
+export const REQUEST_TIMEOUT = 5000;
+
+/**
+ * Default number of times a request is re-sent after timing out
+ */
+export const REQUEST_RETRIES = 2;
+
+/**
+ * Per-command response timeouts in milliseconds
+ * Multi-packet responses reset the timer on every packet received.
+ */
+export const COMMAND_TIMEOUTS: Partial<Record<number, number>> = {
+  [COLMI_COMMANDS.BATTERY]: 3000,
+  [COLMI_COMMANDS.STEPS]: 8000,
+  [COLMI_COMMANDS.HEART_RATE_LOG]: 8000,
+  [COLMI_COMMANDS.BIG_DATA]: 10000,
+};
+
+/**
+ * Time without packets after which real-time monitoring is reported as stalled (ms)
+ * Readings the ring computes over a longer window get more slack.
+ */
+export const REAL_TIME_READING_TIMEOUTS: Partial<Record<RealTimeReadingType, number>> = {
+  [REAL_TIME_READINGS.HEART_RATE]: 10000,
+  [REAL_TIME_READINGS.SPO2]: 15000,
+};
+
+/**
+ * Stall timeout for reading types without an entry in REAL_TIME_READING_TIMEOUTS (ms)
+ */
+export const REAL_TIME_READING_TIMEOUT = 30000;
+
+/**
+ * Raw accelerometer samples kept by the service for readers (about 40 s at 25 Hz)
+ */
+export const ACCELEROMETER_BUFFER_SIZE = 1024;
+
+/**
+ * Most recent sample intervals used for the raw accelerometer rate and jitter
+ */
+export const SAMPLE_RATE_WINDOW = 64;
+
+/**
+ * Interval, in multiples of the median interval, counted as a gap in the raw accelerometer stream
+ */
+export const SAMPLE_GAP_FACTOR = 3;
+
+/**
+ * Minimum time between sampleRate events (ms)
+ */
+export const SAMPLE_RATE_REPORT_INTERVAL = 1000;
+
+/**
+ * Longest gap the resampler fills by interpolation; after longer gaps it restarts at the next sample (ms)
+ */
+export const RESAMPLE_MAX_GAP = 500;
+
+/**
+ * How much later than the sample clock a raw sample may arrive before samples are assumed lost
+ * and the clock restarts at the arrival (ms)
+ */
+export const SAMPLE_CLOCK_MAX_ERROR = 250;
+
+/**
+ * Fraction of the arrival time error the sample clock corrects per sample
+ */
+export const SAMPLE_CLOCK_CORRECTION = 0.1;
+
+/**
+ * Pass band of the PPG beat detector's filter (Hz); covers 30-240 BPM
+ */
+export const PPG_BAND_PASS = { lowHz: 0.5, highHz: 4 } as const;
+
+/**
+ * Plausible heart rates (BPM); beats closer together are ignored and longer intervals are treated as gaps
+ */
+export const PPG_HEART_RATE_RANGE = { min: 30, max: 200 } as const;
+
+/**
+ * Fraction of the recent pulse amplitude a peak must reach to count as a beat
+ */
+export const PPG_PEAK_THRESHOLD = 0.5;
+
+/**
+ * RR intervals kept for the PPG heart rate and HRV figures
+ */
+export const PPG_HRV_WINDOW = 60;
+
+/**
+ * Largest deviation from the median of the recent RR intervals, as a fraction, before an
+ * interval is rejected as an artifact (e.g. a missed or extra beat)
+ */
+export const PPG_ARTIFACT_TOLERANCE = 0.25;
+
+/**
+ * Default accelerometer processing settings, matching the original per-component filters
+ */
+export const DEFAULT_MOTION_PIPELINE_CONFIG: MotionPipelineConfig = {
+  movingAverageWindow: 3,
+  emaAlpha: 0.3,
+  deadZone: 0.05,
+  orientationSmoothing: 0.8,
+  gestures: [],
+  matchThreshold: 30,
+  triggerThreshold: 80,
+  triggerCooldown: 2000,
+};
+
+/**
+ * Length of the step intervals the ring records (15 minutes)
+ */
+export const STEPS_INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Clock drift above which the ring's clock is reported as off (one step interval)
+ */
+export const CLOCK_DRIFT_THRESHOLD = STEPS_INTERVAL;
+
+/**
+ * How long to wait for the step read that measures clock drift when connecting (ms)
+ */
+export const CLOCK_DRIFT_PROBE_TIMEOUT = 1000;
+
 /**
  * Device name patterns for Colmi rings (from Python client testing)
  */
@@ -136,26 +391,40 @@ export function validatePacket(packet: Uint8Array): boolean {
 export const BATTERY_PACKET = makePacket(COLMI_COMMANDS.BATTERY);
 
 /**
- * Creates a real-time heart rate start packet
+ * Creates a real-time start packet for any reading type
  */
-export function createRealTimeHeartRatePacket(): Uint8Array {
+export function createRealTimeStartPacket(type: RealTimeReadingType): Uint8Array {
   return makePacket(COLMI_COMMANDS.REAL_TIME_START, new Uint8Array([
-    REAL_TIME_READINGS.HEART_RATE,
+    type,
     REAL_TIME_ACTIONS.START
   ]));
 }
 
 /**
- * Creates a real-time heart rate stop packet
+ * Creates a real-time stop packet for any reading type
  */
-export function createRealTimeHeartRateStopPacket(): Uint8Array {
+export function createRealTimeStopPacket(type: RealTimeReadingType): Uint8Array {
   return makePacket(COLMI_COMMANDS.REAL_TIME_STOP, new Uint8Array([
-    REAL_TIME_READINGS.HEART_RATE,
+    type,
     0,
     0
   ]));
 }
 
+/**
+ * Creates a real-time heart rate start packet
+ */
+export function createRealTimeHeartRatePacket(): Uint8Array {
+  return createRealTimeStartPacket(REAL_TIME_READINGS.HEART_RATE);
+}
+
+/**
+ * Creates a real-time heart rate stop packet
+ */
+export function createRealTimeHeartRateStopPacket(): Uint8Array {
+  return createRealTimeStopPacket(REAL_TIME_READINGS.HEART_RATE);
+}
+
 /**
  * Creates a steps request packet for today (day offset 0)
  */
@@ -164,25 +433,59 @@ export function createStepsPacket(dayOffset: number = 0): Uint8Array {
   return makePacket(COLMI_COMMANDS.STEPS, subData);
 }
 
+/**
+ * Creates a heart rate log request packet (from Python client: hr.py)
+ * The ring keys its log by the start of the (UTC) day as a little-endian
+ * 32-bit Unix timestamp in seconds.
+ * @param date - Any time within the requested UTC day
+ */
+export function createHeartRateLogPacket(date: Date): Uint8Array {
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+  return makePacket(COLMI_COMMANDS.HEART_RATE_LOG, new Uint8Array([
+    dayStart & 0xff,
+    (dayStart >>> 8) & 0xff,
+    (dayStart >>> 16) & 0xff,
+    (dayStart >>> 24) & 0xff
+  ]));
+}
+
+/**
+ * Creates a heart rate log settings read packet (from Python client: hr_settings.py)
+ */
+export function createReadHeartRateLogSettingsPacket(): Uint8Array {
+  return makePacket(COLMI_COMMANDS.HEART_RATE_LOG_SETTINGS, new Uint8Array([0x01]));
+}
+
+/**
+ * Creates a heart rate log settings write packet (from Python client: hr_settings.py)
+ * Format: [CMD, 0x02, enabled (1 = on, 2 = off), interval_minutes]
+ * @param enabled - Whether background logging is on
+ * @param intervalMinutes - Minutes between measurements (1-255)
+ */
+export function createWriteHeartRateLogSettingsPacket(enabled: boolean, intervalMinutes: number): Uint8Array {
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 255) {
+    throw new Error('Heart rate log interval must be between 1 and 255 minutes');
+  }
+
+  return makePacket(COLMI_COMMANDS.HEART_RATE_LOG_SETTINGS, new Uint8Array([
+    0x02,
+    enabled ? 1 : 2,
+    intervalMinutes
+  ]));
+}
+
 /**
  * Creates a real-time SpO2 start packet
  */
 export function createRealTimeSpO2Packet(): Uint8Array {
-  return makePacket(COLMI_COMMANDS.REAL_TIME_START, new Uint8Array([
-    REAL_TIME_READINGS.SPO2,
-    REAL_TIME_ACTIONS.START
-  ]));
+  return createRealTimeStartPacket(REAL_TIME_READINGS.SPO2);
 }
 
 /**
  * Creates a real-time SpO2 stop packet
  */
 export function createRealTimeSpO2StopPacket(): Uint8Array {
-  return makePacket(COLMI_COMMANDS.REAL_TIME_STOP, new Uint8Array([
-    REAL_TIME_READINGS.SPO2,
-    0,
-    0
-  ]));
+  return createRealTimeStopPacket(REAL_TIME_READINGS.SPO2);
 }
 
 /**
@@ -224,6 +527,42 @@ export function createRawDataDisablePacket(): Uint8Array {
   return packet;
 }
 
+/**
+ * Creates a big data request packet (from Gadgetbridge)
+ * Unlike command frames these are 7 bytes with no checksum:
+ * [0xBC, type, 0x01, 0x00, 0xFF, 0x00, 0xFF]
+ * @param type - One of BIG_DATA_TYPES
+ */
+export function createBigDataRequestPacket(type: number): Uint8Array {
+  return new Uint8Array([COLMI_COMMANDS.BIG_DATA, type, 0x01, 0x00, 0xFF, 0x00, 0xFF]);
+}
+
+/**
+ * Converts a decimal value (0-99) to BCD (Binary Coded Decimal)
+ */
+function decimalToBcd(value: number): number {
+  return ((Math.floor(value / 10) % 10) << 4) | (value % 10);
+}
+
+/**
+ * Creates a set-time packet (from Python client: set_time.py)
+ * The ring clock is always set in UTC so its timestamps are unaffected by
+ * timezone and DST changes on the host.
+ * Format: [CMD, year_bcd, month_bcd, day_bcd, hour_bcd, minute_bcd, second_bcd, language]
+ * @param date - Time to set, defaults to now
+ */
+export function createSetTimePacket(date: Date = new Date()): Uint8Array {
+  return makePacket(COLMI_COMMANDS.SET_TIME, new Uint8Array([
+    decimalToBcd(date.getUTCFullYear() % 100),
+    decimalToBcd(date.getUTCMonth() + 1),
+    decimalToBcd(date.getUTCDate()),
+    decimalToBcd(date.getUTCHours()),
+    decimalToBcd(date.getUTCMinutes()),
+    decimalToBcd(date.getUTCSeconds()),
+    1 // Language: 1 = English, 0 = Chinese
+  ]));
+}
+
 /**
  * Creates a reboot packet (from Python client)
  */
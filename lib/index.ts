@@ -4,4 +4,17 @@
 
 export * from './types';
 export * from './constants';
-export { ColmiRingService } from './colmi-ring-service';
\ No newline at end of file
+export { ColmiRingService } from './colmi-ring-service';
+export { RingManager } from './ring-manager';
+export { WebBluetoothTransport, InMemoryTransport, scanRingAdvertisements, getRememberedRingId } from './transport';
+export type { InMemoryResponder } from './transport';
+export { BatteryTracker } from './battery-tracker';
+export { AccelerometerBuffer } from './accelerometer-buffer';
+export { SampleRateMonitor, AccelerometerResampler, SampleClock } from './sample-rate';
+export { PpgBeatDetector, rmssd, sdnn } from './ppg-beat-detector';
+export { MotionPipeline, matchGesture } from './motion-pipeline';
+export { MotionProcessor } from './motion-processor';
+export { RssiSmoother, rssiToPercent, toSignalStrength } from './signal-strength';
+export { RingFinder, isColmiDeviceName, proximityLevel, beepInterval } from './ring-finder';
+export { PacketCapture, bytesToHex, hexToBytes, describePacket } from './packet-capture';
+export { decodePacket, bcdToDecimal } from './packet-decoder';
@@ -0,0 +1,216 @@
+/**
+ * MotionPipeline - Accelerometer smoothing, filtering and gesture matching
+ *
+ * Pure processing with no DOM access, so it can run inside the motion
+ * pipeline worker (lib/motion-pipeline.worker.ts) or in-process when workers
+ * are unavailable. Samples go in batches; each batch returns the smoothed
+ * and filtered streams, the latest features and any recognised gestures.
+ */
+
+import {
+  AccelerometerData,
+  FilteredMotion,
+  GestureEvent,
+  GestureMatch,
+  GestureTemplate,
+  MotionFeatures,
+  MotionOutput,
+  MotionPipelineConfig
+} from './types';
+import { DEFAULT_MOTION_PIPELINE_CONFIG } from './constants';
+
+// Rotation distance at which a gesture's confidence reaches 0 (90 degrees)
+const MAX_GESTURE_DISTANCE = Math.PI / 2;
+
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Finds the saved gesture closest to a sample's rotation
+ * @param sample - Sample to compare
+ * @param gestures - Gestures to compare against
+ * @returns The closest gesture and its confidence, null if there are no gestures
+ */
+export function matchGesture(sample: AccelerometerData, gestures: GestureTemplate[]): GestureMatch | null {
+  let best: GestureMatch | null = null;
+  let bestDistance = Infinity;
+
+  for (const gesture of gestures) {
+    const xDiff = sample.rotateX - gesture.averages.rotateX;
+    const yDiff = sample.rotateY - gesture.averages.rotateY;
+    const zDiff = sample.rotateZ - gesture.averages.rotateZ;
+    const distance = Math.sqrt(xDiff * xDiff + yDiff * yDiff + zDiff * zDiff);
+
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { name: gesture.name, confidence: Math.max(0, (1 - distance / MAX_GESTURE_DISTANCE) * 100) };
+    }
+  }
+
+  return best;
+}
+
+export class MotionPipeline {
+  private config: MotionPipelineConfig;
+  private window: AccelerometerData[] = [];
+  private ema: { gX: number; gY: number; pitchDeg: number; rollDeg: number } | null = null;
+  private orientation: { x: number; y: number; z: number } | null = null;
+  private lastFired: number | null = null;
+  private features: MotionFeatures = { timestamp: 0, magnitude: 0, orientation: { x: 0, y: 0, z: 0 }, match: null };
+
+  /**
+   * @param config - Settings that differ from DEFAULT_MOTION_PIPELINE_CONFIG
+   */
+  constructor(config: Partial<MotionPipelineConfig> = {}) {
+    this.config = { ...DEFAULT_MOTION_PIPELINE_CONFIG, ...config };
+  }
+
+  /**
+   * Changes settings; filter state is kept so streams stay continuous
+   * @param config - Settings to change
+   */
+  configure(config: Partial<MotionPipelineConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Returns the current settings
+   */
+  getConfig(): MotionPipelineConfig {
+    return this.config;
+  }
+
+  /**
+   * Processes a batch of raw samples, oldest first
+   * @param samples - Raw samples from the ring
+   * @returns MotionOutput - Streams, features and gestures for the batch
+   */
+  process(samples: AccelerometerData[]): MotionOutput {
+    const smoothed: AccelerometerData[] = [];
+    const filtered: FilteredMotion[] = [];
+    const gestures: GestureEvent[] = [];
+
+    for (const sample of samples) {
+      const average = this.smooth(sample);
+      smoothed.push(average);
+      filtered.push(this.filter(sample));
+
+      const match = matchGesture(average, this.config.gestures);
+      const gesture = match && this.fire(match, sample.timestamp);
+      if (gesture) {
+        gestures.push(gesture);
+      }
+
+      this.features = {
+        timestamp: sample.timestamp,
+        magnitude: Math.sqrt(sample.gX * sample.gX + sample.gY * sample.gY + sample.gZ * sample.gZ),
+        orientation: this.smoothOrientation(sample),
+        match: match && match.confidence > this.config.matchThreshold ? match : null,
+      };
+    }
+
+    return { smoothed, filtered, features: this.features, gestures };
+  }
+
+  /**
+   * Clears all filter state, e.g. when raw data mode restarts
+   */
+  reset(): void {
+    this.window = [];
+    this.ema = null;
+    this.orientation = null;
+    this.lastFired = null;
+    this.features = { timestamp: 0, magnitude: 0, orientation: { x: 0, y: 0, z: 0 }, match: null };
+  }
+
+  /**
+   * Moving average over the last movingAverageWindow samples
+   */
+  private smooth(sample: AccelerometerData): AccelerometerData {
+    this.window.push(sample);
+    while (this.window.length > this.config.movingAverageWindow) {
+      this.window.shift();
+    }
+
+    // Pass samples through until the window is full
+    if (this.window.length < this.config.movingAverageWindow) {
+      return sample;
+    }
+
+    const count = this.window.length;
+    const mean = (key: keyof AccelerometerData) => this.window.reduce((sum, d) => sum + d[key], 0) / count;
+    return {
+      rawX: Math.round(mean('rawX')),
+      rawY: Math.round(mean('rawY')),
+      rawZ: Math.round(mean('rawZ')),
+      gX: mean('gX'),
+      gY: mean('gY'),
+      gZ: mean('gZ'),
+      rotateX: mean('rotateX'),
+      rotateY: mean('rotateY'),
+      rotateZ: mean('rotateZ'),
+      timestamp: sample.timestamp,
+    };
+  }
+
+  /**
+   * Dead zone then EMA on G-force and tilt
+   */
+  private filter(sample: AccelerometerData): FilteredMotion {
+    const { deadZone, emaAlpha } = this.config;
+    const gX = Math.abs(sample.gX) < deadZone ? 0 : sample.gX;
+    const gY = Math.abs(sample.gY) < deadZone ? 0 : sample.gY;
+    const pitchDeg = toDegrees(sample.rotateX);
+    const rollDeg = toDegrees(sample.rotateY);
+
+    const previous = this.ema ?? { gX: 0, gY: 0, pitchDeg: 0, rollDeg: 0 };
+    const ema = (value: number, old: number) => emaAlpha * value + (1 - emaAlpha) * old;
+    this.ema = {
+      gX: ema(gX, previous.gX),
+      gY: ema(gY, previous.gY),
+      pitchDeg: ema(pitchDeg, previous.pitchDeg),
+      rollDeg: ema(rollDeg, previous.rollDeg),
+    };
+
+    return {
+      timestamp: sample.timestamp,
+      ...this.ema,
+      magnitude: Math.sqrt(sample.gX * sample.gX + sample.gY * sample.gY + sample.gZ * sample.gZ),
+    };
+  }
+
+  /**
+   * Exponential smoothing of the rotation; starts from the first sample
+   */
+  private smoothOrientation(sample: AccelerometerData): { x: number; y: number; z: number } {
+    const keep = this.config.orientationSmoothing;
+    const previous = this.orientation ?? { x: sample.rotateX, y: sample.rotateY, z: sample.rotateZ };
+    this.orientation = {
+      x: previous.x * keep + sample.rotateX * (1 - keep),
+      y: previous.y * keep + sample.rotateY * (1 - keep),
+      z: previous.z * keep + sample.rotateZ * (1 - keep),
+    };
+    return this.orientation;
+  }
+
+  /**
+   * Turns a confident match into a gesture event, at most once per cooldown
+   * Gestures that do not trigger never start the cooldown.
+   */
+  private fire(match: GestureMatch, timestamp: number): GestureEvent | null {
+    if (match.confidence < this.config.triggerThreshold) {
+      return null;
+    }
+
+    const template = this.config.gestures.find(gesture => gesture.name === match.name);
+    if (template?.triggers === false) {
+      return null;
+    }
+
+    if (this.lastFired !== null && timestamp - this.lastFired <= this.config.triggerCooldown) {
+      return null;
+    }
+
+    this.lastFired = timestamp;
+    return { ...match, timestamp };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Motion pipeline worker - Runs MotionPipeline off the UI thread
+ *
+ * Receives MotionWorkerRequest messages from MotionProcessor and posts a
+ * MotionWorkerResponse for every batch of samples.
+ */
+
+import { MotionWorkerRequest, MotionWorkerResponse } from './types';
+import { MotionPipeline } from './motion-pipeline';
+
+const pipeline = new MotionPipeline();
+
+self.onmessage = (event: MessageEvent<MotionWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'configure':
+      pipeline.configure(request.config);
+      break;
+    case 'reset':
+      pipeline.reset();
+      break;
+    case 'samples': {
+      const response: MotionWorkerResponse = { type: 'output', output: pipeline.process(request.samples) };
+      self.postMessage(response);
+      break;
+    }
+  }
+};
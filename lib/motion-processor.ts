@@ -0,0 +1,165 @@
+/**
+ * MotionProcessor - UI-side handle on the accelerometer processing pipeline
+ *
+ * Sends raw sample batches to a MotionPipeline running in a Web Worker and
+ * re-emits its filtered streams, features and gesture events. Falls back to
+ * running the pipeline on the main thread where workers are unavailable
+ * (tests, server rendering) or fail to start.
+ */
+
+import { AccelerometerData, MotionOutput, MotionPipelineConfig, MotionProcessorEventMap, MotionWorkerRequest, MotionWorkerResponse } from './types';
+import { MotionPipeline } from './motion-pipeline';
+import { EventHandler, TypedEventEmitter } from './typed-event-emitter';
+
+/**
+ * Starts the bundled pipeline worker, null where workers do not exist
+ */
+function defaultWorkerFactory(): (() => Worker) | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  return () => new Worker(new URL('./motion-pipeline.worker.ts', import.meta.url));
+}
+
+export class MotionProcessor {
+  private createWorker: (() => Worker) | null;
+  private worker: Worker | null = null;
+  private fallback: MotionPipeline | null = null;
+  private config: Partial<MotionPipelineConfig> = {};
+  private events = new TypedEventEmitter<MotionProcessorEventMap>();
+
+  /**
+   * The worker is started on first use, so constructing a processor during
+   * server rendering is safe.
+   * @param createWorker - Starts the pipeline worker; null always processes on the main thread
+   */
+  constructor(createWorker: (() => Worker) | null = defaultWorkerFactory()) {
+    this.createWorker = createWorker;
+  }
+
+  /**
+   * Changes pipeline settings; kept across worker restarts
+   * @param config - Settings to change
+   */
+  configure(config: Partial<MotionPipelineConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.send({ type: 'configure', config });
+  }
+
+  /**
+   * Queues a batch of raw samples for processing
+   * @param samples - Raw samples, oldest first
+   */
+  process(samples: AccelerometerData[]): void {
+    if (samples.length > 0) {
+      this.send({ type: 'samples', samples });
+    }
+  }
+
+  /**
+   * Clears the pipeline's filter state
+   */
+  reset(): void {
+    this.send({ type: 'reset' });
+  }
+
+  /**
+   * Stops the worker; the next call starts a fresh one
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback = null;
+  }
+
+  /**
+   * Whether batches are processed in a worker rather than on the main thread
+   */
+  isOffThread(): boolean {
+    return this.worker !== null;
+  }
+
+  /**
+   * Subscribes to a processor event
+   * @param event - Event name (smoothed, filtered, features, gesture)
+   * @param handler - Function called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof MotionProcessorEventMap>(event: K, handler: EventHandler<MotionProcessorEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a handler registered with on()
+   * @param event - Event name
+   * @param handler - Handler passed to on()
+   */
+  off<K extends keyof MotionProcessorEventMap>(event: K, handler: EventHandler<MotionProcessorEventMap[K]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Delivers a request to the worker, or handles it in-process
+   */
+  private send(request: MotionWorkerRequest): void {
+    const target = this.connect();
+
+    if (target instanceof MotionPipeline) {
+      switch (request.type) {
+        case 'configure':
+          target.configure(request.config);
+          break;
+        case 'reset':
+          target.reset();
+          break;
+        case 'samples':
+          this.handleOutput(target.process(request.samples));
+          break;
+      }
+      return;
+    }
+
+    target.postMessage(request);
+  }
+
+  /**
+   * Returns the running worker, starting one (or the in-process fallback) if needed
+   */
+  private connect(): Worker | MotionPipeline {
+    if (this.worker) return this.worker;
+    if (this.fallback) return this.fallback;
+
+    if (this.createWorker) {
+      try {
+        const worker = this.createWorker();
+        worker.onmessage = (event: MessageEvent<MotionWorkerResponse>) => this.handleOutput(event.data.output);
+        worker.onerror = (event) => {
+          console.error('Motion pipeline worker failed, processing on the main thread:', event.message);
+          this.dispose();
+          this.createWorker = null;
+        };
+        worker.postMessage({ type: 'configure', config: this.config } satisfies MotionWorkerRequest);
+        this.worker = worker;
+        return worker;
+      } catch (error) {
+        console.warn('Motion pipeline worker unavailable, processing on the main thread:', error);
+        this.createWorker = null;
+      }
+    }
+
+    this.fallback = new MotionPipeline(this.config);
+    return this.fallback;
+  }
+
+  /**
+   * Re-emits a batch's results
+   */
+  private handleOutput(output: MotionOutput): void {
+    this.events.emit('smoothed', output.smoothed);
+    this.events.emit('filtered', output.filtered);
+    this.events.emit('features', output.features);
+    for (const gesture of output.gestures) {
+      this.events.emit('gesture', gesture);
+    }
+  }
+}
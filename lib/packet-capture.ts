@@ -0,0 +1,289 @@
+/**
+ * PacketCapture - In-memory recording of every frame exchanged with the ring
+ *
+ * Each frame is stored with a high-resolution timestamp, its direction, a
+ * short description and its checksum status. Captures export to a JSON file
+ * that ColmiRingService.replayCapture() can feed back into the parser, so a
+ * parsing bug can be reproduced without the ring it was seen on.
+ */
+
+import { CapturedPacket, DeviceInfo, PacketCaptureFile, PacketDirection, TransportChannel } from './types';
+import {
+  COLMI_COMMANDS,
+  PACKET_CAPTURE_LIMIT,
+  REAL_TIME_ACTIONS,
+  REAL_TIME_READING_NAMES,
+  RealTimeReadingType,
+  validatePacket
+} from './constants';
+import { decodePacket } from './packet-decoder';
+
+const COMMAND_NAMES: Record<number, string> = {
+  [COLMI_COMMANDS.SET_TIME]: 'Set time',
+  [COLMI_COMMANDS.BATTERY]: 'Battery',
+  [COLMI_COMMANDS.REBOOT]: 'Reboot',
+  [COLMI_COMMANDS.HEART_RATE_LOG]: 'Heart rate log',
+  [COLMI_COMMANDS.HEART_RATE_LOG_SETTINGS]: 'Heart rate log settings',
+  [COLMI_COMMANDS.REAL_TIME_START]: 'Real-time reading',
+  [COLMI_COMMANDS.REAL_TIME_STOP]: 'Real-time stop',
+  [COLMI_COMMANDS.STEPS]: 'Steps',
+  [COLMI_COMMANDS.BIG_DATA]: 'Big data',
+  [COLMI_COMMANDS.FACTORY_RESET]: 'Factory reset',
+};
+
+/**
+ * Formats bytes as space-separated lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join(' ');
+}
+
+/**
+ * Parses space-separated (or contiguous) hex into bytes
+ * @throws Error if the string is not valid hex
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const digits = hex.replace(/\s+/g, '');
+  if (digits.length % 2 !== 0 || /[^0-9a-fA-F]/.test(digits)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Describes a frame; received frames are decoded with decodePacket()
+ */
+export function describePacket(frame: Uint8Array, direction: PacketDirection, channel: TransportChannel): string {
+  if (frame.length === 0) {
+    return 'Empty frame';
+  }
+
+  return direction === 'tx' ? describeCommand(frame, channel) : describeResponse(frame, channel);
+}
+
+/**
+ * Describes a frame written to the ring by its command byte and first fields
+ */
+function describeCommand(frame: Uint8Array, channel: TransportChannel): string {
+  const command = frame[0];
+
+  if (channel === 'bigData') {
+    return `Big data request (type ${toHex(frame[1] ?? 0)})`;
+  }
+
+  switch (command) {
+    case 0xA1:
+      return frame[1] === 0x04 ? 'Raw data mode enable' : 'Raw data mode disable';
+
+    case COLMI_COMMANDS.BATTERY:
+      return 'Battery request';
+
+    case COLMI_COMMANDS.REAL_TIME_START:
+    case COLMI_COMMANDS.REAL_TIME_STOP: {
+      const reading = readingName(frame[1]);
+      if (command === COLMI_COMMANDS.REAL_TIME_STOP || frame[2] === REAL_TIME_ACTIONS.STOP) {
+        return `Stop ${reading}`;
+      }
+      return `Start ${reading}`;
+    }
+
+    case COLMI_COMMANDS.STEPS:
+      return `Steps request (day offset ${frame[1]})`;
+
+    default:
+      return COMMAND_NAMES[command] ?? `Unknown command ${command} (${toHex(command)})`;
+  }
+}
+
+/**
+ * Describes a frame received from the ring from its decoded form
+ */
+function describeResponse(frame: Uint8Array, channel: TransportChannel): string {
+  // Big data arrives in chunks; only a chunk holding a whole frame can be decoded
+  if (channel === 'bigData') {
+    if (frame[0] !== COLMI_COMMANDS.BIG_DATA || frame.length < 6) {
+      return `Big data continuation (${frame.length} bytes)`;
+    }
+    const payloadLength = frame[2] | (frame[3] << 8);
+    if (frame.length < payloadLength + 6) {
+      return `Big data response (type ${toHex(frame[1])}, ${payloadLength} payload bytes)`;
+    }
+  }
+
+  const decoded = decodePacket(frame);
+
+  switch (decoded.kind) {
+    case 'invalid':
+      return decoded.reason;
+    case 'error':
+      return `Error response to ${COMMAND_NAMES[decoded.command] ?? `command ${decoded.command}`}`;
+    case 'ack':
+      return `${COMMAND_NAMES[decoded.command]} acknowledged`;
+    case 'battery':
+      return `Battery ${decoded.battery.level}%${decoded.battery.charging ? ' (charging)' : ''}`;
+    case 'realTime':
+      if (decoded.errorCode !== 0) {
+        return `Real-time ${readingName(decoded.readingType)} error ${decoded.errorCode}`;
+      }
+      return decoded.reading
+        ? `Real-time ${readingName(decoded.readingType)}: ${JSON.stringify(decoded.reading.value)}`
+        : `Real-time ${readingName(decoded.readingType)} measuring`;
+    case 'stepsNoData':
+      return 'Steps: no data for day';
+    case 'stepsHeader':
+      return 'Steps header';
+    case 'stepsInterval': {
+      const { interval } = decoded;
+      return `Steps ${interval.year}-${interval.month}-${interval.day} #${interval.timeIndex}: ${interval.steps} steps`;
+    }
+    case 'heartRateLogNoData':
+      return 'Heart rate log: no data for day';
+    case 'heartRateLogHeader':
+      return `Heart rate log header (${decoded.packetCount} packets, every ${decoded.intervalMinutes} min)`;
+    case 'heartRateLogData':
+      return `Heart rate log packet ${decoded.packetIndex}`;
+    case 'heartRateLogSettings':
+      return decoded.settings
+        ? `Heart rate log ${decoded.settings.enabled ? 'on' : 'off'}, every ${decoded.settings.intervalMinutes} min`
+        : 'Heart rate log settings acknowledged';
+    case 'accelerometer':
+      return `Accelerometer ${decoded.data.rawX}, ${decoded.data.rawY}, ${decoded.data.rawZ}`;
+    case 'ppg':
+      return `PPG ${decoded.data.raw} (${decoded.data.min}-${decoded.data.max})`;
+    case 'spO2Raw':
+      return `SpO2 raw ${decoded.data.raw} (${decoded.data.min}-${decoded.data.max})`;
+    case 'rawSensor':
+      return `Raw sensor data (subtype ${decoded.subtype})`;
+    case 'sleepHistory':
+      return `Sleep history (${decoded.sessions.length} sessions)`;
+    case 'spO2History':
+      return `SpO2 history (${decoded.samples.length} hours)`;
+    case 'unknown':
+      return `Unknown response ${toHex(frame[0])}`;
+  }
+}
+
+function toHex(byte: number): string {
+  return `0x${byte.toString(16).padStart(2, '0')}`;
+}
+
+function readingName(type: number): string {
+  return REAL_TIME_READING_NAMES[type as RealTimeReadingType] ?? `type ${type}`;
+}
+
+export class PacketCapture {
+  private packets: CapturedPacket[] = [];
+  private startTime: number = performance.now();
+  private startedAt: Date = new Date();
+  // Off until asked for: describing a frame decodes it a second time
+  private enabled: boolean = false;
+
+  /**
+   * Records a frame if capturing is enabled
+   * @param direction - 'tx' for writes, 'rx' for notifications
+   * @param frame - Frame bytes
+   * @param channel - Characteristic pair the frame used
+   * @returns The captured packet, or null while capturing is paused
+   */
+  record(direction: PacketDirection, frame: Uint8Array, channel: TransportChannel): CapturedPacket | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const packet: CapturedPacket = {
+      time: performance.now() - this.startTime,
+      direction,
+      channel,
+      hex: bytesToHex(frame),
+      description: describePacket(frame, direction, channel),
+      // Only 16-byte command frames carry a checksum
+      checksumValid: channel === 'command' ? validatePacket(frame) : null,
+    };
+
+    this.packets.push(packet);
+    if (this.packets.length > PACKET_CAPTURE_LIMIT) {
+      this.packets.splice(0, this.packets.length - PACKET_CAPTURE_LIMIT);
+    }
+    return packet;
+  }
+
+  /**
+   * Returns captured packets, oldest first
+   */
+  getPackets(): CapturedPacket[] {
+    return [...this.packets];
+  }
+
+  /**
+   * Starts or pauses capturing; captures start paused
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Whether frames are currently being captured
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Drops all captured packets and restarts the capture clock
+   */
+  clear(): void {
+    this.packets = [];
+    this.startTime = performance.now();
+    this.startedAt = new Date();
+  }
+
+  /**
+   * Builds a capture file of everything recorded so far
+   * @param device - Device the capture came from, if known
+   */
+  export(device: DeviceInfo | null = null): PacketCaptureFile {
+    return {
+      version: 1,
+      startedAt: this.startedAt.toISOString(),
+      device,
+      packets: this.getPackets(),
+    };
+  }
+
+  /**
+   * Parses and validates a capture file
+   * @param json - Contents of an exported capture file
+   * @throws Error if the file is not a valid capture
+   */
+  static parse(json: string): PacketCaptureFile {
+    let file: PacketCaptureFile;
+    try {
+      file = JSON.parse(json);
+    } catch {
+      throw new Error('Capture file is not valid JSON');
+    }
+
+    if (!file || file.version !== 1 || !Array.isArray(file.packets)) {
+      throw new Error('Unsupported capture file format');
+    }
+
+    for (const packet of file.packets) {
+      if (
+        typeof packet.time !== 'number'
+        || (packet.direction !== 'tx' && packet.direction !== 'rx')
+        || (packet.channel !== 'command' && packet.channel !== 'bigData')
+        || typeof packet.hex !== 'string'
+      ) {
+        throw new Error('Capture file contains an invalid packet');
+      }
+      hexToBytes(packet.hex);
+    }
+
+    return file;
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * Packet decoder - Pure decoding of every known Colmi ring response
+ *
+ * decodePacket() turns the bytes of one notification (or one reassembled big
+ * data frame) into a DecodedPacket without touching any state, so the ring
+ * service, capture replay and offline tools all share one decoder.
+ * Formats are based on the Python client, Gadgetbridge and @atc1441's MIDI Ring demo.
+ */
+
+import {
+  AccelerometerData,
+  ActivityData,
+  DecodedPacket,
+  DecodeOptions,
+  HeartRateLogSettings,
+  PpgData,
+  RealTimeReading,
+  SleepPeriod,
+  SleepSession,
+  SleepStage,
+  SpO2HistorySample,
+  SpO2RawData
+} from './types';
+import {
+  BIG_DATA_TYPES,
+  COLMI_COMMANDS,
+  REAL_TIME_READINGS,
+  SLEEP_STAGES,
+  validatePacket
+} from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 0xA1 raw sensor packets have bit 7 set but are not error responses
+const RAW_SENSOR_COMMAND = 0xA1;
+
+// Raw sensor subtypes
+const RAW_SPO2_SUBTYPE = 1;
+const RAW_PPG_SUBTYPE = 2;
+const RAW_ACCELEROMETER_SUBTYPE = 3;
+
+/**
+ * Decodes one packet from the ring
+ * 16-byte command frames are checked for length and checksum first. Frames
+ * starting with 0xBC are treated as complete big data frames.
+ * @param bytes - Notification bytes, or a frame reassembled from big data chunks
+ * @param options - Context that is not part of the packet itself
+ * @returns DecodedPacket - Tagged result; never throws
+ */
+export function decodePacket(bytes: Uint8Array, options: DecodeOptions = {}): DecodedPacket {
+  if (bytes.length > 0 && bytes[0] === COLMI_COMMANDS.BIG_DATA) {
+    return decodeBigData(bytes, options);
+  }
+
+  if (bytes.length !== 16) {
+    return { kind: 'invalid', reason: `Invalid packet length: ${bytes.length}` };
+  }
+
+  if (!validatePacket(bytes)) {
+    return { kind: 'invalid', reason: 'Invalid packet checksum' };
+  }
+
+  const command = bytes[0];
+
+  if (command === RAW_SENSOR_COMMAND) {
+    return decodeRawSensor(bytes, options);
+  }
+
+  // Error responses echo the command byte with bit 7 set
+  if (command & 0x80) {
+    return { kind: 'error', command: command & 0x7f };
+  }
+
+  switch (command) {
+    case COLMI_COMMANDS.BATTERY:
+      return decodeBattery(bytes);
+
+    case COLMI_COMMANDS.REAL_TIME_START:
+      return decodeRealTime(bytes);
+
+    case COLMI_COMMANDS.STEPS:
+      return decodeSteps(bytes, options);
+
+    case COLMI_COMMANDS.HEART_RATE_LOG:
+      return decodeHeartRateLog(bytes);
+
+    case COLMI_COMMANDS.HEART_RATE_LOG_SETTINGS:
+      return { kind: 'heartRateLogSettings', settings: decodeHeartRateLogSettings(bytes) };
+
+    case COLMI_COMMANDS.SET_TIME:
+    case COLMI_COMMANDS.REBOOT:
+    case COLMI_COMMANDS.REAL_TIME_STOP:
+      return { kind: 'ack', command };
+
+    default:
+      return { kind: 'unknown', command };
+  }
+}
+
+/**
+ * Converts BCD (Binary Coded Decimal) to decimal
+ * Used for dates in steps data
+ */
+export function bcdToDecimal(bcd: number): number {
+  return (((bcd >> 4) & 15) * 10) + (bcd & 15);
+}
+
+/**
+ * Battery response (from Python client: battery.py parse_battery())
+ * Format: [CMD, BATTERY_LEVEL, CHARGING_STATUS, ...]
+ */
+function decodeBattery(packet: Uint8Array): DecodedPacket {
+  const level = packet[1];
+  if (level > 100) {
+    return { kind: 'invalid', reason: `Invalid battery level: ${level}` };
+  }
+
+  return { kind: 'battery', battery: { level, charging: packet[2] !== 0 } };
+}
+
+/**
+ * Real-time reading (from Python client: real_time.py parse_real_time_reading())
+ * Format: [CMD, READING_TYPE, ERROR_CODE, VALUE, ...]
+ */
+function decodeRealTime(packet: Uint8Array): DecodedPacket {
+  const readingType = packet[1];
+  const errorCode = packet[2];
+  const reading = errorCode === 0 ? decodeRealTimeValue(readingType, packet) : null;
+
+  return { kind: 'realTime', readingType, errorCode, reading };
+}
+
+/**
+ * Decodes the value of a real-time packet, null while the sensor is still measuring
+ */
+function decodeRealTimeValue(readingType: number, packet: Uint8Array): RealTimeReading | null {
+  const value = packet[3];
+
+  switch (readingType) {
+    case REAL_TIME_READINGS.HEART_RATE:
+      // The Python client accepts any non-zero value as valid
+      return value > 0 && value < 255 ? { type: 'heartRate', value } : null;
+
+    case REAL_TIME_READINGS.SPO2:
+      return value > 0 && value <= 100 ? { type: 'spO2', value } : null;
+
+    case REAL_TIME_READINGS.HRV: {
+      // 16-bit little-endian milliseconds in bytes 3-4
+      const hrv = packet[3] | (packet[4] << 8);
+      return hrv > 0 && hrv < 1000 ? { type: 'hrv', value: hrv } : null;
+    }
+
+    case REAL_TIME_READINGS.BLOOD_PRESSURE: {
+      // Systolic in byte 3, diastolic in byte 4
+      const systolic = packet[3];
+      const diastolic = packet[4];
+      return systolic > 0 && diastolic > 0 && systolic > diastolic
+        ? { type: 'bloodPressure', value: { systolic, diastolic } }
+        : null;
+    }
+
+    case REAL_TIME_READINGS.PRESSURE:
+    case REAL_TIME_READINGS.FATIGUE: {
+      // Stress ("pressure") and fatigue level 1-100 in byte 3
+      const kind = readingType === REAL_TIME_READINGS.PRESSURE ? 'stress' : 'fatigue';
+      return value > 0 && value <= 100 ? { type: 'stress', value: { kind, level: value } } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Steps response packets (from Python client: steps.py SportDetailParser)
+ * Interval format: [CMD, year_bcd, month_bcd, day_bcd, time_index, index, count,
+ * calories_lo, calories_hi, steps_lo, steps_hi, distance_lo, distance_hi, ...]
+ */
+function decodeSteps(packet: Uint8Array, options: DecodeOptions): DecodedPacket {
+  // "No data" response for the requested day
+  if (packet[1] === 255) {
+    return { kind: 'stepsNoData' };
+  }
+
+  // Metadata packet precedes the interval packets
+  if (packet[1] === 240) {
+    return { kind: 'stepsHeader', newCalorieProtocol: packet[3] === 1 };
+  }
+
+  const year = bcdToDecimal(packet[1]) + 2000;
+  const month = bcdToDecimal(packet[2]);
+  const day = bcdToDecimal(packet[3]);
+  const timeIndex = packet[4];
+  const calories = (packet[7] | (packet[8] << 8)) * (options.newCalorieProtocol ? 10 : 1);
+
+  const interval: ActivityData = {
+    year,
+    month,
+    day,
+    timeIndex,
+    calories,
+    steps: packet[9] | (packet[10] << 8),
+    distance: packet[11] | (packet[12] << 8),
+    timestamp: new Date(Date.UTC(year, month - 1, day, 0, timeIndex * 15)),
+  };
+
+  return { kind: 'stepsInterval', interval, packetIndex: packet[5], packetCount: packet[6] };
+}
+
+/**
+ * Heart-rate log packets (from Python client: HeartRateLogParser)
+ * A header (sub-type 0) with packet count and logging interval, a first data
+ * packet (sub-type 1) carrying the log's start timestamp and 9 readings, then
+ * packets of 13 readings each.
+ */
+function decodeHeartRateLog(packet: Uint8Array): DecodedPacket {
+  const subType = packet[1];
+
+  if (subType === 255) {
+    return { kind: 'heartRateLogNoData' };
+  }
+
+  if (subType === 0) {
+    return { kind: 'heartRateLogHeader', packetCount: packet[2], intervalMinutes: packet[3] };
+  }
+
+  if (subType === 1) {
+    const seconds = (packet[2] | (packet[3] << 8) | (packet[4] << 16) | (packet[5] << 24)) >>> 0;
+    return {
+      kind: 'heartRateLogData',
+      packetIndex: subType,
+      startTime: seconds > 0 ? new Date(seconds * 1000) : null,
+      readings: Array.from(packet.subarray(6, 15)),
+    };
+  }
+
+  return {
+    kind: 'heartRateLogData',
+    packetIndex: subType,
+    startTime: null,
+    readings: Array.from(packet.subarray(2, 15)),
+  };
+}
+
+/**
+ * Heart rate log settings response (from Python client: hr_settings.py)
+ * Format: [CMD, op, enabled (1 = on, 2 = off), interval_minutes, ...]
+ * Some firmwares answer a write with an empty acknowledgement (interval 0).
+ */
+function decodeHeartRateLogSettings(packet: Uint8Array): HeartRateLogSettings | null {
+  if (packet[3] === 0) {
+    return null;
+  }
+
+  return {
+    enabled: packet[2] === 1,
+    intervalMinutes: packet[3],
+  };
+}
+
+/**
+ * Raw sensor packet (from @atc1441's MIDI Ring demo)
+ */
+function decodeRawSensor(packet: Uint8Array, options: DecodeOptions): DecodedPacket {
+  const subtype = packet[1];
+  const timestamp = options.receivedAt ?? Date.now();
+
+  switch (subtype) {
+    case RAW_ACCELEROMETER_SUBTYPE:
+      return { kind: 'accelerometer', data: decodeAccelerometer(packet, timestamp) };
+    case RAW_PPG_SUBTYPE:
+      return { kind: 'ppg', data: decodePpg(packet, timestamp) };
+    case RAW_SPO2_SUBTYPE:
+      return { kind: 'spO2Raw', data: decodeSpO2Raw(packet, timestamp) };
+    default:
+      return { kind: 'rawSensor', subtype };
+  }
+}
+
+/**
+ * PPG sample: big-endian 16-bit raw, max, min and diff
+ * Format: [0xA1, 2, raw_hi, raw_lo, max_hi, max_lo, min_hi, min_lo, diff_hi, diff_lo, ...]
+ */
+function decodePpg(packet: Uint8Array, timestamp: number): PpgData {
+  return {
+    raw: (packet[2] << 8) | packet[3],
+    max: (packet[4] << 8) | packet[5],
+    min: (packet[6] << 8) | packet[7],
+    diff: (packet[8] << 8) | packet[9],
+    timestamp,
+  };
+}
+
+/**
+ * SpO2 raw sample: big-endian 16-bit raw, then 8-bit max, min and diff in the low bytes
+ * Format: [0xA1, 1, raw_hi, raw_lo, -, max, -, min, -, diff, ...]
+ */
+function decodeSpO2Raw(packet: Uint8Array, timestamp: number): SpO2RawData {
+  return {
+    raw: (packet[2] << 8) | packet[3],
+    max: packet[5],
+    min: packet[7],
+    diff: packet[9],
+    timestamp,
+  };
+}
+
+/**
+ * Accelerometer sample: three 12-bit signed values (±4G) in Y, Z, X order
+ */
+function decodeAccelerometer(packet: Uint8Array, timestamp: number): AccelerometerData {
+  // Convert 12-bit signed integer (from @atc1441's code)
+  const int12 = (uint12: number): number => {
+    return uint12 > 2047 ? uint12 - 4096 : uint12;
+  };
+
+  const rawY = int12((((packet[2] << 4) | (packet[3] & 0xf)) & 0xfff));
+  const rawZ = int12((((packet[4] << 4) | (packet[5] & 0xf)) & 0xfff));
+  const rawX = int12((((packet[6] << 4) | (packet[7] & 0xf)) & 0xfff));
+
+  // Convert to G-force values (±4G accelerometer)
+  const convertRawToG = (rawValue: number): number => {
+    const rangeG = 4;
+    return (rawValue / 2048) * rangeG;
+  };
+
+  const gX = convertRawToG(rawX);
+  const gY = convertRawToG(rawY);
+  const gZ = convertRawToG(rawZ);
+
+  // Rotation angles (orientation)
+  const rotateX = Math.atan2(gX, Math.sqrt(gY * gY + gZ * gZ));
+  const rotateY = Math.atan2(gY, Math.sqrt(gX * gX + gZ * gZ));
+  const rotateZ = Math.atan2(gZ, Math.sqrt(gX * gX + gY * gY));
+
+  return { rawX, rawY, rawZ, gX, gY, gZ, rotateX, rotateY, rotateZ, timestamp };
+}
+
+/**
+ * Complete big data frame: [0xBC, type, length_lo, length_hi, crc_lo, crc_hi, payload...]
+ */
+function decodeBigData(frame: Uint8Array, options: DecodeOptions): DecodedPacket {
+  if (frame.length < 6) {
+    return { kind: 'invalid', reason: `Big data frame too short: ${frame.length}` };
+  }
+
+  const payloadLength = frame[2] | (frame[3] << 8);
+  if (frame.length < payloadLength + 6) {
+    return { kind: 'invalid', reason: `Incomplete big data frame: ${frame.length - 6} of ${payloadLength} payload bytes` };
+  }
+
+  const now = new Date(options.receivedAt ?? Date.now());
+  // Midnight of the ring's current day (the ring clock runs on UTC)
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  switch (frame[1]) {
+    case BIG_DATA_TYPES.SLEEP:
+      return { kind: 'sleepHistory', sessions: decodeSleepData(frame, today) };
+    case BIG_DATA_TYPES.SPO2:
+      return { kind: 'spO2History', samples: decodeSpO2History(frame, today) };
+    default:
+      return { kind: 'unknown', command: COLMI_COMMANDS.BIG_DATA };
+  }
+}
+
+/**
+ * Sleep sessions (from Gadgetbridge)
+ * Payload: day count, then per day [days_ago, day_length, start_lo, start_hi,
+ * end_lo, end_hi, (stage, minutes)...]. Start and end are minutes after
+ * midnight of that day on the ring clock (UTC); a start later than the end
+ * means sleep began the evening before.
+ */
+function decodeSleepData(frame: Uint8Array, today: number): SleepSession[] {
+  const sessions: SleepSession[] = [];
+  const dayCount = frame[6] ?? 0;
+  let index = 7;
+
+  for (let day = 0; day < dayCount && index + 6 <= frame.length; day++) {
+    const daysAgo = frame[index];
+    const dayLength = frame[index + 1];
+    const sleepStart = frame[index + 2] | (frame[index + 3] << 8);
+    const sleepEnd = frame[index + 4] | (frame[index + 5] << 8);
+    const dayEnd = Math.min(index + 2 + dayLength, frame.length);
+    index += 6;
+
+    const midnight = today - daysAgo * DAY_MS;
+    const start = new Date(midnight + (sleepStart > sleepEnd ? sleepStart - 24 * 60 : sleepStart) * 60000);
+    const end = new Date(midnight + sleepEnd * 60000);
+
+    const periods: SleepPeriod[] = [];
+    let periodStart = start.getTime();
+    for (; index + 1 < dayEnd; index += 2) {
+      const stage = toSleepStage(frame[index]);
+      const durationMinutes = frame[index + 1];
+      if (stage && durationMinutes > 0) {
+        periods.push({ stage, start: new Date(periodStart), durationMinutes });
+      }
+      periodStart += durationMinutes * 60000;
+    }
+    index = dayEnd;
+
+    sessions.push({ start, end, periods });
+  }
+
+  return sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Maps a big data sleep stage code to a SleepStage
+ */
+function toSleepStage(code: number): SleepStage | null {
+  switch (code) {
+    case SLEEP_STAGES.LIGHT:
+      return 'light';
+    case SLEEP_STAGES.DEEP:
+      return 'deep';
+    case SLEEP_STAGES.REM:
+      return 'rem';
+    case SLEEP_STAGES.AWAKE:
+      return 'awake';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Hourly SpO2 ranges (from Gadgetbridge)
+ * Payload: per day [days_ago, (min, max) x 24 hours] on the ring clock (UTC).
+ * Hours without a measurement are stored as zeros and skipped.
+ */
+function decodeSpO2History(frame: Uint8Array, today: number): SpO2HistorySample[] {
+  const samples: SpO2HistorySample[] = [];
+  let index = 6;
+
+  while (index + 1 + 24 * 2 <= frame.length) {
+    const daysAgo = frame[index];
+    const midnight = today - daysAgo * DAY_MS;
+    index++;
+
+    for (let hour = 0; hour < 24; hour++, index += 2) {
+      const min = frame[index];
+      const max = frame[index + 1];
+      if (min > 0 && max > 0) {
+        samples.push({ timestamp: new Date(midnight + hour * 60 * 60 * 1000), min, max });
+      }
+    }
+  }
+
+  return samples.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
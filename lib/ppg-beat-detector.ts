@@ -0,0 +1,220 @@
+/**
+ * PpgBeatDetector - Heart beats and HRV from the ring's raw PPG waveform
+ *
+ * Each raw sample is band-passed with two exponential filters whose weights
+ * follow the time between samples, so samples should be stamped on a sample
+ * clock (SampleClock) rather than with their arrival times. Pulse peaks above
+ * a fraction of the recent amplitude become beats; the intervals between them
+ * give a beat-by-beat heart rate plus RMSSD and SDNN, which the ring does not
+ * report itself. Intervals far from the recent median are rejected as
+ * artifacts, e.g. the doubled interval around a missed beat.
+ */
+
+import { FilteredPpg, PpgBeat, PpgData, PpgHeartRateStats } from './types';
+import {
+  PPG_ARTIFACT_TOLERANCE,
+  PPG_BAND_PASS,
+  PPG_HEART_RATE_RANGE,
+  PPG_HRV_WINDOW,
+  PPG_PEAK_THRESHOLD
+} from './constants';
+
+// Time for the pulse amplitude estimate to decay to about a third (ms)
+const AMPLITUDE_DECAY = 2000;
+
+// Most recent intervals the reported heart rate is the median of
+const HEART_RATE_BEATS = 8;
+
+// Intervals needed before the median is trusted for artifact rejection
+const MIN_INTERVALS_FOR_REJECTION = 3;
+
+const MIN_INTERVAL = 60000 / PPG_HEART_RATE_RANGE.max;
+const MAX_INTERVAL = 60000 / PPG_HEART_RATE_RANGE.min;
+
+/**
+ * Root mean square of successive differences between RR intervals
+ * @param intervals - RR intervals in ms, oldest first; null marks a rejected interval or gap, which no difference spans
+ * @returns RMSSD in ms, null with fewer than 2 successive differences
+ */
+export function rmssd(intervals: (number | null)[]): number | null {
+  let sum = 0;
+  let count = 0;
+  for (let i = 1; i < intervals.length; i++) {
+    const previous = intervals[i - 1];
+    const current = intervals[i];
+    if (previous !== null && current !== null) {
+      sum += (current - previous) ** 2;
+      count++;
+    }
+  }
+  return count >= 2 ? Math.sqrt(sum / count) : null;
+}
+
+/**
+ * Standard deviation of RR intervals
+ * @param intervals - RR intervals in ms; null entries are skipped
+ * @returns SDNN in ms, null with fewer than 2 intervals
+ */
+export function sdnn(intervals: (number | null)[]): number | null {
+  const values = intervals.filter((interval): interval is number => interval !== null);
+  if (values.length < 2) {
+    return null;
+  }
+
+  const mean = values.reduce((sum, interval) => sum + interval, 0) / values.length;
+  const variance = values.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+export class PpgBeatDetector {
+  private invert: boolean;
+  private lowPass: number | null = null;
+  private baseline: number | null = null;
+  // Last two filtered samples, to find local maxima one sample late
+  private previous: FilteredPpg[] = [];
+  private amplitude: number = 0;
+  private lastBeat: number | null = null;
+  // Accepted intervals, with null where one was rejected or a gap broke the series
+  private intervals: (number | null)[] = [];
+  // Every recent interval, accepted or not, for the median artifacts are judged against
+  private recentIntervals: number[] = [];
+
+  /**
+   * @param invert - Flip the signal; more blood absorbs more light, so pulses are dips in the raw reading
+   */
+  constructor(invert: boolean = true) {
+    this.invert = invert;
+  }
+
+  /**
+   * Filters a raw sample and checks the previous one for a pulse peak
+   * @param sample - Raw PPG sample
+   * @returns The filtered sample and the beat it completed, if any
+   */
+  push(sample: PpgData): { filtered: FilteredPpg; beat: PpgBeat | null } {
+    const last = this.previous[this.previous.length - 1];
+    const dt = last ? Math.max(0, sample.timestamp - last.timestamp) : 0;
+
+    // Band-pass: a fast low-pass minus a slow one that tracks the baseline
+    const smooth = (state: number | null, cutoffHz: number) => {
+      if (state === null) return sample.raw;
+      const weight = 1 - Math.exp(-dt * 2 * Math.PI * cutoffHz / 1000);
+      return state + weight * (sample.raw - state);
+    };
+    this.lowPass = smooth(this.lowPass, PPG_BAND_PASS.highHz);
+    this.baseline = smooth(this.baseline, PPG_BAND_PASS.lowHz);
+
+    const value = (this.lowPass - this.baseline) * (this.invert ? -1 : 1);
+    const filtered: FilteredPpg = { timestamp: sample.timestamp, value };
+    this.amplitude = Math.max(Math.abs(value), this.amplitude * Math.exp(-dt / AMPLITUDE_DECAY));
+
+    const beat = this.detectPeak(filtered);
+
+    this.previous.push(filtered);
+    if (this.previous.length > 2) {
+      this.previous.shift();
+    }
+
+    return { filtered, beat };
+  }
+
+  /**
+   * Returns heart rate and HRV from the recent intervals
+   */
+  getStats(): PpgHeartRateStats {
+    const accepted = this.getIntervals();
+    const median = medianOf(accepted.slice(-HEART_RATE_BEATS));
+
+    return {
+      heartRate: median !== null ? Math.round(60000 / median) : null,
+      rmssd: rmssd(this.intervals),
+      sdnn: sdnn(accepted),
+      intervals: accepted.length,
+    };
+  }
+
+  /**
+   * Returns the recent accepted RR intervals in ms, oldest first
+   */
+  getIntervals(): number[] {
+    return this.intervals.filter((interval): interval is number => interval !== null);
+  }
+
+  /**
+   * Forgets the filter state and all beats, e.g. when raw data mode restarts
+   */
+  reset(): void {
+    this.lowPass = null;
+    this.baseline = null;
+    this.previous = [];
+    this.amplitude = 0;
+    this.lastBeat = null;
+    this.intervals = [];
+    this.recentIntervals = [];
+  }
+
+  /**
+   * Turns the previous sample into a beat if it is a high enough local maximum
+   */
+  private detectPeak(current: FilteredPpg): PpgBeat | null {
+    if (this.previous.length < 2) {
+      return null;
+    }
+
+    const [before, peak] = this.previous;
+    const isPeak = peak.value > before.value && peak.value >= current.value;
+    if (!isPeak || peak.value <= 0 || peak.value < this.amplitude * PPG_PEAK_THRESHOLD) {
+      return null;
+    }
+
+    // Ignore secondary peaks (e.g. the dicrotic notch) within the same beat
+    if (this.lastBeat !== null && peak.timestamp - this.lastBeat < MIN_INTERVAL) {
+      return null;
+    }
+
+    const interval = this.lastBeat !== null ? peak.timestamp - this.lastBeat : null;
+    this.lastBeat = peak.timestamp;
+
+    let ibiMs: number | null = null;
+    if (interval !== null && interval <= MAX_INTERVAL) {
+      ibiMs = this.isArtifact(interval) ? null : interval;
+      this.recentIntervals.push(interval);
+      if (this.recentIntervals.length > HEART_RATE_BEATS) {
+        this.recentIntervals.shift();
+      }
+    }
+
+    // The first beat has nothing to break; after that a null keeps RMSSD from spanning the gap
+    if (ibiMs !== null || (interval !== null && this.intervals.length > 0)) {
+      this.intervals.push(ibiMs);
+      if (this.intervals.length > PPG_HRV_WINDOW) {
+        this.intervals.shift();
+      }
+    }
+
+    return { timestamp: peak.timestamp, ibiMs, bpm: ibiMs !== null ? 60000 / ibiMs : null };
+  }
+
+  /**
+   * Whether an interval is too far from the recent median to be a real beat-to-beat interval
+   */
+  private isArtifact(interval: number): boolean {
+    if (this.recentIntervals.length < MIN_INTERVALS_FOR_REJECTION) {
+      return false;
+    }
+
+    const median = medianOf(this.recentIntervals)!;
+    return Math.abs(interval - median) > median * PPG_ARTIFACT_TOLERANCE;
+  }
+}
+
+/**
+ * Median of a list of numbers, null when empty
+ */
+function medianOf(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,175 @@
+/**
+ * RingFinder - Hot/cold proximity search for a lost ring
+ *
+ * Listens to advertisements without connecting, follows the remembered ring
+ * (or the first ring matching COLMI_DEVICE_PATTERNS when none is remembered)
+ * and reports its smoothed RSSI as a proximity level.
+ */
+
+import { AdvertisementScanner, ProximityLevel, RingAdvertisement, RingFinderEventMap, RingProximity } from './types';
+import { COLMI_DEVICE_PATTERNS, FINDER_BEEP_INTERVAL, PROXIMITY_LEVELS, RSSI_STALE_AFTER } from './constants';
+import { RssiSmoother, rssiToPercent } from './signal-strength';
+import { getRememberedRingId, scanRingAdvertisements } from './transport';
+import { EventHandler, TypedEventEmitter } from './typed-event-emitter';
+
+/**
+ * Checks an advertised name against COLMI_DEVICE_PATTERNS
+ * @param name - Advertised device name
+ * @returns True if the name belongs to a Colmi ring
+ */
+export function isColmiDeviceName(name: string | null): boolean {
+  if (!name) {
+    return false;
+  }
+
+  return COLMI_DEVICE_PATTERNS.some(pattern =>
+    pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+  );
+}
+
+/**
+ * Buckets a signal percentage into a proximity level
+ * @param percent - Signal strength 0-100
+ */
+export function proximityLevel(percent: number): ProximityLevel {
+  if (percent >= PROXIMITY_LEVELS.hot) return 'hot';
+  if (percent >= PROXIMITY_LEVELS.warm) return 'warm';
+  if (percent >= PROXIMITY_LEVELS.cool) return 'cool';
+  return 'cold';
+}
+
+/**
+ * Time until the next finder beep, shorter the closer the ring is
+ * @param percent - Signal strength 0-100
+ * @returns Interval in ms between FINDER_BEEP_INTERVAL.max and .min
+ */
+export function beepInterval(percent: number): number {
+  const fraction = Math.min(1, Math.max(0, percent / 100));
+  return Math.round(FINDER_BEEP_INTERVAL.max - fraction * (FINDER_BEEP_INTERVAL.max - FINDER_BEEP_INTERVAL.min));
+}
+
+export class RingFinder {
+  private scanner: AdvertisementScanner;
+  private targetId: string | null;
+  private smoother = new RssiSmoother();
+  private stopScan: (() => void) | null = null;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+  private proximity: RingProximity;
+  private events = new TypedEventEmitter<RingFinderEventMap>();
+
+  /**
+   * @param scanner - Source of advertisements; defaults to Web Bluetooth scanning
+   * @param targetId - Device id of the ring to find; defaults to the ring remembered from the last session
+   */
+  constructor(scanner: AdvertisementScanner = scanRingAdvertisements, targetId: string | null = getRememberedRingId()) {
+    this.scanner = scanner;
+    this.targetId = targetId;
+    this.proximity = { deviceId: targetId, name: null, rssi: null, percent: null, level: null };
+  }
+
+  /**
+   * Starts listening for the ring's advertisements
+   * Must be called from a user gesture when using Web Bluetooth.
+   * @returns Promise<void>
+   * @throws Error if the browser cannot scan for advertisements
+   */
+  async start(): Promise<void> {
+    if (this.stopScan) {
+      return;
+    }
+
+    this.smoother.reset();
+    this.stopScan = await this.scanner(advertisement => this.handleAdvertisement(advertisement));
+  }
+
+  /**
+   * Stops listening and forgets the smoothed RSSI
+   */
+  stop(): void {
+    this.stopScan?.();
+    this.stopScan = null;
+    this.clearStaleTimer();
+    this.smoother.reset();
+    this.proximity = { ...this.proximity, rssi: null, percent: null, level: null };
+  }
+
+  /**
+   * Whether the finder is listening for advertisements
+   */
+  isScanning(): boolean {
+    return this.stopScan !== null;
+  }
+
+  /**
+   * Returns the latest proximity of the ring
+   */
+  getProximity(): RingProximity {
+    return this.proximity;
+  }
+
+  /**
+   * Subscribes to a finder event
+   * @param event - Event name (proximity)
+   * @param handler - Function called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof RingFinderEventMap>(event: K, handler: EventHandler<RingFinderEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a handler registered with on()
+   * @param event - Event name
+   * @param handler - Handler passed to on()
+   */
+  off<K extends keyof RingFinderEventMap>(event: K, handler: EventHandler<RingFinderEventMap[K]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Smooths the RSSI of the tracked ring's advertisements
+   * Without a remembered ring the first Colmi ring heard is tracked from then on.
+   */
+  private handleAdvertisement(advertisement: RingAdvertisement): void {
+    if (this.targetId ? advertisement.deviceId !== this.targetId : !isColmiDeviceName(advertisement.name)) {
+      return;
+    }
+    this.targetId = advertisement.deviceId;
+
+    const rssi = this.smoother.add(advertisement.rssi);
+    const percent = rssiToPercent(rssi);
+    this.updateProximity({
+      deviceId: advertisement.deviceId,
+      name: advertisement.name ?? this.proximity.name,
+      rssi: Math.round(rssi),
+      percent,
+      level: proximityLevel(percent),
+    });
+
+    // Advertisements stop when the ring moves out of reach or its battery dies
+    this.clearStaleTimer();
+    this.staleTimer = setTimeout(() => {
+      this.staleTimer = null;
+      this.smoother.reset();
+      this.updateProximity({ ...this.proximity, rssi: null, percent: null, level: null });
+    }, RSSI_STALE_AFTER);
+  }
+
+  /**
+   * Cancels the pending stale reset
+   */
+  private clearStaleTimer(): void {
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  /**
+   * Stores and reports the ring's proximity
+   */
+  private updateProximity(proximity: RingProximity): void {
+    this.proximity = proximity;
+    this.events.emit('proximity', proximity);
+  }
+}
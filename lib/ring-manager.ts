@@ -0,0 +1,249 @@
+/**
+ * RingManager - Holds several connected rings at once
+ *
+ * Each ring gets its own ColmiRingService (and so its own transport, event
+ * stream and state) plus an alias for the UI, e.g. "Left hand" or
+ * "Participant 2". One ring is active at a time for the single-ring views.
+ */
+
+import { ManagedRing, ManagedRingStatus, RingManagerEventMap, RingTransport } from './types';
+import { ColmiRingService } from './colmi-ring-service';
+import { EventHandler, TypedEventEmitter } from './typed-event-emitter';
+
+/**
+ * Ring plus the service subscriptions that track its status
+ */
+interface RingEntry {
+  ring: ManagedRing;
+  unsubscribers: (() => void)[];
+}
+
+export class RingManager {
+  private entries: Map<string, RingEntry> = new Map();
+  private activeId: string | null = null;
+  private nextNumber: number = 1;
+  private events = new TypedEventEmitter<RingManagerEventMap>();
+  private createTransport: (() => RingTransport) | undefined;
+
+  /**
+   * @param createTransport - Builds the transport for each new ring; defaults to Web Bluetooth
+   */
+  constructor(createTransport?: () => RingTransport) {
+    this.createTransport = createTransport;
+  }
+
+  /**
+   * Asks the user for another ring and adds it once connected
+   * Must be called from a user gesture when using Web Bluetooth.
+   * @param alias - Name to show for the ring, defaults to its device name
+   * @returns Promise<ManagedRing | null> - The new ring, or null if connecting failed
+   */
+  async connectRing(alias?: string): Promise<ManagedRing | null> {
+    const service = new ColmiRingService(this.createTransport?.());
+    const connected = await service.connect();
+    return connected ? this.add(service, alias) : null;
+  }
+
+  /**
+   * Adds an already connected service
+   * The first ring added becomes the active one.
+   * @param service - Service for the ring
+   * @param alias - Name to show for the ring, defaults to its device name
+   * @returns ManagedRing - The added ring
+   */
+  add(service: ColmiRingService, alias?: string): ManagedRing {
+    const existing = this.findByService(service);
+    if (existing) {
+      return existing;
+    }
+
+    const number = this.nextNumber++;
+    const ring: ManagedRing = {
+      id: `ring-${number}`,
+      alias: alias?.trim() || service.getDeviceInfo()?.name || `Ring ${number}`,
+      service,
+      status: this.statusOf(service),
+    };
+
+    const updateStatus = () => this.setStatus(ring, this.statusOf(service));
+    this.entries.set(ring.id, {
+      ring,
+      unsubscribers: [
+        service.on('disconnected', updateStatus),
+        service.on('reconnecting', updateStatus),
+        service.on('reconnected', updateStatus),
+        service.on('reconnectFailed', updateStatus),
+      ],
+    });
+
+    this.emitRingsChanged();
+    if (!this.activeId) {
+      this.setActive(ring.id);
+    }
+
+    return ring;
+  }
+
+  /**
+   * Disconnects a ring and removes it
+   * If it was active, the first remaining ring becomes active.
+   * @param id - Ring id
+   * @returns Promise<void>
+   */
+  async remove(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.entries.delete(id);
+
+    try {
+      await entry.ring.service.disconnect();
+    } catch (error) {
+      console.error(`Error disconnecting ${entry.ring.alias}:`, error);
+    }
+
+    this.emitRingsChanged();
+    if (this.activeId === id) {
+      const next = this.entries.keys().next();
+      this.activeId = null;
+      if (next.done) {
+        this.events.emit('activeRingChanged', null);
+      } else {
+        this.setActive(next.value);
+      }
+    }
+  }
+
+  /**
+   * Disconnects and removes every ring
+   * @returns Promise<void>
+   */
+  async removeAll(): Promise<void> {
+    for (const id of Array.from(this.entries.keys())) {
+      await this.remove(id);
+    }
+  }
+
+  /**
+   * Renames a ring
+   * @param id - Ring id
+   * @param alias - New name; blank names are ignored
+   */
+  rename(id: string, alias: string): void {
+    const entry = this.entries.get(id);
+    const trimmed = alias.trim();
+    if (!entry || !trimmed || entry.ring.alias === trimmed) {
+      return;
+    }
+
+    entry.ring.alias = trimmed;
+    this.emitRingsChanged();
+  }
+
+  /**
+   * Selects the ring shown by the single-ring views
+   * @param id - Ring id
+   */
+  setActive(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry || this.activeId === id) {
+      return;
+    }
+
+    this.activeId = id;
+    this.events.emit('activeRingChanged', entry.ring);
+  }
+
+  /**
+   * Returns the active ring
+   * @returns ManagedRing | null - null when no rings are connected
+   */
+  getActive(): ManagedRing | null {
+    return this.activeId ? this.entries.get(this.activeId)?.ring ?? null : null;
+  }
+
+  /**
+   * Returns a ring by id
+   * @param id - Ring id
+   */
+  get(id: string): ManagedRing | null {
+    return this.entries.get(id)?.ring ?? null;
+  }
+
+  /**
+   * Returns every ring, in the order they were added
+   */
+  getRings(): ManagedRing[] {
+    return Array.from(this.entries.values(), entry => entry.ring);
+  }
+
+  /**
+   * Number of rings held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Subscribes to a manager event
+   * @param event - Event name (ringsChanged, activeRingChanged, ringStatusChanged)
+   * @param handler - Function called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof RingManagerEventMap>(event: K, handler: EventHandler<RingManagerEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Removes a handler registered with on()
+   * @param event - Event name
+   * @param handler - Handler passed to on()
+   */
+  off<K extends keyof RingManagerEventMap>(event: K, handler: EventHandler<RingManagerEventMap[K]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Finds the ring wrapping a service
+   */
+  private findByService(service: ColmiRingService): ManagedRing | null {
+    for (const { ring } of this.entries.values()) {
+      if (ring.service === service) {
+        return ring;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Derives a ring's link state from its service
+   */
+  private statusOf(service: ColmiRingService): ManagedRingStatus {
+    if (service.isConnected()) {
+      return 'connected';
+    }
+    return service.isReconnecting() ? 'reconnecting' : 'disconnected';
+  }
+
+  /**
+   * Stores a ring's link state and reports changes
+   */
+  private setStatus(ring: ManagedRing, status: ManagedRingStatus): void {
+    if (ring.status === status) {
+      return;
+    }
+
+    ring.status = status;
+    this.events.emit('ringStatusChanged', ring);
+  }
+
+  /**
+   * Reports the current ring list
+   */
+  private emitRingsChanged(): void {
+    this.events.emit('ringsChanged', this.getRings());
+  }
+}
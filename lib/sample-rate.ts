@@ -0,0 +1,260 @@
+/**
+ * Raw sensor timing - Rate, jitter and gap detection plus fixed-rate resampling
+ *
+ * The ring does not number its raw sensor packets, so the stream's health is
+ * inferred from arrival times: the effective rate and jitter over the most
+ * recent intervals, and gaps where an interval is several times the typical
+ * one. AccelerometerResampler turns the irregular stream into samples on a
+ * fixed time grid for algorithms that assume a steady rate; SampleClock
+ * stamps samples at their estimated sampling time instead of their arrival.
+ */
+
+import { AccelerometerData, SampleRateStats } from './types';
+import {
+  RESAMPLE_MAX_GAP,
+  SAMPLE_CLOCK_CORRECTION,
+  SAMPLE_CLOCK_MAX_ERROR,
+  SAMPLE_GAP_FACTOR,
+  SAMPLE_RATE_WINDOW
+} from './constants';
+
+// Intervals needed before the median is trusted for gap detection
+const MIN_INTERVALS_FOR_GAPS = 4;
+
+// Samples needed before the sample clock trusts the measured rate
+const MIN_SAMPLES_FOR_CLOCK = 8;
+
+export class SampleRateMonitor {
+  private windowSize: number;
+  private gapFactor: number;
+  private intervals: number[] = [];
+  private lastArrival: number | null = null;
+  private samples: number = 0;
+  private gaps: number = 0;
+  private droppedSamples: number = 0;
+  private longestGapMs: number = 0;
+
+  /**
+   * @param windowSize - Intervals used for rate and jitter, defaults to SAMPLE_RATE_WINDOW
+   * @param gapFactor - Multiple of the median interval counted as a gap, defaults to SAMPLE_GAP_FACTOR
+   */
+  constructor(windowSize: number = SAMPLE_RATE_WINDOW, gapFactor: number = SAMPLE_GAP_FACTOR) {
+    this.windowSize = windowSize;
+    this.gapFactor = gapFactor;
+  }
+
+  /**
+   * Records the arrival of a sample
+   * @param arrival - Arrival time in milliseconds from a monotonic clock (performance.now())
+   */
+  record(arrival: number): void {
+    this.samples++;
+
+    if (this.lastArrival !== null) {
+      const interval = Math.max(0, arrival - this.lastArrival);
+      this.detectGap(interval);
+
+      this.intervals.push(interval);
+      if (this.intervals.length > this.windowSize) {
+        this.intervals.shift();
+      }
+    }
+
+    this.lastArrival = arrival;
+  }
+
+  /**
+   * Returns the current timing figures
+   * @param now - Current time on the arrival clock, to measure the gap still open since the last sample
+   */
+  getStats(now?: number): Omit<SampleRateStats, 'resampleRateHz'> {
+    const count = this.intervals.length;
+    const total = this.intervals.reduce((sum, interval) => sum + interval, 0);
+    const mean = count > 0 ? total / count : null;
+    const jitter = mean !== null
+      ? Math.sqrt(this.intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / count)
+      : null;
+
+    return {
+      rateHz: total > 0 ? (count * 1000) / total : null,
+      meanIntervalMs: mean,
+      jitterMs: jitter,
+      gaps: this.gaps,
+      droppedSamples: this.droppedSamples,
+      longestGapMs: this.longestGapMs,
+      samples: this.samples,
+      openGapMs: now !== undefined && this.lastArrival !== null ? Math.max(0, now - this.lastArrival) : null,
+    };
+  }
+
+  /**
+   * Forgets all measurements, e.g. when raw data mode restarts
+   */
+  reset(): void {
+    this.intervals = [];
+    this.lastArrival = null;
+    this.samples = 0;
+    this.gaps = 0;
+    this.droppedSamples = 0;
+    this.longestGapMs = 0;
+  }
+
+  /**
+   * Counts an interval as a gap if it is much longer than the median
+   */
+  private detectGap(interval: number): void {
+    this.longestGapMs = Math.max(this.longestGapMs, interval);
+
+    if (this.intervals.length < MIN_INTERVALS_FOR_GAPS) {
+      return;
+    }
+
+    const sorted = [...this.intervals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    if (median > 0 && interval > median * this.gapFactor) {
+      this.gaps++;
+      this.droppedSamples += Math.round(interval / median) - 1;
+    }
+  }
+}
+
+export class AccelerometerResampler {
+  readonly rateHz: number;
+  private period: number;
+  private maxGap: number;
+  private previous: AccelerometerData | null = null;
+  private nextTime: number = 0;
+
+  /**
+   * @param rateHz - Output sample rate
+   * @param maxGap - Longest gap filled by interpolation in milliseconds, defaults to RESAMPLE_MAX_GAP
+   */
+  constructor(rateHz: number, maxGap: number = RESAMPLE_MAX_GAP) {
+    if (!(rateHz > 0)) {
+      throw new Error(`Invalid resample rate: ${rateHz}`);
+    }
+    this.rateHz = rateHz;
+    this.period = 1000 / rateHz;
+    this.maxGap = maxGap;
+  }
+
+  /**
+   * Adds a received sample
+   * @param sample - Sample with its arrival timestamp
+   * @returns AccelerometerData[] - Grid samples up to this sample's timestamp, oldest first
+   */
+  push(sample: AccelerometerData): AccelerometerData[] {
+    const previous = this.previous;
+    this.previous = sample;
+
+    // Start the grid at the first sample, and again after a gap too long to fill
+    if (!previous || sample.timestamp - previous.timestamp > this.maxGap || sample.timestamp < previous.timestamp) {
+      this.nextTime = sample.timestamp + this.period;
+      return [sample];
+    }
+
+    const output: AccelerometerData[] = [];
+    const span = sample.timestamp - previous.timestamp;
+    while (this.nextTime <= sample.timestamp) {
+      const t = span > 0 ? (this.nextTime - previous.timestamp) / span : 1;
+      output.push(interpolate(previous, sample, t, this.nextTime));
+      this.nextTime += this.period;
+    }
+    return output;
+  }
+
+  /**
+   * Restarts the grid at the next sample
+   */
+  reset(): void {
+    this.previous = null;
+  }
+}
+
+export class SampleClock {
+  private monitor = new SampleRateMonitor();
+  private maxError: number;
+  private correction: number;
+  private period: number | null = null;
+  private last: number | null = null;
+
+  /**
+   * @param maxError - Lateness in milliseconds treated as lost samples, defaults to SAMPLE_CLOCK_MAX_ERROR
+   * @param correction - Fraction of the arrival error corrected per sample, defaults to SAMPLE_CLOCK_CORRECTION
+   */
+  constructor(maxError: number = SAMPLE_CLOCK_MAX_ERROR, correction: number = SAMPLE_CLOCK_CORRECTION) {
+    this.maxError = maxError;
+    this.correction = correction;
+  }
+
+  /**
+   * Estimates when a sample was taken
+   * Samples are spaced one measured period apart and only drift slowly
+   * towards their arrival times, so BLE delivery jitter does not reach the
+   * timestamps. Until the rate is known samples keep their arrival time.
+   * @param arrival - Arrival time in milliseconds from a monotonic clock (performance.now())
+   * @returns number - Sample time on the same clock
+   */
+  stamp(arrival: number): number {
+    if (this.last === null || this.period === null) {
+      this.record(arrival);
+      this.last = arrival;
+      return arrival;
+    }
+
+    const predicted = this.last + this.period;
+    const error = arrival - predicted;
+
+    // Samples were lost: restart here, keeping the old period until the rate is measured again
+    if (error > this.maxError) {
+      this.monitor.reset();
+      this.monitor.record(arrival);
+      this.last = arrival;
+      return arrival;
+    }
+
+    this.record(arrival);
+    this.last = predicted + error * this.correction;
+    return this.last;
+  }
+
+  /**
+   * Forgets the rate and restarts at the next sample
+   */
+  reset(): void {
+    this.monitor.reset();
+    this.period = null;
+    this.last = null;
+  }
+
+  /**
+   * Records an arrival and takes the period from the measured rate once it is reliable
+   */
+  private record(arrival: number): void {
+    this.monitor.record(arrival);
+
+    const { rateHz, samples } = this.monitor.getStats();
+    if (rateHz !== null && samples >= MIN_SAMPLES_FOR_CLOCK) {
+      this.period = 1000 / rateHz;
+    }
+  }
+}
+
+/**
+ * Linear interpolation between two samples
+ */
+function interpolate(from: AccelerometerData, to: AccelerometerData, t: number, timestamp: number): AccelerometerData {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    rawX: Math.round(lerp(from.rawX, to.rawX)),
+    rawY: Math.round(lerp(from.rawY, to.rawY)),
+    rawZ: Math.round(lerp(from.rawZ, to.rawZ)),
+    gX: lerp(from.gX, to.gX),
+    gY: lerp(from.gY, to.gY),
+    gZ: lerp(from.gZ, to.gZ),
+    rotateX: lerp(from.rotateX, to.rotateX),
+    rotateY: lerp(from.rotateY, to.rotateY),
+    rotateZ: lerp(from.rotateZ, to.rotateZ),
+    timestamp,
+  };
+}
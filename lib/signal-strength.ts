@@ -0,0 +1,70 @@
+/**
+ * Signal strength helpers - RSSI smoothing and mapping
+ *
+ * Advertisement RSSI jumps by 10 dBm or more between packets, so readings
+ * are smoothed with an exponential moving average before being shown or
+ * used to decide that the ring is out of range.
+ */
+
+import { SignalStrength } from './types';
+import { RSSI_OUT_OF_RANGE, RSSI_RANGE, RSSI_SMOOTHING } from './constants';
+
+export class RssiSmoother {
+  private value: number | null = null;
+  private alpha: number;
+
+  /**
+   * @param alpha - Weight of each new reading, defaults to RSSI_SMOOTHING
+   */
+  constructor(alpha: number = RSSI_SMOOTHING) {
+    this.alpha = alpha;
+  }
+
+  /**
+   * Adds a reading
+   * @param rssi - Raw RSSI in dBm
+   * @returns Smoothed RSSI in dBm
+   */
+  add(rssi: number): number {
+    this.value = this.value === null ? rssi : this.value + this.alpha * (rssi - this.value);
+    return this.value;
+  }
+
+  /**
+   * Returns the smoothed RSSI, null before the first reading
+   */
+  get(): number | null {
+    return this.value;
+  }
+
+  /**
+   * Forgets previous readings
+   */
+  reset(): void {
+    this.value = null;
+  }
+}
+
+/**
+ * Maps RSSI to a 0-100 signal strength
+ * @param rssi - RSSI in dBm
+ * @returns Percentage, clamped to RSSI_RANGE
+ */
+export function rssiToPercent(rssi: number): number {
+  const fraction = (rssi - RSSI_RANGE.min) / (RSSI_RANGE.max - RSSI_RANGE.min);
+  return Math.round(Math.min(1, Math.max(0, fraction)) * 100);
+}
+
+/**
+ * Builds the signal strength reported to the UI
+ * @param supported - Whether the platform reports RSSI
+ * @param rssi - Smoothed RSSI in dBm, or null if unknown
+ */
+export function toSignalStrength(supported: boolean, rssi: number | null): SignalStrength {
+  return {
+    supported,
+    rssi: rssi === null ? null : Math.round(rssi),
+    percent: rssi === null ? null : rssiToPercent(rssi),
+    outOfRange: rssi !== null && rssi < RSSI_OUT_OF_RANGE,
+  };
+}
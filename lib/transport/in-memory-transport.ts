@@ -0,0 +1,181 @@
+/**
+ * InMemoryTransport - RingTransport that never leaves the process
+ *
+ * Lets scripts, tests and simulators drive ColmiRingService without a ring.
+ * Written frames are recorded and handed to an optional responder, and
+ * frames "from the ring" are pushed in with receive().
+ */
+
+import { DeviceInfo, RingTransport, TransportChannel, TransportConnectionEvent } from '../types';
+
+/**
+ * Responder called for every frame written to an InMemoryTransport
+ * Use transport.receive() inside it to answer like a ring would.
+ */
+export type InMemoryResponder = (frame: Uint8Array, transport: InMemoryTransport, channel: TransportChannel) => void;
+
+export class InMemoryTransport implements RingTransport {
+  /** Every frame written by the service, in order */
+  readonly writtenFrames: Uint8Array[] = [];
+  /** Identification returned by readDeviceInfo() */
+  deviceInfo: DeviceInfo = {
+    name: 'R02_TEST',
+    model: 'R02',
+    hardwareRevision: null,
+    firmwareRevision: null,
+  };
+
+  private connected: boolean = false;
+  private paired: boolean = false;
+  private notifying: boolean = false;
+  private responder: InMemoryResponder | undefined;
+  private frameHandlers: Set<(frame: Uint8Array, channel: TransportChannel) => void> = new Set();
+  private connectionHandlers: Set<(event: TransportConnectionEvent) => void> = new Set();
+  private rssiHandlers: Set<(rssi: number) => void> = new Set();
+
+  /**
+   * @param responder - Optional function that reacts to written frames
+   */
+  constructor(responder?: InMemoryResponder) {
+    this.responder = responder;
+  }
+
+  /**
+   * Replaces the responder used for written frames
+   * @param responder - New responder, or undefined to stop answering
+   */
+  setResponder(responder: InMemoryResponder | undefined): void {
+    this.responder = responder;
+  }
+
+  async connect(): Promise<void> {
+    this.paired = true;
+    this.connected = true;
+    this.emit('connected');
+  }
+
+  /**
+   * Reopens the link like a remembered ring would
+   * Fails until connect() has been called once.
+   */
+  async reconnect(): Promise<void> {
+    if (!this.paired) {
+      throw new Error('No previously connected ring to reconnect to');
+    }
+    if (this.connected) {
+      return;
+    }
+
+    this.connected = true;
+    this.emit('connected');
+  }
+
+  async disconnect(): Promise<void> {
+    this.dropConnection();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async write(frame: Uint8Array, channel: TransportChannel = 'command'): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Write characteristic not available');
+    }
+
+    const copy = new Uint8Array(frame);
+    this.writtenFrames.push(copy);
+    this.responder?.(copy, this, channel);
+  }
+
+  async subscribe(handler: (frame: Uint8Array, channel: TransportChannel) => void): Promise<() => void> {
+    if (!this.connected) {
+      throw new Error('Not connected to ring or notification characteristic not available');
+    }
+
+    this.notifying = true;
+    this.frameHandlers.add(handler);
+    return () => {
+      this.frameHandlers.delete(handler);
+    };
+  }
+
+  onConnectionEvent(handler: (event: TransportConnectionEvent) => void): () => void {
+    this.connectionHandlers.add(handler);
+    return () => {
+      this.connectionHandlers.delete(handler);
+    };
+  }
+
+  async readDeviceInfo(): Promise<DeviceInfo> {
+    if (!this.connected) {
+      throw new Error('Ring is not connected');
+    }
+
+    return { ...this.deviceInfo };
+  }
+
+  async watchRssi(handler: (rssi: number) => void): Promise<() => void> {
+    this.rssiHandlers.add(handler);
+    return () => {
+      this.rssiHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Reports an advertisement RSSI as if the ring had been heard
+   * @param rssi - RSSI in dBm
+   */
+  advertise(rssi: number): void {
+    for (const handler of this.rssiHandlers) {
+      handler(rssi);
+    }
+  }
+
+  /**
+   * Delivers a frame to subscribers as if the ring had sent it
+   * Frames are dropped while disconnected or before notifications start.
+   * @param frame - Bytes "received" from the ring
+   * @param channel - Characteristic pair the frame arrives on, defaults to 'command'
+   */
+  receive(frame: Uint8Array, channel: TransportChannel = 'command'): void {
+    if (!this.connected || !this.notifying) {
+      return;
+    }
+
+    for (const handler of this.frameHandlers) {
+      handler(new Uint8Array(frame), channel);
+    }
+  }
+
+  /**
+   * Simulates the ring dropping the link (out of range, reboot, ...)
+   */
+  simulateDisconnect(): void {
+    this.dropConnection();
+  }
+
+  /**
+   * Number of active frame subscriptions
+   */
+  get subscriberCount(): number {
+    return this.frameHandlers.size;
+  }
+
+  private dropConnection(): void {
+    if (!this.connected) {
+      return;
+    }
+
+    this.connected = false;
+    this.notifying = false;
+    this.frameHandlers.clear();
+    this.emit('disconnected');
+  }
+
+  private emit(event: TransportConnectionEvent): void {
+    for (const handler of this.connectionHandlers) {
+      handler(event);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Ring transport exports
+ */
+
+export { WebBluetoothTransport, scanRingAdvertisements, getRememberedRingId } from './web-bluetooth-transport';
+export { InMemoryTransport } from './in-memory-transport';
+export type { InMemoryResponder } from './in-memory-transport';
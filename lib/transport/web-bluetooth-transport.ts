@@ -0,0 +1,497 @@
+/**
+ * WebBluetoothTransport - RingTransport backed by the Web Bluetooth API
+ *
+ * Handles device discovery, GATT connection and the write/notify
+ * characteristics of the Colmi UART-style service.
+ */
+
+import { DeviceInfo, RingAdvertisement, RingTransport, TransportChannel, TransportConnectionEvent } from '../types';
+import {
+  BIG_DATA_BLE_CONFIG,
+  COLMI_BLE_CONFIG,
+  COLMI_DEVICE_PATTERNS,
+  CONNECTION_TIMEOUT,
+  DEVICE_INFO_CONFIG,
+  DISCONNECT_REQUESTED_STORAGE_KEY,
+  LAST_DEVICE_STORAGE_KEY
+} from '../constants';
+
+/**
+ * Builds device filters from COLMI_DEVICE_PATTERNS
+ * "R02_*" becomes a namePrefix filter, anything else an exact name filter.
+ */
+function colmiDeviceFilters(): BluetoothLEScanFilter[] {
+  return COLMI_DEVICE_PATTERNS.map(pattern =>
+    pattern.endsWith('*') ? { namePrefix: pattern.slice(0, -1) } : { name: pattern }
+  );
+}
+
+/**
+ * Reads the id of the last connected ring
+ * @returns The Web Bluetooth device id, or null if none was stored
+ */
+export function getRememberedRingId(): string | null {
+  try {
+    return localStorage.getItem(LAST_DEVICE_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to read remembered ring:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether the user disconnected the ring earlier in this browser session
+ */
+function wasDisconnectRequested(): boolean {
+  try {
+    return sessionStorage.getItem(DISCONNECT_REQUESTED_STORAGE_KEY) !== null;
+  } catch (error) {
+    console.warn('Failed to read disconnect state:', error);
+    return false;
+  }
+}
+
+/**
+ * Records or clears a user-requested disconnect for this browser session
+ */
+function setDisconnectRequested(requested: boolean): void {
+  try {
+    if (requested) {
+      sessionStorage.setItem(DISCONNECT_REQUESTED_STORAGE_KEY, '1');
+    } else {
+      sessionStorage.removeItem(DISCONNECT_REQUESTED_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to store disconnect state:', error);
+  }
+}
+
+/**
+ * Finds the last connected ring among the devices this site may access
+ * @returns The ring, or null if it is unknown or getDevices() is unsupported
+ */
+async function findRememberedDevice(): Promise<BluetoothDevice | null> {
+  if (typeof navigator === 'undefined' || typeof navigator.bluetooth?.getDevices !== 'function') {
+    return null;
+  }
+
+  const deviceId = getRememberedRingId();
+  if (!deviceId) {
+    return null;
+  }
+
+  const devices = await navigator.bluetooth.getDevices();
+  return devices.find(device => device.id === deviceId) ?? null;
+}
+
+/**
+ * Reports advertisements from nearby rings without connecting to them
+ * Watches the remembered ring when the browser supports watchAdvertisements(),
+ * otherwise scans for every ring matching COLMI_DEVICE_PATTERNS with
+ * requestLEScan(), which must be called from a user gesture. Both sit behind
+ * Chrome's "Experimental Web Platform features" flag.
+ * @param handler - Function called with each advertisement
+ * @returns Promise resolving to a function that stops scanning
+ * @throws Error if the browser cannot scan for advertisements
+ */
+export async function scanRingAdvertisements(
+  handler: (advertisement: RingAdvertisement) => void
+): Promise<() => void> {
+  if (typeof navigator === 'undefined' || !navigator.bluetooth) {
+    throw new Error('Web Bluetooth API is not supported in this browser');
+  }
+
+  const listener = (event: BluetoothAdvertisingEvent) => {
+    if (typeof event.rssi === 'number') {
+      handler({ deviceId: event.device.id, name: event.name ?? event.device.name ?? null, rssi: event.rssi });
+    }
+  };
+
+  const remembered = await findRememberedDevice();
+  if (remembered && typeof remembered.watchAdvertisements === 'function') {
+    const controller = new AbortController();
+
+    remembered.addEventListener('advertisementreceived', listener);
+    try {
+      await remembered.watchAdvertisements({ signal: controller.signal });
+    } catch (error) {
+      remembered.removeEventListener('advertisementreceived', listener);
+      throw error;
+    }
+
+    return () => {
+      remembered.removeEventListener('advertisementreceived', listener);
+      controller.abort();
+    };
+  }
+
+  if (typeof navigator.bluetooth.requestLEScan !== 'function') {
+    throw new Error('Scanning for rings is not supported in this browser');
+  }
+
+  const bluetooth = navigator.bluetooth;
+  bluetooth.addEventListener('advertisementreceived', listener);
+  let scan: BluetoothLEScan;
+  try {
+    scan = await bluetooth.requestLEScan({ filters: colmiDeviceFilters(), keepRepeatedDevices: true });
+  } catch (error) {
+    bluetooth.removeEventListener('advertisementreceived', listener);
+    throw error;
+  }
+
+  return () => {
+    bluetooth.removeEventListener('advertisementreceived', listener);
+    scan.stop();
+  };
+}
+
+export class WebBluetoothTransport implements RingTransport {
+  private device: BluetoothDevice | null = null;
+  private server: BluetoothRemoteGATTServer | null = null;
+  private service: BluetoothRemoteGATTService | null = null;
+  private writeCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private notifyCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private bigDataWriteCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private bigDataNotifyCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private connectionHandlers: Set<(event: TransportConnectionEvent) => void> = new Set();
+
+  /**
+   * Asks the user to pick a ring and opens its GATT connection
+   * @returns Promise<void>
+   * @throws Error if Web Bluetooth is unavailable or the connection fails
+   */
+  async connect(): Promise<void> {
+    // Check if Web Bluetooth is supported
+    if (typeof navigator === 'undefined' || !navigator.bluetooth) {
+      throw new Error('Web Bluetooth API is not supported in this browser');
+    }
+
+    // Request device with Colmi-specific filters
+    // Since your ring "R02_4101" is already paired, we'll use a more flexible approach
+    let device: BluetoothDevice;
+    try {
+      // First try with the known name patterns
+      device = await navigator.bluetooth.requestDevice({
+        filters: colmiDeviceFilters(),
+        optionalServices: [COLMI_BLE_CONFIG.serviceUUID, BIG_DATA_BLE_CONFIG.serviceUUID, DEVICE_INFO_CONFIG.serviceUUID]
+      });
+    } catch (filterError) {
+      // If specific filters fail, try a more general approach
+      console.log('Specific filters failed, trying general scan:', filterError);
+
+      device = await navigator.bluetooth.requestDevice({
+        acceptAllDevices: true,
+        optionalServices: [COLMI_BLE_CONFIG.serviceUUID, BIG_DATA_BLE_CONFIG.serviceUUID, DEVICE_INFO_CONFIG.serviceUUID]
+      });
+    }
+
+    this.rememberDevice(device);
+    await this.openGatt();
+  }
+
+  /**
+   * Reconnects the GATT server of the last ring without showing the chooser
+   * After a page reload the ring is looked up with navigator.bluetooth.getDevices(),
+   * which only returns rings the user already granted this site access to,
+   * unless the user disconnected it earlier in the session.
+   * @returns Promise<void>
+   * @throws Error if no ring is remembered, it was disconnected on request, or the connection fails
+   */
+  async reconnect(): Promise<void> {
+    if (this.isConnected()) {
+      return;
+    }
+
+    if (!this.device && wasDisconnectRequested()) {
+      throw new Error('The ring was disconnected on request; connect to it again');
+    }
+
+    const device = this.device ?? await findRememberedDevice();
+    if (!device) {
+      throw new Error('No previously connected ring to reconnect to');
+    }
+
+    this.rememberDevice(device);
+    await this.openGatt();
+  }
+
+  /**
+   * Holds on to a device so its GATT server can be reconnected later
+   */
+  private rememberDevice(device: BluetoothDevice): void {
+    if (this.device && this.device !== device) {
+      this.device.removeEventListener('gattserverdisconnected', this.handleDisconnection);
+    }
+    if (this.device !== device) {
+      device.addEventListener('gattserverdisconnected', this.handleDisconnection);
+    }
+    this.device = device;
+    setDisconnectRequested(false);
+
+    try {
+      localStorage.setItem(LAST_DEVICE_STORAGE_KEY, device.id);
+    } catch (error) {
+      console.warn('Failed to remember ring for reconnection:', error);
+    }
+  }
+
+  /**
+   * Connects the GATT server of the current device and looks up the characteristics
+   */
+  private async openGatt(): Promise<void> {
+    const device = this.device!;
+
+    try {
+      // Connect to GATT server; connecting to an absent ring can hang indefinitely
+      this.server = await this.connectGatt(device);
+
+      // Get the primary service
+      this.service = await this.server.getPrimaryService(COLMI_BLE_CONFIG.serviceUUID);
+
+      // Get characteristics for communication
+      this.writeCharacteristic = await this.service.getCharacteristic(
+        COLMI_BLE_CONFIG.writeCharacteristicUUID
+      );
+
+      this.notifyCharacteristic = await this.service.getCharacteristic(
+        COLMI_BLE_CONFIG.notifyCharacteristicUUID
+      );
+    } catch (error) {
+      this.cleanup();
+      throw error;
+    }
+
+    // The big data service is optional - older firmwares lack it
+    try {
+      const bigDataService = await this.server.getPrimaryService(BIG_DATA_BLE_CONFIG.serviceUUID);
+      this.bigDataWriteCharacteristic = await bigDataService.getCharacteristic(
+        BIG_DATA_BLE_CONFIG.writeCharacteristicUUID
+      );
+      this.bigDataNotifyCharacteristic = await bigDataService.getCharacteristic(
+        BIG_DATA_BLE_CONFIG.notifyCharacteristicUUID
+      );
+    } catch (error) {
+      console.log('Big data service not available - history transfers disabled:', error);
+      this.bigDataWriteCharacteristic = null;
+      this.bigDataNotifyCharacteristic = null;
+    }
+
+    this.emit('connected');
+  }
+
+  /**
+   * Connects a device's GATT server, giving up after CONNECTION_TIMEOUT
+   */
+  private connectGatt(device: BluetoothDevice): Promise<BluetoothRemoteGATTServer> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Abandons the pending connection attempt
+        device.gatt!.disconnect();
+        reject(new Error(`Connection timed out after ${CONNECTION_TIMEOUT / 1000} seconds`));
+      }, CONNECTION_TIMEOUT);
+    });
+
+    return Promise.race([device.gatt!.connect(), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Closes the GATT connection
+   * The ring is then not silently reconnected after a page reload in this session.
+   * @returns Promise<void>
+   */
+  async disconnect(): Promise<void> {
+    setDisconnectRequested(true);
+
+    try {
+      if (this.server && this.server.connected) {
+        this.server.disconnect();
+      }
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Returns whether the GATT server is connected
+   * @returns boolean - true if connected, false otherwise
+   */
+  isConnected(): boolean {
+    return this.server?.connected === true;
+  }
+
+  /**
+   * Writes a frame to the write characteristic of a channel
+   * @param frame - Bytes to send
+   * @param channel - Characteristic pair to use, defaults to 'command'
+   * @returns Promise<void>
+   */
+  async write(frame: Uint8Array, channel: TransportChannel = 'command'): Promise<void> {
+    const characteristic = channel === 'bigData' ? this.bigDataWriteCharacteristic : this.writeCharacteristic;
+    if (!characteristic) {
+      throw new Error(channel === 'bigData' ? 'Big data characteristic not available' : 'Write characteristic not available');
+    }
+
+    // Create a new Uint8Array with proper ArrayBuffer to satisfy TypeScript
+    const buffer = new ArrayBuffer(frame.length);
+    const view = new Uint8Array(buffer);
+    view.set(frame);
+    await characteristic.writeValue(view);
+  }
+
+  /**
+   * Starts notifications on the notify characteristics
+   * @param handler - Function called with every received frame and its channel
+   * @returns Promise resolving to a function that removes the handler
+   */
+  async subscribe(handler: (frame: Uint8Array, channel: TransportChannel) => void): Promise<() => void> {
+    const characteristic = this.notifyCharacteristic;
+    if (!characteristic) {
+      throw new Error('Not connected to ring or notification characteristic not available');
+    }
+
+    const listenOn = (target: BluetoothRemoteGATTCharacteristic, channel: TransportChannel) => {
+      const listener = (event: Event) => {
+        const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+        if (value) {
+          handler(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), channel);
+        }
+      };
+      target.addEventListener('characteristicvaluechanged', listener);
+      return () => target.removeEventListener('characteristicvaluechanged', listener);
+    };
+
+    const removers = [listenOn(characteristic, 'command')];
+    await characteristic.startNotifications();
+
+    const bigDataCharacteristic = this.bigDataNotifyCharacteristic;
+    if (bigDataCharacteristic) {
+      removers.push(listenOn(bigDataCharacteristic, 'bigData'));
+      await bigDataCharacteristic.startNotifications();
+    }
+
+    return () => {
+      removers.forEach(remove => remove());
+    };
+  }
+
+  /**
+   * Reads the Device Information service
+   * Characteristics the ring does not expose are returned as null.
+   * @returns Promise<DeviceInfo> - Name, model and revision strings
+   */
+  async readDeviceInfo(): Promise<DeviceInfo> {
+    if (!this.server || !this.server.connected) {
+      throw new Error('Ring is not connected');
+    }
+
+    const name = this.device?.name ?? null;
+    const service = await this.server.getPrimaryService(DEVICE_INFO_CONFIG.serviceUUID);
+
+    const readString = async (uuid: string): Promise<string | null> => {
+      try {
+        const characteristic = await service.getCharacteristic(uuid);
+        const value = await characteristic.readValue();
+        // Some firmwares pad the string with NUL bytes
+        const text = new TextDecoder().decode(value).replace(/\0+$/, '').trim();
+        return text || null;
+      } catch (error) {
+        console.log(`Device info characteristic ${uuid} not available:`, error);
+        return null;
+      }
+    };
+
+    const modelNumber = await readString(DEVICE_INFO_CONFIG.modelNumberUUID);
+    const hardwareRevision = await readString(DEVICE_INFO_CONFIG.hardwareRevisionUUID);
+    const firmwareRevision = await readString(DEVICE_INFO_CONFIG.firmwareRevisionUUID);
+
+    return {
+      name,
+      model: modelNumber ?? name?.split('_')[0] ?? null,
+      hardwareRevision,
+      firmwareRevision,
+    };
+  }
+
+  /**
+   * Reports the RSSI of advertisements from the ring
+   * Relies on watchAdvertisements(), which Chrome only exposes with the
+   * "Experimental Web Platform features" flag enabled.
+   * @param handler - Function called with each RSSI in dBm
+   * @returns Promise resolving to a function that stops watching
+   * @throws Error if the browser cannot watch advertisements
+   */
+  async watchRssi(handler: (rssi: number) => void): Promise<() => void> {
+    const device = this.device;
+    if (!device || typeof device.watchAdvertisements !== 'function') {
+      throw new Error('Advertisement RSSI is not supported in this browser');
+    }
+
+    const listener = (event: BluetoothAdvertisingEvent) => {
+      if (typeof event.rssi === 'number') {
+        handler(event.rssi);
+      }
+    };
+    const controller = new AbortController();
+
+    device.addEventListener('advertisementreceived', listener);
+    try {
+      await device.watchAdvertisements({ signal: controller.signal });
+    } catch (error) {
+      device.removeEventListener('advertisementreceived', listener);
+      throw error;
+    }
+
+    return () => {
+      device.removeEventListener('advertisementreceived', listener);
+      controller.abort();
+    };
+  }
+
+  /**
+   * Registers a connection lifecycle handler
+   * @param handler - Function called on connect and disconnect
+   * @returns Function that removes the handler
+   */
+  onConnectionEvent(handler: (event: TransportConnectionEvent) => void): () => void {
+    this.connectionHandlers.add(handler);
+    return () => {
+      this.connectionHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Handles GATT disconnection events from the device
+   */
+  private handleDisconnection = (): void => {
+    this.cleanup();
+  };
+
+  /**
+   * Notifies connection handlers of a lifecycle event
+   */
+  private emit(event: TransportConnectionEvent): void {
+    for (const handler of this.connectionHandlers) {
+      handler(event);
+    }
+  }
+
+  /**
+   * Releases GATT resources and reports the disconnection once
+   * The device itself is kept so reconnect() can reach it again.
+   */
+  private cleanup(): void {
+    const wasConnected = this.writeCharacteristic !== null;
+
+    this.server = null;
+    this.service = null;
+    this.writeCharacteristic = null;
+    this.notifyCharacteristic = null;
+    this.bigDataWriteCharacteristic = null;
+    this.bigDataNotifyCharacteristic = null;
+
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * TypedEventEmitter - Minimal event emitter keyed by an event map
+ *
+ * Each key of the event map is an event name and its value the payload type,
+ * so handlers are type-checked against the event they subscribe to.
+ */
+
+export type EventHandler<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private handlers: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+
+  /**
+   * Subscribes to an event
+   * @param event - Event name
+   * @param handler - Function called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    let set = this.handlers[event];
+    if (!set) {
+      set = new Set();
+      this.handlers[event] = set;
+    }
+    set.add(handler);
+
+    return () => {
+      this.off(event, handler);
+    };
+  }
+
+  /**
+   * Removes a previously registered handler
+   * @param event - Event name
+   * @param handler - Handler passed to on()
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers[event]?.delete(handler);
+  }
+
+  /**
+   * Calls every handler registered for an event
+   * A throwing handler is logged and does not stop the others.
+   * @param event - Event name
+   * @param payload - Value passed to the handlers
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.handlers[event];
+    if (!set) {
+      return;
+    }
+
+    for (const handler of Array.from(set)) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} handler:`, error);
+      }
+    }
+  }
+
+  /**
+   * Returns the number of handlers registered for an event
+   * @param event - Event name
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.handlers[event]?.size ?? 0;
+  }
+
+  /**
+   * Removes all handlers, optionally only for one event
+   * @param event - Event name, or undefined for every event
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.handlers = {};
+    } else {
+      delete this.handlers[event];
+    }
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import type { ColmiRingService } from './colmi-ring-service';
+import type { RingManager } from './ring-manager';
+import type { RealTimeReadingType } from './constants';
 
 /**
  * Raw accelerometer data from Colmi ring
@@ -31,6 +33,232 @@ export interface AccelerometerData {
   timestamp: number;
 }
 
+/**
+ * Raw optical (PPG) sample from the ring's green LED sensor
+ * Raw data subtype 2; field layout from @atc1441's MIDI Ring demo
+ */
+export interface PpgData {
+  /** Raw 16-bit photodiode reading */
+  raw: number;
+  /** Highest reading of the sensor's current window */
+  max: number;
+  /** Lowest reading of the sensor's current window */
+  min: number;
+  /** Peak-to-peak amplitude reported by the sensor */
+  diff: number;
+  /** Unix timestamp of when data was collected */
+  timestamp: number;
+}
+
+/**
+ * Raw SpO2 (red/infrared) sensor sample
+ * Raw data subtype 1; field layout from @atc1441's MIDI Ring demo
+ */
+export interface SpO2RawData {
+  /** Raw 16-bit photodiode reading */
+  raw: number;
+  /** Highest reading of the sensor's current window (8-bit) */
+  max: number;
+  /** Lowest reading of the sensor's current window (8-bit) */
+  min: number;
+  /** Peak-to-peak amplitude reported by the sensor (8-bit) */
+  diff: number;
+  /** Unix timestamp of when data was collected */
+  timestamp: number;
+}
+
+/**
+ * PPG sample after band-pass filtering, as drawn in the waveform view
+ */
+export interface FilteredPpg {
+  /** Timestamp of the raw sample */
+  timestamp: number;
+  /** Band-passed value; pulses point upwards */
+  value: number;
+}
+
+/**
+ * Heart beat detected in the raw PPG waveform
+ */
+export interface PpgBeat {
+  /** Timestamp of the pulse peak */
+  timestamp: number;
+  /** Time since the previous beat (RR interval) in ms, null for the first beat, after a gap or when rejected as an artifact */
+  ibiMs: number | null;
+  /** Beat-by-beat heart rate from ibiMs, null with it */
+  bpm: number | null;
+}
+
+/**
+ * Heart rate and variability from recent beats detected in the PPG waveform
+ */
+export interface PpgHeartRateStats {
+  /** Median heart rate of the last few beats, null until two beats arrive */
+  heartRate: number | null;
+  /** Root mean square of successive interval differences in ms, never across a gap or rejected interval; null with fewer than 2 differences */
+  rmssd: number | null;
+  /** Standard deviation of the intervals in ms, null with fewer than 2 intervals */
+  sdnn: number | null;
+  /** Accepted intervals the figures are computed from */
+  intervals: number;
+}
+
+/**
+ * Batch of accelerometer samples read from an AccelerometerBuffer
+ */
+export interface AccelerometerWindow {
+  /** Samples oldest first */
+  samples: AccelerometerData[];
+  /** Sequence number to pass to the next read */
+  sequence: number;
+  /** Samples overwritten before they were read, because the reader fell a whole buffer behind */
+  dropped: number;
+}
+
+/**
+ * Timing of the raw accelerometer stream, measured from sample arrival times
+ */
+export interface SampleRateStats {
+  /** Effective sample rate in Hz over the last SAMPLE_RATE_WINDOW intervals, null until two samples arrive */
+  rateHz: number | null;
+  /** Mean time between samples in milliseconds, null until two samples arrive */
+  meanIntervalMs: number | null;
+  /** Standard deviation of the time between samples in milliseconds, null until two samples arrive */
+  jitterMs: number | null;
+  /** Intervals longer than SAMPLE_GAP_FACTOR typical intervals since raw mode started */
+  gaps: number;
+  /** Samples estimated lost in those gaps */
+  droppedSamples: number;
+  /** Longest interval since raw mode started in milliseconds */
+  longestGapMs: number;
+  /** Samples received since raw mode started */
+  samples: number;
+  /** Time since the last sample arrived in milliseconds, null before the first one; grows while the stream is stalled */
+  openGapMs: number | null;
+  /** Fixed rate the buffer is resampled to, null when samples are stored as received */
+  resampleRateHz: number | null;
+}
+
+/**
+ * Settings of the accelerometer processing pipeline
+ */
+export interface MotionPipelineConfig {
+  /** Samples in the moving average of the smoothed stream */
+  movingAverageWindow: number;
+  /** Weight of each new sample in the filtered stream's EMA (0-1) */
+  emaAlpha: number;
+  /** G-force below which filtered gX/gY are treated as zero (hand tremor) */
+  deadZone: number;
+  /** Weight of the previous orientation in its exponential smoothing (0-1) */
+  orientationSmoothing: number;
+  /** Gestures to match against the smoothed stream */
+  gestures: GestureTemplate[];
+  /** Lowest confidence (0-100) reported as the current match */
+  matchThreshold: number;
+  /** Confidence (0-100) at which a gesture event fires */
+  triggerThreshold: number;
+  /** Time after a gesture event before any gesture fires again (ms) */
+  triggerCooldown: number;
+}
+
+/**
+ * Saved gesture reduced to what matching needs
+ */
+export interface GestureTemplate {
+  name: string;
+  /** Average rotation of the recorded samples in radians */
+  averages: { rotateX: number; rotateY: number; rotateZ: number };
+  /** Whether a confident match fires a gesture event, defaults to true */
+  triggers?: boolean;
+}
+
+/**
+ * Closest gesture to the current orientation
+ */
+export interface GestureMatch {
+  name: string;
+  /** 0-100, from the rotation distance to the gesture's averages */
+  confidence: number;
+}
+
+/**
+ * Gesture recognised with at least the trigger confidence
+ */
+export interface GestureEvent extends GestureMatch {
+  /** Timestamp of the sample that matched */
+  timestamp: number;
+}
+
+/**
+ * Sample after dead zone and EMA filtering, for pointer-style control
+ */
+export interface FilteredMotion {
+  timestamp: number;
+  /** Filtered G-force on X and Y */
+  gX: number;
+  gY: number;
+  /** Filtered forward/back tilt in degrees */
+  pitchDeg: number;
+  /** Filtered left/right tilt in degrees */
+  rollDeg: number;
+  /** Unfiltered total G-force */
+  magnitude: number;
+}
+
+/**
+ * Features of the latest processed sample
+ */
+export interface MotionFeatures {
+  timestamp: number;
+  /** Unfiltered total G-force */
+  magnitude: number;
+  /** Exponentially smoothed rotation in radians */
+  orientation: { x: number; y: number; z: number };
+  /** Best gesture match above matchThreshold, null if none */
+  match: GestureMatch | null;
+}
+
+/**
+ * Everything the pipeline produces for one batch of samples
+ */
+export interface MotionOutput {
+  /** Moving average of each input sample */
+  smoothed: AccelerometerData[];
+  /** Dead zone and EMA filtered version of each input sample */
+  filtered: FilteredMotion[];
+  /** Features after the last sample of the batch */
+  features: MotionFeatures;
+  /** Gestures recognised during the batch */
+  gestures: GestureEvent[];
+}
+
+/**
+ * Message sent to the motion pipeline worker
+ */
+export type MotionWorkerRequest =
+  | { type: 'configure'; config: Partial<MotionPipelineConfig> }
+  | { type: 'samples'; samples: AccelerometerData[] }
+  | { type: 'reset' };
+
+/**
+ * Message posted back by the motion pipeline worker
+ */
+export type MotionWorkerResponse = { type: 'output'; output: MotionOutput };
+
+/**
+ * Events emitted by MotionProcessor
+ */
+export interface MotionProcessorEventMap {
+  /** Moving average stream, one sample per raw sample */
+  smoothed: AccelerometerData[];
+  /** Dead zone and EMA filtered stream, one entry per raw sample */
+  filtered: FilteredMotion[];
+  /** Features after each processed batch */
+  features: MotionFeatures;
+  /** A gesture was recognised */
+  gesture: GestureEvent;
+}
+
 /**
  * Health metrics data structure from Colmi smart ring
  */
@@ -51,6 +279,151 @@ export interface RingData {
   activityData?: ActivityData;
 }
 
+/**
+ * Step data for one ring day, built from its 15-minute intervals
+ */
+export interface DailyStepSummary {
+  /** Ring date as 'YYYY-MM-DD' (ring clock, UTC) */
+  date: string;
+  /** Year (e.g., 2024) */
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  /** Day (1-31) */
+  day: number;
+  /** Sum of steps over all intervals */
+  totalSteps: number;
+  /** Sum of calories over all intervals */
+  totalCalories: number;
+  /** Sum of distance over all intervals, in meters */
+  totalDistance: number;
+  /** Intervals with recorded activity, ordered by time index */
+  intervals: ActivityData[];
+}
+
+/**
+ * Battery state reported by the ring
+ */
+export interface BatteryInfo {
+  /** Battery percentage (0-100) */
+  level: number;
+  /** Whether the ring is on its charger */
+  charging: boolean;
+}
+
+/**
+ * What the ring is doing, as far as battery drain is concerned
+ * 'liveHeartRate' covers any real-time optical reading (HR, SpO2, HRV, ...).
+ */
+export type UsageMode = 'idle' | 'liveHeartRate' | 'rawAccelerometer';
+
+/**
+ * One battery reading in the battery time series
+ */
+export interface BatterySample {
+  /** Unix timestamp of the reading */
+  timestamp: number;
+  /** Battery percentage (0-100) */
+  level: number;
+  /** Whether the ring was on its charger */
+  charging: boolean;
+  /** Usage mode active when the reading was taken */
+  mode: UsageMode;
+}
+
+/**
+ * A stretch of time the ring spent on its charger
+ */
+export interface ChargeSession {
+  /** Unix timestamp of the first charging reading */
+  start: number;
+  /** Unix timestamp of the first reading off the charger, null while still charging */
+  end: number | null;
+  /** Battery percentage when charging started */
+  startLevel: number;
+  /** Battery percentage at the last charging reading */
+  endLevel: number;
+}
+
+/**
+ * Battery drain/charge estimates derived from the battery time series
+ */
+export interface BatteryAnalytics {
+  /** Latest battery percentage, null before the first reading */
+  level: number | null;
+  /** Whether the latest reading was taken while charging */
+  charging: boolean;
+  /** Usage mode the predictions are for */
+  currentMode: UsageMode;
+  /** Percent per hour lost in each usage mode, null until enough data */
+  drainRates: Record<UsageMode, number | null>;
+  /** Percent per hour gained in the latest charge session, null until enough data */
+  chargeRate: number | null;
+  /** Predicted time until empty in milliseconds, null while charging or unknown */
+  timeToEmptyMs: number | null;
+  /** Predicted time until full in milliseconds, null unless charging with a known rate */
+  timeToFullMs: number | null;
+  /** Detected charge sessions, oldest first */
+  chargeSessions: ChargeSession[];
+}
+
+/**
+ * Direction of a captured frame, relative to the app
+ */
+export type PacketDirection = 'tx' | 'rx';
+
+/**
+ * One frame in a packet capture
+ */
+export interface CapturedPacket {
+  /** Milliseconds since the capture started, from performance.now() */
+  time: number;
+  /** 'tx' for frames written to the ring, 'rx' for notifications from it */
+  direction: PacketDirection;
+  /** Characteristic pair the frame used */
+  channel: TransportChannel;
+  /** Frame bytes as space-separated hex, e.g. "03 5a 00 ..." */
+  hex: string;
+  /** Human-readable meaning of the frame */
+  description: string;
+  /** Whether the byte-15 checksum matches, null for frames without one */
+  checksumValid: boolean | null;
+}
+
+/**
+ * Packet capture as exported to and imported from a JSON file
+ */
+export interface PacketCaptureFile {
+  /** Capture file format version */
+  version: 1;
+  /** Wall-clock time the capture started, ISO 8601 */
+  startedAt: string;
+  /** Device the capture was recorded from, if known */
+  device: DeviceInfo | null;
+  /** Captured frames, oldest first */
+  packets: CapturedPacket[];
+}
+
+/**
+ * Options for replaying a capture into the parser
+ */
+export interface ReplayOptions {
+  /** Wait between frames as in the original capture instead of replaying at once */
+  preserveTiming?: boolean;
+  /** Playback speed multiplier when preserving timing, defaults to 1 */
+  speed?: number;
+}
+
+/**
+ * Options for a correlated request/response exchange with the ring
+ */
+export interface RequestOptions {
+  /** Time to wait for the response before re-sending, in milliseconds */
+  timeoutMs?: number;
+  /** Number of times the request is re-sent after timing out */
+  retries?: number;
+}
+
 /**
  * Detailed activity data from Colmi ring (15-minute intervals)
  * Based on Python client's SportDetail structure
@@ -70,8 +443,392 @@ export interface ActivityData {
   steps: number;
   /** Distance traveled in meters */
   distance: number;
-  /** Calculated timestamp for this interval */
+  /** Calculated timestamp for this interval (ring clock is kept in UTC) */
+  timestamp: Date;
+}
+
+/**
+ * Single background heart-rate measurement from the ring's log
+ */
+export interface HeartRateSample {
+  /** When the ring took the measurement */
   timestamp: Date;
+  /** Heart rate in beats per minute */
+  heartRate: number;
+}
+
+/**
+ * A day of background heart-rate measurements downloaded from the ring
+ * Based on Python client's HeartRateLog structure
+ */
+export interface HeartRateLog {
+  /** Start of the logged (UTC) day */
+  date: Date;
+  /** Minutes between measurements, as configured on the ring */
+  intervalMinutes: number;
+  /** Measurements in time order; slots without a reading are omitted */
+  samples: HeartRateSample[];
+}
+
+/**
+ * Background heart-rate logging configuration stored on the ring
+ * Based on Python client's HeartRateLogSettings
+ */
+export interface HeartRateLogSettings {
+  /** Whether the ring measures heart rate in the background */
+  enabled: boolean;
+  /** Minutes between background measurements (1-255) */
+  intervalMinutes: number;
+}
+
+/**
+ * Sleep stage recorded by the ring
+ */
+export type SleepStage = 'light' | 'deep' | 'rem' | 'awake';
+
+/**
+ * A continuous stretch of one sleep stage
+ */
+export interface SleepPeriod {
+  /** Stage the ring detected */
+  stage: SleepStage;
+  /** When the period began */
+  start: Date;
+  /** Length of the period in minutes */
+  durationMinutes: number;
+}
+
+/**
+ * One night of sleep from the ring's big data history
+ */
+export interface SleepSession {
+  /** When the ring detected falling asleep */
+  start: Date;
+  /** When the ring detected waking up */
+  end: Date;
+  /** Stage periods in chronological order */
+  periods: SleepPeriod[];
+}
+
+/**
+ * Hourly SpO2 range from the ring's big data history
+ */
+export interface SpO2HistorySample {
+  /** Start of the hour the range covers */
+  timestamp: Date;
+  /** Lowest saturation measured in the hour, in percent */
+  min: number;
+  /** Highest saturation measured in the hour, in percent */
+  max: number;
+}
+
+/**
+ * Blood pressure estimate from a real-time reading
+ */
+export interface BloodPressureReading {
+  /** Systolic pressure in mmHg */
+  systolic: number;
+  /** Diastolic pressure in mmHg */
+  diastolic: number;
+}
+
+/**
+ * Stress or fatigue level from a real-time reading
+ */
+export interface StressReading {
+  /** Which real-time reading produced the level */
+  kind: 'stress' | 'fatigue';
+  /** Level on the ring's 1-100 scale, higher is more stressed/tired */
+  level: number;
+}
+
+/**
+ * A decoded real-time reading, tagged with the event it is emitted as
+ */
+export type RealTimeReading =
+  | { type: 'heartRate'; value: number }
+  | { type: 'spO2'; value: number }
+  | { type: 'hrv'; value: number }
+  | { type: 'bloodPressure'; value: BloodPressureReading }
+  | { type: 'stress'; value: StressReading };
+
+/**
+ * Context decodePacket() cannot read from the bytes themselves
+ */
+export interface DecodeOptions {
+  /** Calories in steps intervals are in tens, from the steps metadata packet */
+  newCalorieProtocol?: boolean;
+  /** Time the packet was received, in milliseconds; defaults to Date.now() */
+  receivedAt?: number;
+}
+
+/**
+ * Every known ring response, discriminated by `kind`
+ */
+export type DecodedPacket =
+  /** Wrong length or checksum; nothing else was decoded */
+  | { kind: 'invalid'; reason: string }
+  /** The ring rejected a command (command byte echoed with bit 7 set) */
+  | { kind: 'error'; command: number }
+  /** Response without a payload worth decoding (set time, reboot, real-time stop) */
+  | { kind: 'ack'; command: number }
+  | { kind: 'battery'; battery: BatteryInfo }
+  /**
+   * Real-time reading packet; `reading` is null while the sensor is still
+   * measuring, on an error code, or for reading types without a decoder
+   */
+  | { kind: 'realTime'; readingType: number; errorCode: number; reading: RealTimeReading | null }
+  /** The ring has no steps for the requested day */
+  | { kind: 'stepsNoData' }
+  /** Metadata packet that precedes the steps intervals */
+  | { kind: 'stepsHeader'; newCalorieProtocol: boolean }
+  /** One 15-minute steps interval; packetIndex counts up to packetCount - 1 */
+  | { kind: 'stepsInterval'; interval: ActivityData; packetIndex: number; packetCount: number }
+  /** The ring has no heart-rate log for the requested day */
+  | { kind: 'heartRateLogNoData' }
+  | { kind: 'heartRateLogHeader'; packetCount: number; intervalMinutes: number }
+  /** Heart-rate log readings; only packet 1 carries the log start time */
+  | { kind: 'heartRateLogData'; packetIndex: number; startTime: Date | null; readings: number[] }
+  /** Settings read back from the ring; null for an empty write acknowledgement */
+  | { kind: 'heartRateLogSettings'; settings: HeartRateLogSettings | null }
+  | { kind: 'accelerometer'; data: AccelerometerData }
+  | { kind: 'ppg'; data: PpgData }
+  | { kind: 'spO2Raw'; data: SpO2RawData }
+  /** 0xA1 raw sensor packet of a subtype without a decoder */
+  | { kind: 'rawSensor'; subtype: number }
+  /** Complete (reassembled) big data sleep frame */
+  | { kind: 'sleepHistory'; sessions: SleepSession[] }
+  /** Complete (reassembled) big data SpO2 frame */
+  | { kind: 'spO2History'; samples: SpO2HistorySample[] }
+  | { kind: 'unknown'; command: number };
+
+/**
+ * Discriminant of a DecodedPacket
+ */
+export type DecodedPacketKind = DecodedPacket['kind'];
+
+/**
+ * Identification read from the ring's Device Information service (0x180A)
+ * Fields the ring does not expose are null.
+ */
+export interface DeviceInfo {
+  /** Advertised device name (e.g., "R02_4101") */
+  name: string | null;
+  /** Ring model, from the model number string or else the name prefix (e.g., "R02") */
+  model: string | null;
+  /** Hardware revision string */
+  hardwareRevision: string | null;
+  /** Firmware revision string */
+  firmwareRevision: string | null;
+}
+
+/**
+ * Result of synchronising the ring's clock
+ */
+export interface TimeSyncResult {
+  /** Host time written to the ring */
+  syncedAt: Date;
+  /**
+   * Estimated ring clock offset before syncing, in milliseconds
+   * Positive means the ring was ahead, negative behind, 0 no drift. Derived
+   * from the newest step interval stored on the ring, so it is accurate to one
+   * 15-minute interval; a negative value can also mean the ring recorded no
+   * steps since. null when it could not be measured (no steps today, no reply).
+   */
+  driftMs: number | null;
+  /** Whether the ring was ahead by more than CLOCK_DRIFT_THRESHOLD */
+  driftDetected: boolean;
+}
+
+/**
+ * Events emitted by ColmiRingService, keyed by name with their payload type
+ */
+export interface RingEventMap {
+  /** Live heart rate in BPM */
+  heartRate: number;
+  /** Live blood oxygen saturation percentage */
+  spO2: number;
+  /** Live heart rate variability in milliseconds */
+  hrv: number;
+  /** Live blood pressure estimate */
+  bloodPressure: BloodPressureReading;
+  /** Live stress or fatigue level */
+  stress: StressReading;
+  /** Battery level and charging state */
+  battery: BatteryInfo;
+  /** Accumulated step total for today */
+  steps: number;
+  /** A single 15-minute step interval */
+  stepsInterval: ActivityData;
+  /** Per-day step breakdown after syncSteps() completes, newest first */
+  stepHistory: DailyStepSummary[];
+  /** Raw accelerometer sample */
+  accelerometer: AccelerometerData;
+  /** Raw optical (PPG) sample, while raw data mode is on; timestamped on the estimated sample clock */
+  ppg: PpgData;
+  /** Raw SpO2 sensor sample, while raw data mode is on */
+  spO2Raw: SpO2RawData;
+  /** Band-passed PPG sample, one per ppg event */
+  ppgFiltered: FilteredPpg;
+  /** Heart beat detected in the PPG waveform, with its RR interval */
+  ppgBeat: PpgBeat;
+  /** Every frame received from the ring, before parsing */
+  rawPacket: Uint8Array;
+  /** A frame was added to the packet capture */
+  packetCaptured: CapturedPacket;
+  /** The ring's clock was set */
+  timeSync: TimeSyncResult;
+  /** Device information was read after connecting */
+  deviceInfo: DeviceInfo;
+  /** Sleep sessions from a big data transfer */
+  sleepHistory: SleepSession[];
+  /** Hourly SpO2 ranges from a big data transfer */
+  spO2History: SpO2HistorySample[];
+  /** The connection to the ring was lost or closed */
+  disconnected: void;
+  /** A silent reconnect attempt is about to be made */
+  reconnecting: ReconnectAttempt;
+  /** The link was restored by a silent reconnect */
+  reconnected: void;
+  /** Silent reconnection gave up; a new connect() is needed */
+  reconnectFailed: void;
+  /** Streaming modes that were active before a drop were resumed after reconnecting */
+  modesRestored: RestoredModes;
+  /** Smoothed signal strength changed */
+  signalStrength: SignalStrength;
+  /** Raw accelerometer timing, at most once per SAMPLE_RATE_REPORT_INTERVAL */
+  sampleRate: SampleRateStats;
+}
+
+/**
+ * Signal strength of the ring from advertisement RSSI
+ */
+export interface SignalStrength {
+  /** Whether the browser reports RSSI for the ring at all */
+  supported: boolean;
+  /** Smoothed RSSI in dBm, null until an advertisement arrives or once readings go stale */
+  rssi: number | null;
+  /** Smoothed RSSI mapped to 0-100, null when rssi is null */
+  percent: number | null;
+  /** Whether the smoothed RSSI is below RSSI_OUT_OF_RANGE */
+  outOfRange: boolean;
+}
+
+/**
+ * Streaming modes resumed after a silent reconnect
+ */
+export interface RestoredModes {
+  /** Real-time readings streaming again */
+  realTimeReadings: RealTimeReadingType[];
+  /** Whether raw accelerometer streaming was resumed */
+  rawAccelerometer: boolean;
+  /** Real-time readings that were active but could not be restarted */
+  failedRealTimeReadings: RealTimeReadingType[];
+  /** Whether raw accelerometer streaming was active but could not be restarted */
+  rawAccelerometerFailed: boolean;
+}
+
+/**
+ * Progress of a silent reconnect
+ */
+export interface ReconnectAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Attempts made before giving up */
+  maxAttempts: number;
+  /** Wait before this attempt in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Options for ColmiRingService.reconnect()
+ */
+export interface ReconnectOptions {
+  /** Attempts made before giving up, defaults to RECONNECT_MAX_ATTEMPTS */
+  maxAttempts?: number;
+}
+
+/**
+ * Name of an event emitted by ColmiRingService
+ */
+export type RingEventName = keyof RingEventMap;
+
+/**
+ * Link state of a ring held by RingManager
+ */
+export type ManagedRingStatus = 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * A ring held by RingManager, with its own service and state
+ */
+export interface ManagedRing {
+  /** Stable id for this session, e.g. "ring-1" */
+  id: string;
+  /** Name shown in the UI, e.g. "Left hand" */
+  alias: string;
+  /** Service for this ring only; its events and state are independent of other rings */
+  service: ColmiRingService;
+  /** Current link state */
+  status: ManagedRingStatus;
+}
+
+/**
+ * Events emitted by RingManager
+ */
+export interface RingManagerEventMap {
+  /** A ring was added, removed or renamed; every ring in add order */
+  ringsChanged: ManagedRing[];
+  /** A different ring was selected, null when none are left */
+  activeRingChanged: ManagedRing | null;
+  /** A ring's link state changed */
+  ringStatusChanged: ManagedRing;
+}
+
+/**
+ * Advertisement from a nearby ring, seen while scanning
+ */
+export interface RingAdvertisement {
+  /** Web Bluetooth device id, stable per site */
+  deviceId: string;
+  /** Advertised name, e.g. "R02_4101" */
+  name: string | null;
+  /** Received signal strength in dBm */
+  rssi: number;
+}
+
+/**
+ * Starts reporting ring advertisements
+ * Resolves to a function that stops the scan.
+ */
+export type AdvertisementScanner = (handler: (advertisement: RingAdvertisement) => void) => Promise<() => void>;
+
+/**
+ * How close the ring is, from cold (far away) to hot (within reach)
+ */
+export type ProximityLevel = 'cold' | 'cool' | 'warm' | 'hot';
+
+/**
+ * Proximity of the ring being searched for
+ */
+export interface RingProximity {
+  /** Device id of the ring being tracked, null until one is found */
+  deviceId: string | null;
+  /** Advertised name of the ring being tracked */
+  name: string | null;
+  /** Smoothed RSSI in dBm, null until an advertisement arrives or once readings go stale */
+  rssi: number | null;
+  /** Smoothed RSSI mapped to 0-100, null when rssi is null */
+  percent: number | null;
+  /** Hot/cold bucket of percent, null when rssi is null */
+  level: ProximityLevel | null;
+}
+
+/**
+ * Events emitted by RingFinder
+ */
+export interface RingFinderEventMap {
+  /** Each matching advertisement, and once readings go stale */
+  proximity: RingProximity;
 }
 
 /**
@@ -88,6 +845,8 @@ export interface RingConnectorProps {
 export interface DataDashboardProps {
   /** Instance of the ring service for data communication */
   ringService: ColmiRingService;
+  /** All connected rings; enables the ring switcher and comparison view */
+  ringManager?: RingManager;
 }
 
 /**
@@ -117,6 +876,59 @@ export interface BLEConfig {
   notifyCharacteristicUUID: string;
 }
 
+/**
+ * Connection lifecycle events emitted by a ring transport
+ */
+export type TransportConnectionEvent = 'connected' | 'disconnected';
+
+/**
+ * Characteristic pair a frame travels on
+ * 'command' carries the fixed 16-byte frames; 'bigData' carries the
+ * variable-length history transfers (sleep, SpO2) of the V2 service.
+ */
+export type TransportChannel = 'command' | 'bigData';
+
+/**
+ * Byte-level link to a Colmi ring
+ *
+ * ColmiRingService only talks to the ring through this interface, so the
+ * protocol logic can run on top of Web Bluetooth, an in-memory fake or any
+ * other link that moves 16-byte frames back and forth.
+ */
+export interface RingTransport {
+  /** Opens the link to the ring; rejects if the ring cannot be reached */
+  connect(): Promise<void>;
+  /** Closes the link to the ring */
+  disconnect(): Promise<void>;
+  /**
+   * Reopens the link to the last ring without asking the user to pick it again
+   * Rejects if no ring is remembered or it cannot be reached.
+   */
+  reconnect(): Promise<void>;
+  /** Whether the link is currently open */
+  isConnected(): boolean;
+  /** Writes a single frame to the ring, on the command channel unless told otherwise */
+  write(frame: Uint8Array, channel?: TransportChannel): Promise<void>;
+  /**
+   * Starts notifications and registers a handler for incoming frames
+   * @returns Function that removes the handler
+   */
+  subscribe(handler: (frame: Uint8Array, channel: TransportChannel) => void): Promise<() => void>;
+  /**
+   * Registers a handler for connection lifecycle events
+   * @returns Function that removes the handler
+   */
+  onConnectionEvent(handler: (event: TransportConnectionEvent) => void): () => void;
+  /** Reads model, hardware and firmware identification from the connected ring */
+  readDeviceInfo(): Promise<DeviceInfo>;
+  /**
+   * Reports the RSSI of every advertisement received from the ring
+   * Optional; rejects where the platform does not expose RSSI.
+   * @returns Function that stops reporting
+   */
+  watchRssi?(handler: (rssi: number) => void): Promise<() => void>;
+}
+
 /**
  * Recorded accelerometer sample with timestamp
  */